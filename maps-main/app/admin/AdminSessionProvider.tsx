@@ -0,0 +1,46 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import { can, normalizeRole, type AdminRole, type Permission } from "@/lib/permissions";
+
+type AdminSessionInfo = {
+  email: string;
+  role: AdminRole;
+};
+
+const AdminSessionContext = createContext<AdminSessionInfo | null>(null);
+
+/**
+ * Makes the signed-in admin's role available to client components.
+ * The layout reads the session on the server and passes it down here.
+ */
+export function AdminSessionProvider({
+  session,
+  children,
+}: {
+  session: { email: string; role: string } | null;
+  children: React.ReactNode;
+}) {
+  const value = session
+    ? { email: session.email, role: normalizeRole(session.role) }
+    : null;
+
+  return (
+    <AdminSessionContext.Provider value={value}>
+      {children}
+    </AdminSessionContext.Provider>
+  );
+}
+
+export function useAdminSession() {
+  return useContext(AdminSessionContext);
+}
+
+/**
+ * Check a permission for the signed-in admin.
+ * Only used to hide or disable controls - the API routes enforce it.
+ */
+export function useCan(permission: Permission) {
+  const session = useContext(AdminSessionContext);
+  return can(session?.role, permission);
+}
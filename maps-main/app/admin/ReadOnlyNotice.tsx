@@ -0,0 +1,10 @@
+import { Lock } from "lucide-react";
+
+export default function ReadOnlyNotice({ message }: { message?: string }) {
+  return (
+    <div className="mb-6 bg-gray-50 border border-gray-200 text-gray-700 px-4 py-3 rounded flex items-center gap-2 text-sm">
+      <Lock className="h-4 w-4 text-gray-500" />
+      {message || "Your role has read-only access to this section."}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { Copy } from "lucide-react";
+
+export default function RecoveryCodesList({ codes }: { codes: string[] }) {
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+      <p className="font-medium">Save your recovery codes</p>
+      <p className="mt-1">
+        Each code can be used once to sign in if you lose access to your
+        authenticator app. They will not be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-1 font-mono text-gray-900">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => navigator.clipboard.writeText(codes.join("\n"))}
+        className="mt-3 inline-flex items-center gap-1 text-yellow-900 hover:underline"
+      >
+        <Copy className="h-4 w-4" />
+        Copy codes
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { LogOut, Monitor } from "lucide-react";
+
+type SessionRow = {
+  id: string;
+  createdAt: Date;
+  expiresAt: Date;
+  userAgent: string | null;
+  ipAddress: string | null;
+  isCurrent: boolean;
+};
+
+export default function SessionsList({ sessions }: { sessions: SessionRow[] }) {
+  const router = useRouter();
+  const [busy, setBusy] = useState(false);
+
+  const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString("en-AU", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+  };
+
+  const handleRevoke = async (session: SessionRow) => {
+    if (session.isCurrent && !confirm("This will sign you out. Continue?")) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/account/sessions/${session.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) throw new Error("Failed to revoke session");
+
+      if (session.isCurrent) {
+        router.push("/admin/login");
+      }
+      router.refresh();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      alert("Failed to revoke session");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm("Sign out of every session, including this one?")) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const res = await fetch("/api/admin/account/sessions", {
+        method: "DELETE",
+      });
+
+      if (!res.ok) throw new Error("Failed to sign out everywhere");
+
+      router.push("/admin/login");
+      router.refresh();
+    } catch (error) {
+      console.error("Error signing out everywhere:", error);
+      alert("Failed to sign out everywhere");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="p-6 border-b flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Active Sessions</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            Devices currently signed in to your account
+          </p>
+        </div>
+        <button
+          onClick={handleSignOutEverywhere}
+          disabled={busy}
+          className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm"
+        >
+          <LogOut className="h-4 w-4" />
+          Sign out everywhere
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Device
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Signed In
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expires
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {sessions.map((session) => (
+              <tr key={session.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4">
+                  <div className="flex items-start gap-2">
+                    <Monitor className="h-4 w-4 text-gray-400 mt-0.5" />
+                    <div>
+                      <div className="text-sm text-gray-900 max-w-md truncate">
+                        {session.userAgent || "Unknown device"}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {session.ipAddress || "Unknown IP"}
+                        {session.isCurrent && (
+                          <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                            This session
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDateTime(session.createdAt)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDateTime(session.expiresAt)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => handleRevoke(session)}
+                    disabled={busy}
+                    className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
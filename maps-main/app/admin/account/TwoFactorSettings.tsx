@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ShieldCheck } from "lucide-react";
+import RecoveryCodesList from "../RecoveryCodesList";
+
+type Props = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+type Provisioning = {
+  secret: string;
+  qrCodeDataUrl: string;
+};
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export default function TwoFactorSettings({
+  enabled,
+  required,
+  recoveryCodesRemaining,
+}: Props) {
+  const router = useRouter();
+  const [provisioning, setProvisioning] = useState<Provisioning | null>(null);
+  const [passwordAction, setPasswordAction] = useState<"disable" | "regenerate" | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function request(url: string, method: string, body?: object) {
+    setError("");
+    setLoading(true);
+
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Request failed");
+      }
+
+      return data;
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleStart() {
+    setRecoveryCodes(null);
+    const data = await request("/api/admin/account/two-factor", "POST");
+    if (data) setProvisioning(data);
+  }
+
+  async function handleConfirm(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await request("/api/admin/account/two-factor", "PUT", { code });
+    if (data) {
+      setProvisioning(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      router.refresh();
+    }
+  }
+
+  async function handlePasswordAction(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (passwordAction === "disable") {
+      const data = await request("/api/admin/account/two-factor", "DELETE", { password });
+      if (data) {
+        setRecoveryCodes(null);
+        router.refresh();
+      }
+    } else {
+      const data = await request(
+        "/api/admin/account/two-factor/recovery-codes",
+        "POST",
+        { password }
+      );
+      if (data) setRecoveryCodes(data.recoveryCodes);
+    }
+
+    setPassword("");
+    setPasswordAction(null);
+  }
+
+  return (
+    <div className="space-y-4 max-w-md">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {recoveryCodes && <RecoveryCodesList codes={recoveryCodes} />}
+
+      {enabled ? (
+        <>
+          <div className="flex items-center gap-2 text-sm text-green-700">
+            <ShieldCheck className="h-5 w-5" />
+            Enabled · {recoveryCodesRemaining} recovery code
+            {recoveryCodesRemaining === 1 ? "" : "s"} left
+          </div>
+
+          {passwordAction ? (
+            <form onSubmit={handlePasswordAction} className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm your password
+                </label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="current-password"
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className={`px-4 py-2 text-white rounded-lg transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed ${
+                    passwordAction === "disable"
+                      ? "bg-red-600 hover:bg-red-700"
+                      : "bg-blue-500 hover:bg-blue-600"
+                  }`}
+                >
+                  {passwordAction === "disable"
+                    ? "Turn Off Two-Factor"
+                    : "Generate New Codes"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setPasswordAction(null)}
+                  className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex gap-4 text-sm font-medium">
+              <button
+                onClick={() => setPasswordAction("regenerate")}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Regenerate recovery codes
+              </button>
+              {!required && (
+                <button
+                  onClick={() => setPasswordAction("disable")}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+        </>
+      ) : provisioning ? (
+        <form onSubmit={handleConfirm} className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app, or enter the key
+            manually, then type the 6-digit code it shows.
+          </p>
+          <Image
+            src={provisioning.qrCodeDataUrl}
+            alt="Two-factor QR code"
+            width={192}
+            height={192}
+            unoptimized
+            className="h-48 w-48 border border-gray-200 rounded"
+          />
+          <p className="text-xs text-gray-500">
+            Setup key:{" "}
+            <span className="font-mono text-gray-900 break-all">{provisioning.secret}</span>
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Authentication Code
+            </label>
+            <input
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              className={inputClassName}
+              placeholder="123456"
+              required
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            {loading ? "Verifying..." : "Enable Two-Factor"}
+          </button>
+        </form>
+      ) : (
+        <button
+          onClick={handleStart}
+          disabled={loading}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          Set Up Two-Factor
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,24 +1,106 @@
-export default function AccountPage() {
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Users } from "lucide-react";
+import { prisma } from "@/lib/prisma";
+import { getSession, listSessions } from "@/lib/auth";
+import { can, normalizeRole, ROLE_LABELS } from "@/lib/permissions";
+import { isTwoFactorRequired } from "@/lib/twoFactor";
+import ChangePasswordForm from "./ChangePasswordForm";
+import SessionsList from "./SessionsList";
+import TwoFactorSettings from "./TwoFactorSettings";
+
+export default async function AccountPage() {
+  const session = await getSession();
+
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const [sessions, user, twoFactorRequired] = await Promise.all([
+    listSessions(session.userId),
+    prisma.adminUser.findUnique({
+      where: { id: session.userId },
+      select: { totpEnabledAt: true, recoveryCodes: true },
+    }),
+    isTwoFactorRequired(),
+  ]);
+
+  const twoFactorEnabled = !!user?.totpEnabledAt;
+
   return (
     <div>
       <h1 className="text-2xl font-bold text-gray-900 mb-6">Account Settings</h1>
 
-      <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
-        <div className="space-y-4">
-          <div>
-            <h2 className="text-lg font-semibold text-gray-900 mb-2">
-              Profile Information
-            </h2>
-            <p className="text-gray-600">
-              Account settings and profile management coming soon.
-            </p>
-          </div>
-
-          <div className="pt-4 border-t">
-            <p className="text-sm text-gray-500">
-              <strong>TODO:</strong> Implement account settings, password change, etc.
-            </p>
-          </div>
+      <div className="space-y-6">
+        {/* Profile */}
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            Profile Information
+          </h2>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="font-medium text-gray-500">Email</dt>
+              <dd className="text-gray-900 mt-1">{session.email}</dd>
+            </div>
+            <div>
+              <dt className="font-medium text-gray-500">Role</dt>
+              <dd className="text-gray-900 mt-1">
+                {ROLE_LABELS[normalizeRole(session.role)]}
+              </dd>
+            </div>
+          </dl>
+
+          {can(session.role, "users:manage") && (
+            <div className="pt-4 mt-4 border-t">
+              <Link
+                href="/admin/users"
+                className="inline-flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Users className="h-4 w-4" />
+                Manage admin users →
+              </Link>
+            </div>
+          )}
+        </div>
+
+        {/* Password */}
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            Change Password
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Changing your password signs you out of all other sessions.
+          </p>
+          <ChangePasswordForm />
+        </div>
+
+        {/* Two-factor authentication */}
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">
+            Two-Factor Authentication
+          </h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {twoFactorRequired
+              ? twoFactorEnabled
+                ? "Required for all admins. You will be asked for a code from your authenticator app when you sign in."
+                : "Required for all admins. Set it up now or you will be asked to at your next sign-in."
+              : "Ask for a code from an authenticator app when you sign in."}
+          </p>
+          <TwoFactorSettings
+            enabled={twoFactorEnabled}
+            required={twoFactorRequired}
+            recoveryCodesRemaining={user?.recoveryCodes.length ?? 0}
+          />
+        </div>
+
+        {/* Sessions */}
+        <div className="bg-white rounded-lg shadow border border-gray-200">
+          <SessionsList
+            sessions={sessions.map((s) => ({
+              ...s,
+              isCurrent: s.id === session.sessionId,
+            }))}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,299 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { AUDIT_ENTITY_LABELS, type AuditChanges, type AuditEntity } from "@/lib/audit";
+
+const PAGE_SIZE = 50;
+
+const ACTION_STYLES: Record<string, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+  restore: "bg-yellow-100 text-yellow-800",
+  purge: "bg-red-200 text-red-900",
+};
+
+type SearchParams = {
+  user?: string;
+  entity?: string;
+  from?: string;
+  to?: string;
+  page?: string;
+};
+
+// Dates from the filter inputs (YYYY-MM-DD); null if they can't be parsed
+function parseDate(value: string): Date | null {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export default async function AuditLogPage({
+  searchParams,
+}: {
+  searchParams: SearchParams;
+}) {
+  const session = await getSession();
+  if (!session || !can(session.role, "users:manage")) {
+    redirect("/admin");
+  }
+
+  const page = Math.max(1, parseInt(searchParams.page || "1", 10) || 1);
+
+  const createdAt: Prisma.DateTimeFilter = {};
+  const invalidDates: string[] = [];
+  if (searchParams.from) {
+    const from = parseDate(searchParams.from);
+    if (from) createdAt.gte = from;
+    else invalidDates.push("From");
+  }
+  if (searchParams.to) {
+    const to = parseDate(searchParams.to);
+    if (to) {
+      // Include the whole "to" day
+      to.setDate(to.getDate() + 1);
+      createdAt.lt = to;
+    } else {
+      invalidDates.push("To");
+    }
+  }
+  const dateError = invalidDates.length > 0 ? `Invalid ${invalidDates.join(" and ")} date` : null;
+
+  const where: Prisma.AuditLogWhereInput = {};
+  if (searchParams.user) where.userId = searchParams.user;
+  if (searchParams.entity) where.entity = searchParams.entity;
+  if (createdAt.gte || createdAt.lt) where.createdAt = createdAt;
+
+  const [entries, total, users] = await Promise.all([
+    dateError
+      ? []
+      : prisma.auditLog.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip: (page - 1) * PAGE_SIZE,
+          take: PAGE_SIZE,
+        }),
+    dateError ? 0 : prisma.auditLog.count({ where }),
+    prisma.adminUser.findMany({
+      select: { id: true, email: true },
+      orderBy: { email: "asc" },
+    }),
+  ]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const pageHref = (p: number) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(searchParams)) {
+      if (value && key !== "page") params.set(key, value);
+    }
+    params.set("page", String(p));
+    return `/admin/audit?${params.toString()}`;
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Every change made in the admin, with who made it and what changed
+        </p>
+      </div>
+
+      {/* Filters */}
+      <form
+        method="get"
+        className="mb-6 bg-white rounded-lg shadow border border-gray-200 p-4 flex flex-wrap items-end gap-4"
+      >
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">User</label>
+          <select
+            name="user"
+            defaultValue={searchParams.user || ""}
+            className="text-sm rounded-md border-gray-300"
+          >
+            <option value="">All users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.email}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Entity</label>
+          <select
+            name="entity"
+            defaultValue={searchParams.entity || ""}
+            className="text-sm rounded-md border-gray-300"
+          >
+            <option value="">All entities</option>
+            {Object.entries(AUDIT_ENTITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            name="from"
+            defaultValue={searchParams.from || ""}
+            className="text-sm rounded-md border-gray-300"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            name="to"
+            defaultValue={searchParams.to || ""}
+            className="text-sm rounded-md border-gray-300"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700"
+        >
+          Filter
+        </button>
+        <Link href="/admin/audit" className="px-2 py-2 text-sm text-gray-600 hover:text-gray-900">
+          Clear
+        </Link>
+      </form>
+
+      {dateError && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {dateError}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+        {entries.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">
+            No changes match these filters
+          </p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  User
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Action
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entity
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Changes
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.map((entry) => {
+                const changes = (entry.changes ?? {}) as AuditChanges;
+                const fields = Object.keys(changes);
+
+                return (
+                  <tr key={entry.id} className="align-top hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {entry.createdAt.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {entry.userEmail}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          ACTION_STYLES[entry.action] || "bg-gray-100 text-gray-800"
+                        }`}
+                      >
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="text-gray-500">
+                        {AUDIT_ENTITY_LABELS[entry.entity as AuditEntity] ?? entry.entity}
+                      </div>
+                      <div className="font-medium text-gray-900">
+                        {entry.entityLabel || entry.entityId}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {fields.length === 0 ? (
+                        <span className="text-gray-400">—</span>
+                      ) : (
+                        <details>
+                          <summary className="cursor-pointer text-blue-600 hover:text-blue-800">
+                            {fields.length} field{fields.length === 1 ? "" : "s"}
+                          </summary>
+                          <table className="mt-2 text-xs">
+                            <tbody>
+                              {fields.map((field) => (
+                                <tr key={field}>
+                                  <td className="pr-3 py-1 font-medium text-gray-700 whitespace-nowrap">
+                                    {field}
+                                  </td>
+                                  {changes[field].before !== undefined && (
+                                    <td className="pr-3 py-1 text-red-700 line-through break-all">
+                                      {formatValue(changes[field].before)}
+                                    </td>
+                                  )}
+                                  {changes[field].after !== undefined && (
+                                    <td className="py-1 text-green-700 break-all">
+                                      {formatValue(changes[field].after)}
+                                    </td>
+                                  )}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </details>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Page {page} of {totalPages} · {total} changes
+          </span>
+          <div className="flex gap-2">
+            {page > 1 && (
+              <Link href={pageHref(page - 1)} className="px-3 py-1.5 rounded-md hover:bg-gray-100">
+                Previous
+              </Link>
+            )}
+            {page < totalPages && (
+              <Link href={pageHref(page + 1)} className="px-3 py-1.5 rounded-md hover:bg-gray-100">
+                Next
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
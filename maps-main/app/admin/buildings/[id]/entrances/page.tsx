@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Plus, Edit2, Trash2, MapPin, DoorOpen, X, Check } from 'lucide-react';
+import { useCan } from '../../../AdminSessionProvider';
 
 interface Floor {
   id: string;
@@ -39,6 +40,7 @@ interface BuildingEntrance {
 export default function BuildingEntrancesPage() {
   const params = useParams();
   const router = useRouter();
+  const canEdit = useCan('buildings:write');
   const buildingId = params.id as string;
 
   const [building, setBuilding] = useState<Building | null>(null);
@@ -213,18 +215,20 @@ export default function BuildingEntrancesPage() {
         </div>
 
         {/* Add New Button */}
-        <div className="mb-6">
-          <button
-            onClick={() => {
-              setShowForm(true);
-              setFormData(prev => ({ ...prev, lat: building?.Place.lat || 0, lng: building?.Place.lng || 0 }));
-            }}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
-          >
-            <Plus className="w-5 h-5" />
-            Add New Entrance
-          </button>
-        </div>
+        {canEdit && (
+          <div className="mb-6">
+            <button
+              onClick={() => {
+                setShowForm(true);
+                setFormData(prev => ({ ...prev, lat: building?.Place.lat || 0, lng: building?.Place.lng || 0 }));
+              }}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+            >
+              <Plus className="w-5 h-5" />
+              Add New Entrance
+            </button>
+          </div>
+        )}
 
         {/* Entrances List */}
         <div className="bg-white rounded-lg shadow">
@@ -277,18 +281,22 @@ export default function BuildingEntrancesPage() {
                   </td>
                   <td className="p-4">
                     <div className="flex justify-end gap-2">
-                      <button
-                        onClick={() => handleEdit(entrance)}
-                        className="p-2 text-blue-600 hover:bg-blue-50 rounded"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(entrance.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {canEdit && (
+                        <>
+                          <button
+                            onClick={() => handleEdit(entrance)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(entrance.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -4,6 +4,7 @@ import { useState, useEffect, useRef } from 'react';
 import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Trash2, MapPin, Store } from 'lucide-react';
+import { useCan } from '../../../../../AdminSessionProvider';
 
 type IndoorPOI = {
   id: string;
@@ -64,6 +65,9 @@ export default function FloorEditorEnhanced() {
   const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
   const [showAddForm, setShowAddForm] = useState(false);
   const [newPoint, setNewPoint] = useState<{ x: number; y: number } | null>(null);
+  const canEditConnections = useCan('buildings:write');
+  const canEditPOIs = useCan('indoorPois:write');
+  const canEditMode = mode === 'connections' ? canEditConnections : canEditPOIs;
 
   useEffect(() => {
     fetchFloor();
@@ -157,7 +161,7 @@ export default function FloorEditorEnhanced() {
   };
 
   const handleSVGClick = (e: React.MouseEvent<SVGSVGElement>) => {
-    if (!svgRef.current) return;
+    if (!svgRef.current || !canEditMode) return;
 
     // For POI mode, detect which SVG element was clicked
     if (mode === 'pois') {
@@ -227,7 +231,7 @@ export default function FloorEditorEnhanced() {
   };
 
   const handleDeletePOI = async (id: string) => {
-    if (!confirm('Delete this POI?')) return;
+    if (!confirm('Move this POI to the trash? You can restore it from Trash.')) return;
     try {
       const res = await fetch(`/api/admin/indoor-pois/${id}`, { method: 'DELETE' });
       if (!res.ok) throw new Error('Failed to delete');
@@ -270,7 +274,9 @@ export default function FloorEditorEnhanced() {
           {floor.Building.name} - {floor.name}
         </h1>
         <p className="text-gray-600 mb-4">
-          {mode === 'connections'
+          {!canEditMode
+            ? 'Your role has read-only access to this layer'
+            : mode === 'connections'
             ? 'Click on the map to add connection points (stairs, elevators)'
             : 'Click on the map to add POIs (rooms, shops, galleries)'}
         </p>
@@ -310,7 +316,7 @@ export default function FloorEditorEnhanced() {
               <svg
                 ref={svgRef}
                 viewBox={`${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}`}
-                className="w-full h-full cursor-crosshair"
+                className={`w-full h-full ${canEditMode ? 'cursor-crosshair' : 'cursor-default'}`}
                 onClick={handleSVGClick}
               >
                 {/* Floor plan */}
@@ -399,15 +405,17 @@ export default function FloorEditorEnhanced() {
                           {point.type === 'elevator' ? 'Elevator' : 'Stairs'}
                         </div>
                       </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeleteConnection(point.id);
-                        }}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {canEditConnections && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeleteConnection(point.id);
+                          }}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -439,15 +447,17 @@ export default function FloorEditorEnhanced() {
                           <div className="text-xs text-gray-600 mt-1">{poi.category}</div>
                         )}
                       </div>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDeletePOI(poi.id);
-                        }}
-                        className="text-red-600 hover:text-red-700"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                      {canEditPOIs && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDeletePOI(poi.id);
+                          }}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
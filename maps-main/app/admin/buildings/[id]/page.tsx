@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Building2, Plus, Edit, Trash2, MapPin } from 'lucide-react';
+import { useCan } from '../../AdminSessionProvider';
 
 type Building = {
   id: string;
@@ -28,6 +29,7 @@ type Building = {
 
 export default function EditBuildingPage() {
   const params = useParams();
+  const canEdit = useCan('buildings:write');
   const router = useRouter();
   const buildingId = params.id as string;
 
@@ -117,13 +119,15 @@ export default function EditBuildingPage() {
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
         <div className="flex items-center justify-between mb-6">
           <h2 className="text-xl font-semibold text-gray-900">Floors</h2>
-          <button
-            onClick={() => setShowAddFloor(true)}
-            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-5 w-5" />
-            Add Floor
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowAddFloor(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-5 w-5" />
+              Add Floor
+            </button>
+          )}
         </div>
 
         {building.floors.length === 0 ? (
@@ -163,13 +167,15 @@ export default function EditBuildingPage() {
                       <MapPin className="h-4 w-4" />
                       Editor
                     </Link>
-                    <button
-                      onClick={() => handleDeleteFloor(floor.id)}
-                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                      title="Delete Floor"
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => handleDeleteFloor(floor.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete Floor"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -233,7 +239,15 @@ function AddFloorModal({
         throw new Error(data.error || 'Failed to upload SVG');
       }
 
-      const { svgPath } = await uploadRes.json();
+      const { svgPath, routing } = await uploadRes.json();
+
+      // Indoor routes follow the plan's Paths layer
+      if (
+        routing?.segments === 0 &&
+        !confirm('This floor plan has no Paths layer, so indoor routes cannot be found on it. Add the floor anyway?')
+      ) {
+        return;
+      }
 
       // Create floor
       const floorRes = await fetch(`/api/admin/buildings/${buildingId}/floors`, {
@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { ArrowLeft, Building2 } from 'lucide-react';
+import { useCan } from '../../AdminSessionProvider';
+import ReadOnlyNotice from '../../ReadOnlyNotice';
 
 type Place = {
   id: string;
@@ -13,6 +15,7 @@ type Place = {
 
 export default function NewBuildingPage() {
   const router = useRouter();
+  const canEdit = useCan('buildings:write');
   const [places, setPlaces] = useState<Place[]>([]);
   const [selectedPlaceId, setSelectedPlaceId] = useState('');
   const [buildingName, setBuildingName] = useState('');
@@ -87,6 +90,10 @@ export default function NewBuildingPage() {
           Create a new building with indoor navigation
         </p>
 
+        {!canEdit && (
+          <ReadOnlyNotice message="Your role cannot create buildings." />
+        )}
+
         {error && (
           <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
             {error}
@@ -144,7 +151,7 @@ export default function NewBuildingPage() {
           <div className="flex gap-3 pt-4">
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || !canEdit}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {loading ? 'Creating...' : 'Create Building'}
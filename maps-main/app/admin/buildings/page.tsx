@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { Building2, Plus, Edit, Trash2, DoorOpen } from 'lucide-react';
+import { useCan } from '../AdminSessionProvider';
 
 type Building = {
   id: string;
@@ -24,6 +25,7 @@ export default function BuildingsPage() {
   const [buildings, setBuildings] = useState<Building[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const canEdit = useCan('buildings:write');
 
   useEffect(() => {
     fetchBuildings();
@@ -73,13 +75,15 @@ export default function BuildingsPage() {
             Manage buildings with indoor navigation and floor maps
           </p>
         </div>
-        <Link
-          href="/admin/buildings/new"
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-5 w-5" />
-          Add Building
-        </Link>
+        {canEdit && (
+          <Link
+            href="/admin/buildings/new"
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-5 w-5" />
+            Add Building
+          </Link>
+        )}
       </div>
 
       {loading && (
@@ -99,13 +103,15 @@ export default function BuildingsPage() {
           <Building2 className="h-16 w-16 text-gray-400 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-gray-900 mb-2">No buildings yet</h3>
           <p className="text-gray-600 mb-4">Get started by adding your first indoor map building</p>
-          <Link
-            href="/admin/buildings/new"
-            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-5 w-5" />
-            Add Building
-          </Link>
+          {canEdit && (
+            <Link
+              href="/admin/buildings/new"
+              className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-5 w-5" />
+              Add Building
+            </Link>
+          )}
         </div>
       )}
 
@@ -155,13 +161,15 @@ export default function BuildingsPage() {
                   >
                     <Edit className="h-5 w-5" />
                   </Link>
-                  <button
-                    onClick={() => handleDelete(building.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                    title="Delete Building"
-                  >
-                    <Trash2 className="h-5 w-5" />
-                  </button>
+                  {canEdit && (
+                    <button
+                      onClick={() => handleDelete(building.id)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete Building"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
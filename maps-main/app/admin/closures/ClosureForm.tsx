@@ -0,0 +1,325 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { RouteClosure } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
+import ReadOnlyNotice from "../ReadOnlyNotice";
+import ClosureMapEditor from "./ClosureMapEditor";
+
+interface FloorOption {
+  id: string;
+  name: string;
+  svgPath: string;
+  buildingName: string;
+}
+
+interface ClosureFormProps {
+  closure?: RouteClosure | null;
+  floors: FloorOption[];
+}
+
+export default function ClosureForm({ closure, floors }: ClosureFormProps) {
+  const router = useRouter();
+  const canEdit = useCan("closures:write");
+  const isEditMode = !!closure;
+
+  const formatDateTime = (date: Date | null | undefined) => {
+    if (!date) return "";
+    const d = new Date(date);
+    const year = d.getFullYear();
+    const month = String(d.getMonth() + 1).padStart(2, "0");
+    const day = String(d.getDate()).padStart(2, "0");
+    const hours = String(d.getHours()).padStart(2, "0");
+    const minutes = String(d.getMinutes()).padStart(2, "0");
+    return `${year}-${month}-${day}T${hours}:${minutes}`;
+  };
+
+  const [formData, setFormData] = useState({
+    reason: closure?.reason || "",
+    description: closure?.description || "",
+    kind: closure?.kind || "closed",
+    floorId: closure?.floorId || "",
+    radius: String(closure?.radius ?? 10),
+    startsAt: formatDateTime(closure?.startsAt || null),
+    endsAt: formatDateTime(closure?.endsAt || null),
+    isLive: closure?.isLive ?? true,
+  });
+  const [points, setPoints] = useState<Array<{ x: number; y: number }>>(
+    (closure?.points as Array<{ x: number; y: number }> | undefined) ?? []
+  );
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const selectedFloor = floors.find((f) => f.id === formData.floorId);
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    const { name, value, type } = e.target;
+    // Points are in the coordinates of the selected map, so switching maps starts over
+    if (name === "floorId") setPoints([]);
+    setFormData((prev) => ({
+      ...prev,
+      [name]:
+        type === "checkbox" ? (e.target as HTMLInputElement).checked : value,
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (points.length === 0) {
+      setError("Draw the closure on the map first");
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const payload = {
+        reason: formData.reason,
+        description: formData.description || null,
+        kind: formData.kind,
+        floorId: formData.floorId || null,
+        points,
+        radius: parseFloat(formData.radius),
+        startsAt: new Date(formData.startsAt).toISOString(),
+        endsAt: new Date(formData.endsAt).toISOString(),
+        isLive: formData.isLive,
+      };
+
+      const url = isEditMode
+        ? `/api/admin/closures/${closure.id}`
+        : "/api/admin/closures";
+      const method = isEditMode ? "PUT" : "POST";
+
+      const res = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to save closure");
+      }
+
+      router.push("/admin/closures");
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!closure) return;
+    if (!confirm("Delete this closure? Routes will stop avoiding it straight away.")) return;
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/admin/closures/${closure.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || "Failed to delete closure");
+      }
+
+      router.push("/admin/closures");
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {!canEdit && <ReadOnlyNotice />}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {/* Reason */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Reason *
+        </label>
+        <input
+          type="text"
+          name="reason"
+          value={formData.reason}
+          onChange={handleChange}
+          required
+          placeholder="Light rail works on George St"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Shown to people whose route detours around the closure
+        </p>
+      </div>
+
+      {/* Description */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Description
+        </label>
+        <textarea
+          name="description"
+          value={formData.description}
+          onChange={handleChange}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Kind */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Type *
+        </label>
+        <select
+          name="kind"
+          value={formData.kind}
+          onChange={handleChange}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="closed">Closed - routes never pass through</option>
+          <option value="restricted">Restricted - routes avoid it when they reasonably can</option>
+        </select>
+      </div>
+
+      {/* Map */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Map *
+        </label>
+        <select
+          name="floorId"
+          value={formData.floorId}
+          onChange={handleChange}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Street map</option>
+          {floors.map((floor) => (
+            <option key={floor.id} value={floor.id}>
+              {floor.buildingName} · {floor.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Drawing */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Closed area *
+        </label>
+        <ClosureMapEditor
+          svgPath={selectedFloor?.svgPath ?? null}
+          points={points}
+          radius={parseFloat(formData.radius) || 0}
+          onChange={setPoints}
+          readOnly={!canEdit}
+        />
+      </div>
+
+      {/* Radius */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Width *
+        </label>
+        <input
+          type="number"
+          name="radius"
+          min="1"
+          step="1"
+          value={formData.radius}
+          onChange={handleChange}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Paths within this distance of the line (in map units, shaded above) are affected
+        </p>
+      </div>
+
+      {/* Start Date/Time */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Starts At *
+        </label>
+        <input
+          type="datetime-local"
+          name="startsAt"
+          value={formData.startsAt}
+          onChange={handleChange}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* End Date/Time */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Ends At *
+        </label>
+        <input
+          type="datetime-local"
+          name="endsAt"
+          value={formData.endsAt}
+          onChange={handleChange}
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      {/* Is Live */}
+      <div className="flex items-center">
+        <input
+          type="checkbox"
+          name="isLive"
+          checked={formData.isLive}
+          onChange={handleChange}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <label className="ml-2 text-sm text-gray-700">
+          Publish (routes avoid it during the time window)
+        </label>
+      </div>
+
+      {/* Buttons */}
+      <div className="flex gap-3">
+        {canEdit && (
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Saving..." : isEditMode ? "Update Closure" : "Create Closure"}
+          </button>
+        )}
+
+        {isEditMode && canEdit && (
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSubmitting}
+            className="px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Undo2, Eraser } from "lucide-react";
+import type { PathGraph } from "@/types";
+import { VIEWBOX, OUTDOOR_MAP_SVG } from "@/lib/mapConfig";
+import { buildPathNetwork } from "@/lib/graphLoader";
+
+type Point = { x: number; y: number };
+type ViewBox = { minX: number; minY: number; width: number; height: number };
+
+interface ClosureMapEditorProps {
+  svgPath: string | null; // Floor plan SVG, or null for the outdoor street map
+  points: Point[];
+  radius: number;
+  onChange: (points: Point[]) => void;
+  readOnly?: boolean;
+}
+
+/**
+ * Click on the map to draw a closure line (one click marks a single obstacle)
+ */
+export default function ClosureMapEditor({ svgPath, points, radius, onChange, readOnly = false }: ClosureMapEditorProps) {
+  const imageUrl = svgPath ?? OUTDOOR_MAP_SVG;
+  const [viewBox, setViewBox] = useState<ViewBox>(VIEWBOX);
+  const [graph, setGraph] = useState<PathGraph | null>(null);
+
+  // Floor plans have their own viewBox; read it from the file
+  useEffect(() => {
+    if (!svgPath) {
+      setViewBox(VIEWBOX);
+      return;
+    }
+    fetch(svgPath)
+      .then((r) => r.text())
+      .then((txt) => {
+        const m = txt.match(/viewBox\s*=\s*"([^"]+)"/i);
+        const parts = m ? m[1].trim().split(/\s+/).map(Number) : [];
+        if (parts.length === 4) {
+          const [minX, minY, width, height] = parts;
+          setViewBox({ minX, minY, width, height });
+        }
+      })
+      .catch((error) => console.error("Error loading floor plan:", error));
+  }, [svgPath]);
+
+  // Show the walking network on the street map so closures can be lined up with it
+  useEffect(() => {
+    if (svgPath || graph) return;
+    buildPathNetwork()
+      .then(setGraph)
+      .catch((error) => console.error("Error loading navigation graph:", error));
+  }, [svgPath, graph]);
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (readOnly) return;
+    const svg = e.currentTarget;
+    const ctm = svg.getScreenCTM();
+    if (!ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const { x, y } = pt.matrixTransform(ctm.inverse());
+    onChange([...points, { x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 }]);
+  };
+
+  const polyline = points.map((p) => `${p.x},${p.y}`).join(" ");
+
+  return (
+    <div className="space-y-2">
+      <div className="border rounded-lg bg-gray-50 overflow-hidden">
+        <svg
+          viewBox={`${viewBox.minX} ${viewBox.minY} ${viewBox.width} ${viewBox.height}`}
+          onClick={handleClick}
+          className={`w-full h-[600px] ${readOnly ? "" : "cursor-crosshair"}`}
+        >
+          <image href={imageUrl} x={viewBox.minX} y={viewBox.minY} width={viewBox.width} height={viewBox.height} />
+
+          {!svgPath && graph && (
+            <g stroke="#2563eb" strokeWidth={1} opacity={0.35}>
+              {Object.entries(graph.adjacency).flatMap(([fromId, edges]) =>
+                edges
+                  .filter((edge) => fromId < edge.to)
+                  .map((edge) => {
+                    const a = graph.nodesById[fromId];
+                    const b = graph.nodesById[edge.to];
+                    if (!a || !b) return null;
+                    return <line key={`${fromId}-${edge.to}`} x1={a.x} y1={a.y} x2={b.x} y2={b.y} />;
+                  })
+              )}
+            </g>
+          )}
+
+          {/* Affected area, then the drawn line and its vertices */}
+          {points.length === 1 && (
+            <circle cx={points[0].x} cy={points[0].y} r={radius} fill="#dc2626" opacity={0.25} />
+          )}
+          {points.length > 1 && (
+            <>
+              <polyline
+                points={polyline}
+                fill="none"
+                stroke="#dc2626"
+                strokeWidth={radius * 2}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                opacity={0.25}
+              />
+              <polyline points={polyline} fill="none" stroke="#dc2626" strokeWidth={2} />
+            </>
+          )}
+          {points.map((p, i) => (
+            <circle key={i} cx={p.x} cy={p.y} r={3} fill="#fff" stroke="#dc2626" strokeWidth={1.5} />
+          ))}
+        </svg>
+      </div>
+
+      {!readOnly && (
+        <div className="flex items-center gap-3 text-sm">
+          <span className="text-gray-500 flex-1">
+            {points.length === 0
+              ? "Click along the blocked street or corridor. A single click marks an obstacle."
+              : `${points.length} point${points.length === 1 ? "" : "s"} drawn`}
+          </span>
+          <button
+            type="button"
+            onClick={() => onChange(points.slice(0, -1))}
+            disabled={points.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange([])}
+            disabled={points.length === 0}
+            className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Eraser className="h-4 w-4" />
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Edit, Eye, Search } from "lucide-react";
+import { Building, Floor, RouteClosure } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
+import { CLOSURE_KIND_LABELS, type ClosureKind } from "@/lib/routeClosures";
+
+type ClosureWithFloor = RouteClosure & {
+  Floor: (Pick<Floor, "name"> & { Building: Pick<Building, "name"> }) | null;
+};
+
+export default function ClosuresTable({ closures }: { closures: ClosureWithFloor[] }) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const canEdit = useCan("closures:write");
+  const now = new Date();
+
+  const filteredClosures = closures.filter((closure) =>
+    closure.reason.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const statusBadge = (closure: ClosureWithFloor) => {
+    if (!closure.isLive) {
+      return { label: "Hidden", className: "bg-gray-100 text-gray-800" };
+    }
+    if (new Date(closure.endsAt) < now) {
+      return { label: "Ended", className: "bg-gray-100 text-gray-500" };
+    }
+    if (new Date(closure.startsAt) > now) {
+      return { label: "Scheduled", className: "bg-blue-100 text-blue-800" };
+    }
+    return { label: "Active", className: "bg-amber-100 text-amber-800" };
+  };
+
+  return (
+    <div>
+      {/* Search Box */}
+      <div className="p-4 border-b">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search closures by reason..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {/* Table */}
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50 border-b">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Reason
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Map
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Type
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Starts At
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Ends At
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {filteredClosures.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                  {searchQuery
+                    ? "No closures found matching your search."
+                    : "No closures yet. Add one when a street or corridor is blocked."}
+                </td>
+              </tr>
+            ) : (
+              filteredClosures.map((closure) => {
+                const status = statusBadge(closure);
+                return (
+                  <tr key={closure.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{closure.reason}</div>
+                      {closure.description && (
+                        <div className="text-xs text-gray-500 mt-1 line-clamp-1">
+                          {closure.description}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {closure.Floor
+                        ? `${closure.Floor.Building.name} · ${closure.Floor.name}`
+                        : "Street map"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {CLOSURE_KIND_LABELS[closure.kind as ClosureKind] ?? closure.kind}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDateTime(closure.startsAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatDateTime(closure.endsAt)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <Link
+                        href={`/admin/closures/${closure.id}`}
+                        className="text-blue-600 hover:text-blue-900 inline-flex items-center gap-1"
+                      >
+                        {canEdit ? (
+                          <Edit className="h-4 w-4" />
+                        ) : (
+                          <Eye className="h-4 w-4" />
+                        )}
+                        {canEdit ? "Edit" : "View"}
+                      </Link>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Footer */}
+      <div className="px-6 py-4 border-t bg-gray-50 text-sm text-gray-500">
+        Showing {filteredClosures.length} of {closures.length} closures
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { prisma } from "@/lib/prisma";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import ClosureForm from "../ClosureForm";
+
+export default async function EditClosurePage({
+  params,
+}: {
+  params: { id: string };
+}) {
+  const closure = await prisma.routeClosure.findUnique({
+    where: { id: params.id },
+  });
+
+  if (!closure) {
+    notFound();
+  }
+
+  const floors = await prisma.floor.findMany({
+    select: {
+      id: true,
+      name: true,
+      svgPath: true,
+      Building: { select: { name: true } },
+    },
+    orderBy: [{ Building: { name: "asc" } }, { floorNumber: "asc" }],
+  });
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href="/admin/closures"
+          className="text-blue-600 hover:text-blue-800 text-sm"
+        >
+          &larr; Back to Closures
+        </Link>
+      </div>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Edit Closure</h1>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200 p-6 max-w-3xl">
+        <ClosureForm
+          closure={closure}
+          floors={floors.map((f) => ({ ...f, buildingName: f.Building.name }))}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { prisma } from "@/lib/prisma";
+import Link from "next/link";
+import ClosureForm from "../ClosureForm";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+
+export default async function NewClosurePage() {
+  const session = await getSession();
+  if (!can(session?.role, "closures:write")) {
+    redirect("/admin/closures");
+  }
+
+  const floors = await prisma.floor.findMany({
+    select: {
+      id: true,
+      name: true,
+      svgPath: true,
+      Building: { select: { name: true } },
+    },
+    orderBy: [{ Building: { name: "asc" } }, { floorNumber: "asc" }],
+  });
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Link
+          href="/admin/closures"
+          className="text-blue-600 hover:text-blue-800 text-sm"
+        >
+          &larr; Back to Closures
+        </Link>
+      </div>
+
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Add New Closure</h1>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200 p-6 max-w-3xl">
+        <ClosureForm floors={floors.map((f) => ({ ...f, buildingName: f.Building.name }))} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import Link from "next/link";
+import ClosuresTable from "./ClosuresTable";
+
+export default async function ClosuresPage() {
+  const session = await getSession();
+  const canEdit = can(session?.role, "closures:write");
+
+  const closures = await prisma.routeClosure.findMany({
+    include: {
+      Floor: {
+        select: {
+          name: true,
+          Building: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { startsAt: "desc" },
+  });
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Closures</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Street works, markets, parades and other obstacles that routes should avoid
+          </p>
+        </div>
+        {canEdit && (
+          <Link
+            href="/admin/closures/new"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            Add Closure
+          </Link>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <ClosuresTable closures={closures} />
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Deal, Place } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
+import ReadOnlyNotice from "../ReadOnlyNotice";
 
 interface DealFormProps {
   deal?: Deal;
@@ -12,6 +14,7 @@ interface DealFormProps {
 
 export default function DealForm({ deal, places, mode }: DealFormProps) {
   const router = useRouter();
+  const canEdit = useCan("deals:write");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
 
@@ -103,7 +106,7 @@ export default function DealForm({ deal, places, mode }: DealFormProps) {
   async function handleDelete() {
     if (!deal?.id) return;
 
-    if (!confirm("Are you sure you want to delete this deal?")) {
+    if (!confirm("Move this deal to the trash? You can restore it from Trash.")) {
       return;
     }
 
@@ -130,6 +133,8 @@ export default function DealForm({ deal, places, mode }: DealFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {!canEdit && <ReadOnlyNotice />}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
           {error}
@@ -254,7 +259,7 @@ export default function DealForm({ deal, places, mode }: DealFormProps) {
       {/* Actions */}
       <div className="flex justify-between pt-6 border-t">
         <div>
-          {mode === "edit" && (
+          {mode === "edit" && canEdit && (
             <button
               type="button"
               onClick={handleDelete}
@@ -273,13 +278,15 @@ export default function DealForm({ deal, places, mode }: DealFormProps) {
           >
             Cancel
           </button>
-          <button
-            type="submit"
-            disabled={loading}
-            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-          >
-            {loading ? "Saving..." : mode === "create" ? "Create Deal" : "Update Deal"}
-          </button>
+          {canEdit && (
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {loading ? "Saving..." : mode === "create" ? "Create Deal" : "Update Deal"}
+            </button>
+          )}
         </div>
       </div>
     </form>
@@ -2,8 +2,9 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { Edit, Search } from "lucide-react";
+import { Edit, Eye, Search } from "lucide-react";
 import { Deal, Place } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
 
 type DealWithPlace = Deal & {
   Place: Pick<Place, "name">;
@@ -11,6 +12,7 @@ type DealWithPlace = Deal & {
 
 export default function DealsTable({ deals }: { deals: DealWithPlace[] }) {
   const [searchQuery, setSearchQuery] = useState("");
+  const canEdit = useCan("deals:write");
 
   const filteredDeals = deals.filter(
     (deal) =>
@@ -114,8 +116,12 @@ export default function DealsTable({ deals }: { deals: DealWithPlace[] }) {
                       href={`/admin/deals/${deal.id}`}
                       className="text-blue-600 hover:text-blue-900 inline-flex items-center gap-1"
                     >
-                      <Edit className="h-4 w-4" />
-                      Edit
+                      {canEdit ? (
+                        <Edit className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                      {canEdit ? "Edit" : "View"}
                     </Link>
                   </td>
                 </tr>
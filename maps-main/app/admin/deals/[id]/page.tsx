@@ -14,6 +14,7 @@ export default async function EditDealPage({
       where: { id: params.id },
     }),
     prisma.place.findMany({
+      where: { deletedAt: null },
       select: {
         id: true,
         name: true,
@@ -24,7 +25,7 @@ export default async function EditDealPage({
     }),
   ]);
 
-  if (!deal) {
+  if (!deal || deal.deletedAt) {
     notFound();
   }
 
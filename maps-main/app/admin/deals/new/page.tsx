@@ -2,9 +2,18 @@ import { prisma } from "@/lib/prisma";
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import DealForm from "../DealForm";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
 
 export default async function NewDealPage() {
+  const session = await getSession();
+  if (!can(session?.role, "deals:write")) {
+    redirect("/admin/deals");
+  }
+
   const places = await prisma.place.findMany({
+    where: { deletedAt: null },
     select: {
       id: true,
       name: true,
@@ -3,6 +3,8 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Place, Event } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
+import ReadOnlyNotice from "../ReadOnlyNotice";
 
 type EventWithPlace = Event & {
   place?: Pick<Place, "name"> | null;
@@ -15,6 +17,7 @@ interface EventFormProps {
 
 export default function EventForm({ event, places }: EventFormProps) {
   const router = useRouter();
+  const canEdit = useCan("events:write");
   const isEditMode = !!event;
 
   const formatDateTime = (date: Date | null | undefined) => {
@@ -103,7 +106,7 @@ export default function EventForm({ event, places }: EventFormProps) {
 
   const handleDelete = async () => {
     if (!event) return;
-    if (!confirm("Are you sure you want to delete this event?")) return;
+    if (!confirm("Move this event to the trash? You can restore it from Trash.")) return;
 
     setIsSubmitting(true);
     try {
@@ -126,6 +129,8 @@ export default function EventForm({ event, places }: EventFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {!canEdit && <ReadOnlyNotice />}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
           {error}
@@ -266,15 +271,17 @@ export default function EventForm({ event, places }: EventFormProps) {
 
       {/* Buttons */}
       <div className="flex gap-3">
-        <button
-          type="submit"
-          disabled={isSubmitting}
-          className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isSubmitting ? "Saving..." : isEditMode ? "Update Event" : "Create Event"}
-        </button>
+        {canEdit && (
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? "Saving..." : isEditMode ? "Update Event" : "Create Event"}
+          </button>
+        )}
 
-        {isEditMode && (
+        {isEditMode && canEdit && (
           <button
             type="button"
             onClick={handleDelete}
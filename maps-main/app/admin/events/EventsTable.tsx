@@ -2,8 +2,9 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { Edit, Search } from "lucide-react";
+import { Edit, Eye, Search } from "lucide-react";
 import { Event, Place } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
 
 type EventWithPlace = Event & {
   Place: Pick<Place, "name"> | null;
@@ -11,6 +12,7 @@ type EventWithPlace = Event & {
 
 export default function EventsTable({ events }: { events: EventWithPlace[] }) {
   const [searchQuery, setSearchQuery] = useState("");
+  const canEdit = useCan("events:write");
 
   const filteredEvents = events.filter((event) => {
     const titleMatch = event.title
@@ -143,8 +145,12 @@ export default function EventsTable({ events }: { events: EventWithPlace[] }) {
                       href={`/admin/events/${event.id}`}
                       className="text-blue-600 hover:text-blue-900 inline-flex items-center gap-1"
                     >
-                      <Edit className="h-4 w-4" />
-                      Edit
+                      {canEdit ? (
+                        <Edit className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                      {canEdit ? "Edit" : "View"}
                     </Link>
                   </td>
                 </tr>
@@ -17,11 +17,12 @@ export default async function EditEventPage({
     },
   });
 
-  if (!event) {
+  if (!event || event.deletedAt) {
     notFound();
   }
 
   const places = await prisma.place.findMany({
+    where: { deletedAt: null },
     select: { id: true, name: true },
     orderBy: { name: "asc" },
   });
@@ -1,9 +1,18 @@
 import { prisma } from "@/lib/prisma";
 import Link from "next/link";
 import EventForm from "../EventForm";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
 
 export default async function NewEventPage() {
+  const session = await getSession();
+  if (!can(session?.role, "events:write")) {
+    redirect("/admin/events");
+  }
+
   const places = await prisma.place.findMany({
+    where: { deletedAt: null },
     select: { id: true, name: true },
     orderBy: { name: "asc" },
   });
@@ -1,9 +1,15 @@
 import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
 import Link from "next/link";
 import EventsTable from "./EventsTable";
 
 export default async function EventsPage() {
+  const session = await getSession();
+  const canEdit = can(session?.role, "events:write");
+
   const events = await prisma.event.findMany({
+    where: { deletedAt: null },
     include: {
       Place: {
         select: {
@@ -18,12 +24,14 @@ export default async function EventsPage() {
     <div>
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Events</h1>
-        <Link
-          href="/admin/events/new"
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
-        >
-          Add Event
-        </Link>
+        {canEdit && (
+          <Link
+            href="/admin/events/new"
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+          >
+            Add Event
+          </Link>
+        )}
       </div>
 
       <div className="bg-white rounded-lg shadow border border-gray-200">
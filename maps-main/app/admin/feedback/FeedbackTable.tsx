@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { Flag, TrendingUp, Star, Edit2, Check, X, ChevronDown } from "lucide-react";
 import { useRouter } from "next/navigation";
+import { useCan } from "../AdminSessionProvider";
 
 type Feedback = {
   id: string;
@@ -35,6 +36,7 @@ type Props = {
 
 export default function FeedbackTable({ feedbacks }: Props) {
   const router = useRouter();
+  const canEdit = useCan("feedback:write");
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
   const [editingNotes, setEditingNotes] = useState<string | null>(null);
   const [notesInput, setNotesInput] = useState("");
@@ -271,6 +273,7 @@ export default function FeedbackTable({ feedbacks }: Props) {
                       onChange={(e) =>
                         handleAction(feedback.id, "updateStatus", e.target.value)
                       }
+                      disabled={!canEdit}
                       className={`text-xs font-semibold rounded-full px-3 py-1 border-0 ${getStatusColor(
                         feedback.status
                       )}`}
@@ -294,7 +297,8 @@ export default function FeedbackTable({ feedbacks }: Props) {
                             !feedback.isFlagged
                           )
                         }
-                        className={`p-1.5 rounded hover:bg-gray-100 ${
+                        disabled={!canEdit}
+                        className={`p-1.5 rounded hover:bg-gray-100 disabled:cursor-not-allowed disabled:hover:bg-transparent ${
                           feedback.isFlagged
                             ? "text-red-600"
                             : "text-gray-400"
@@ -313,7 +317,8 @@ export default function FeedbackTable({ feedbacks }: Props) {
                             !feedback.isEscalated
                           )
                         }
-                        className={`p-1.5 rounded hover:bg-gray-100 ${
+                        disabled={!canEdit}
+                        className={`p-1.5 rounded hover:bg-gray-100 disabled:cursor-not-allowed disabled:hover:bg-transparent ${
                           feedback.isEscalated
                             ? "text-purple-600"
                             : "text-gray-400"
@@ -349,7 +354,7 @@ export default function FeedbackTable({ feedbacks }: Props) {
                             <div className="text-xs font-medium text-gray-500">
                               Admin Notes
                             </div>
-                            {editingNotes !== feedback.id && (
+                            {canEdit && editingNotes !== feedback.id && (
                               <button
                                 onClick={() => {
                                   setEditingNotes(feedback.id);
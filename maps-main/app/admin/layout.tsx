@@ -1,22 +1,41 @@
 import Link from "next/link";
-import { LayoutDashboard, MapPin, Tag, Calendar, User, Settings, MessageSquare, Building2 } from "lucide-react";
+import { LayoutDashboard, MapPin, Tag, Calendar, User, Users, Settings, MessageSquare, Building2, ShieldAlert, History, Trash2, Construction } from "lucide-react";
+import { getSession } from "@/lib/auth";
+import { can, normalizeRole, ROLE_LABELS, type Permission } from "@/lib/permissions";
+import { AdminSessionProvider } from "./AdminSessionProvider";
 
-export default function AdminLayout({
+export default async function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const navigation = [
+  const session = await getSession();
+
+  const navigation: {
+    name: string;
+    href: string;
+    icon: typeof LayoutDashboard;
+    permission?: Permission;
+  }[] = [
     { name: "Dashboard", href: "/admin", icon: LayoutDashboard },
     { name: "Places", href: "/admin/places", icon: MapPin },
     { name: "Indoor Maps", href: "/admin/buildings", icon: Building2 },
     { name: "Deals", href: "/admin/deals", icon: Tag },
     { name: "Events", href: "/admin/events", icon: Calendar },
+    { name: "Closures", href: "/admin/closures", icon: Construction },
     { name: "Feedback", href: "/admin/feedback", icon: MessageSquare },
-    { name: "Map Settings", href: "/admin/map-settings", icon: Settings },
+    { name: "Trash", href: "/admin/trash", icon: Trash2 },
+    { name: "Map Settings", href: "/admin/map-settings", icon: Settings, permission: "settings:write" },
+    { name: "Users", href: "/admin/users", icon: Users, permission: "users:manage" },
+    { name: "Audit Log", href: "/admin/audit", icon: History, permission: "users:manage" },
+    { name: "Sign-in Log", href: "/admin/login-attempts", icon: ShieldAlert, permission: "users:manage" },
     { name: "Account", href: "/admin/account", icon: User },
   ];
 
+  const visibleNavigation = navigation.filter(
+    (item) => !item.permission || can(session?.role, item.permission)
+  );
+
   return (
     <div className="flex h-screen bg-gray-100">
       {/* Sidebar */}
@@ -25,7 +44,7 @@ export default function AdminLayout({
           <h1 className="text-xl font-bold text-gray-900">Engage Admin</h1>
         </div>
         <nav className="mt-6 px-3">
-          {navigation.map((item) => (
+          {visibleNavigation.map((item) => (
             <Link
               key={item.name}
               href={item.href}
@@ -44,6 +63,14 @@ export default function AdminLayout({
         <header className="flex h-16 items-center justify-between border-b bg-white px-6 shadow-sm">
           <h2 className="text-lg font-semibold text-gray-900">Admin Dashboard</h2>
           <div className="flex items-center gap-4">
+            {session && (
+              <div className="text-right">
+                <p className="text-sm font-medium text-gray-900">{session.email}</p>
+                <p className="text-xs text-gray-500">
+                  {ROLE_LABELS[normalizeRole(session.role)]}
+                </p>
+              </div>
+            )}
             <div className="h-8 w-8 rounded-full bg-gray-300 flex items-center justify-center">
               <User className="h-5 w-5 text-gray-600" />
             </div>
@@ -52,7 +79,11 @@ export default function AdminLayout({
 
         {/* Page Content */}
         <main className="flex-1 overflow-y-auto p-6">
-          {children}
+          <AdminSessionProvider
+            session={session ? { email: session.email, role: session.role } : null}
+          >
+            {children}
+          </AdminSessionProvider>
         </main>
       </div>
     </div>
@@ -0,0 +1,152 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+
+const PAGE_SIZE = 200;
+
+export default async function LoginAttemptsPage({
+  searchParams,
+}: {
+  searchParams: { show?: string };
+}) {
+  const session = await getSession();
+  if (!session || !can(session.role, "users:manage")) {
+    redirect("/admin");
+  }
+
+  const showAll = searchParams.show === "all";
+  const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  const [attempts, failedLast24h, lockedUsers] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where: showAll ? {} : { success: false },
+      orderBy: { createdAt: "desc" },
+      take: PAGE_SIZE,
+    }),
+    prisma.loginAttempt.count({
+      where: { success: false, createdAt: { gte: since } },
+    }),
+    prisma.adminUser.findMany({
+      where: { lockedUntil: { gt: new Date() } },
+      select: { id: true, email: true, lockedUntil: true },
+    }),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-6 flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Sign-in Log</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            {failedLast24h} failed sign-in attempt{failedLast24h === 1 ? "" : "s"} in the last 24 hours
+          </p>
+        </div>
+        <div className="flex gap-2 text-sm">
+          <Link
+            href="/admin/login-attempts"
+            className={`px-3 py-1.5 rounded-md ${
+              showAll ? "text-gray-600 hover:bg-gray-100" : "bg-blue-600 text-white"
+            }`}
+          >
+            Failed
+          </Link>
+          <Link
+            href="/admin/login-attempts?show=all"
+            className={`px-3 py-1.5 rounded-md ${
+              showAll ? "bg-blue-600 text-white" : "text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            All
+          </Link>
+        </div>
+      </div>
+
+      {lockedUsers.length > 0 && (
+        <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          <p className="font-medium">Locked accounts</p>
+          <ul className="mt-1 text-sm">
+            {lockedUsers.map((user) => (
+              <li key={user.id}>
+                {user.email} until {user.lockedUntil!.toLocaleString()}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-sm">
+            Owners can unlock accounts early from the{" "}
+            <Link href="/admin/users" className="underline">
+              Users
+            </Link>{" "}
+            page.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow border border-gray-200 overflow-x-auto">
+        {attempts.length === 0 ? (
+          <p className="px-6 py-8 text-center text-sm text-gray-500">
+            No {showAll ? "" : "failed "}sign-in attempts recorded
+          </p>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Time
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Email
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  IP Address
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Device
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Result
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {attempts.map((attempt) => (
+                <tr key={attempt.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {attempt.createdAt.toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {attempt.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {attempt.ipAddress || "Unknown"}
+                  </td>
+                  <td
+                    className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate"
+                    title={attempt.userAgent || undefined}
+                  >
+                    {attempt.userAgent || "Unknown"}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    {attempt.success ? (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                        Success
+                      </span>
+                    ) : (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
+                        Failed
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Showing the latest {PAGE_SIZE} entries. Attempts are kept for 30 days.
+      </p>
+    </div>
+  );
+}
@@ -1,16 +1,32 @@
 "use client";
 
 import { useState } from "react";
+import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { LogIn } from "lucide-react";
+import RecoveryCodesList from "../RecoveryCodesList";
+
+type TwoFactorChallenge = {
+  challengeToken: string;
+  // Present when the 2FA policy requires this user to enrol before signing in
+  setup: { secret: string; qrCodeDataUrl: string } | null;
+};
 
 export default function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
   const router = useRouter();
 
+  function goToDashboard() {
+    router.push("/admin");
+    router.refresh();
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError("");
@@ -20,19 +36,38 @@ export default function LoginPage() {
       const res = await fetch("/api/admin/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify(
+          challenge
+            ? { challengeToken: challenge.challengeToken, code }
+            : { email, password }
+        ),
       });
 
       const data = await res.json();
 
       if (!res.ok) {
         setError(data.error || "Login failed");
+        if (data.restart) {
+          setChallenge(null);
+          setCode("");
+        }
+        return;
+      }
+
+      // Password accepted - ask for the authenticator code
+      if (data.twoFactorRequired) {
+        setChallenge({ challengeToken: data.challengeToken, setup: data.setup });
+        return;
+      }
+
+      // Newly enrolled users must see their recovery codes before continuing
+      if (data.recoveryCodes) {
+        setRecoveryCodes(data.recoveryCodes);
         return;
       }
 
       // Redirect to admin dashboard
-      router.push("/admin");
-      router.refresh();
+      goToDashboard();
     } catch (err) {
       setError("An error occurred. Please try again.");
     } finally {
@@ -51,63 +86,141 @@ export default function LoginPage() {
           </div>
 
           <h1 className="text-2xl font-bold text-center text-gray-900 mb-2">
-            Admin Login
+            {challenge ? "Two-Factor Authentication" : "Admin Login"}
           </h1>
           <p className="text-center text-gray-600 mb-6">
-            Sign in to access the admin dashboard
+            {recoveryCodes
+              ? "Two-factor authentication is now enabled"
+              : challenge?.setup
+                ? "Two-factor authentication is required. Scan the QR code with an authenticator app to continue."
+                : challenge
+                  ? "Enter the code from your authenticator app, or a recovery code"
+                  : "Sign in to access the admin dashboard"}
           </p>
 
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-                {error}
-              </div>
-            )}
-
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700 mb-1"
+          {recoveryCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <button
+                onClick={goToDashboard}
+                className="w-full bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors font-medium"
               >
-                Email
-              </label>
-              <input
-                type="email"
-                id="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="admin@example.com"
-                required
-              />
+                Continue to Dashboard
+              </button>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  {error}
+                </div>
+              )}
+
+              {challenge ? (
+                <>
+                  {challenge.setup && (
+                    <div className="flex flex-col items-center gap-2">
+                      <Image
+                        src={challenge.setup.qrCodeDataUrl}
+                        alt="Two-factor QR code"
+                        width={192}
+                        height={192}
+                        unoptimized
+                        className="h-48 w-48 border border-gray-200 rounded"
+                      />
+                      <p className="text-xs text-gray-500 text-center">
+                        Setup key:{" "}
+                        <span className="font-mono text-gray-900 break-all">
+                          {challenge.setup.secret}
+                        </span>
+                      </p>
+                    </div>
+                  )}
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-1"
+                  <div>
+                    <label
+                      htmlFor="code"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Authentication Code
+                    </label>
+                    <input
+                      type="text"
+                      id="code"
+                      inputMode={challenge.setup ? "numeric" : "text"}
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="123456"
+                      autoFocus
+                      required
+                    />
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div>
+                    <label
+                      htmlFor="email"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Email
+                    </label>
+                    <input
+                      type="email"
+                      id="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="admin@example.com"
+                      required
+                    />
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="password"
+                      className="block text-sm font-medium text-gray-700 mb-1"
+                    >
+                      Password
+                    </label>
+                    <input
+                      type="password"
+                      id="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="••••••••"
+                      required
+                    />
+                  </div>
+                </>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
               >
-                Password
-              </label>
-              <input
-                type="password"
-                id="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                placeholder="••••••••"
-                required
-              />
-            </div>
+                {loading ? "Signing in..." : challenge ? "Verify" : "Sign In"}
+              </button>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full bg-blue-500 text-white py-2 px-4 rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed font-medium"
-            >
-              {loading ? "Signing in..." : "Sign In"}
-            </button>
-          </form>
+              {challenge && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setChallenge(null);
+                    setCode("");
+                    setError("");
+                  }}
+                  className="w-full text-sm text-gray-600 hover:text-gray-900"
+                >
+                  Back to sign in
+                </button>
+              )}
+            </form>
+          )}
 
           <p className="mt-6 text-xs text-center text-gray-500">
             Development credentials:<br />
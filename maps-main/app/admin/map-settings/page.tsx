@@ -3,8 +3,11 @@
 import { useState, useEffect } from "react";
 import { Settings, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 import type { ZoomConfig } from "@/types";
+import { useCan } from "../AdminSessionProvider";
+import ReadOnlyNotice from "../ReadOnlyNotice";
 
 export default function MapSettingsPage() {
+  const canEdit = useCan("settings:write");
   const [config, setConfig] = useState<ZoomConfig>({
     initial: 2.5,
     placeStart: 2.8,
@@ -112,6 +115,8 @@ export default function MapSettingsPage() {
           </p>
         </div>
 
+        {!canEdit && <ReadOnlyNotice />}
+
         {/* Message Banner */}
         {message && (
           <div
@@ -327,7 +332,7 @@ export default function MapSettingsPage() {
         <div className="flex items-center gap-4 mt-10 pt-6 border-t">
           <button
             onClick={handleSave}
-            disabled={saving}
+            disabled={saving || !canEdit}
             className="px-6 py-2.5 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed flex items-center gap-2 transition-colors"
           >
             {saving ? (
@@ -342,7 +347,7 @@ export default function MapSettingsPage() {
 
           <button
             onClick={handleReset}
-            disabled={saving}
+            disabled={saving || !canEdit}
             className="px-6 py-2.5 bg-gray-200 text-gray-800 font-medium rounded-lg hover:bg-gray-300 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
           >
             Reset to Defaults
@@ -5,16 +5,18 @@ import Link from "next/link";
 export default async function AdminDashboard() {
   // Fetch summary stats
   const [totalPlaces, livePlaces, liveDeals, upcomingEvents, pendingFeedback, totalFeedback] = await Promise.all([
-    prisma.place.count(),
-    prisma.place.count({ where: { isLive: true } }),
+    prisma.place.count({ where: { deletedAt: null } }),
+    prisma.place.count({ where: { isLive: true, deletedAt: null } }),
     prisma.deal.count({
       where: {
         isLive: true,
+        deletedAt: null,
         endsAt: { gte: new Date() },
       },
     }),
     prisma.event.count({
       where: {
+        deletedAt: null,
         startsAt: { gte: new Date() },
       },
     }),
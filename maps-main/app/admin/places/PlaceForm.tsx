@@ -4,6 +4,8 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Place } from "@prisma/client";
 import { PLACE_CATEGORIES } from "@/lib/categories";
+import { useCan } from "../AdminSessionProvider";
+import ReadOnlyNotice from "../ReadOnlyNotice";
 
 const PRICE_RANGES = ["$", "$$", "$$$", "$$$$"];
 
@@ -14,6 +16,7 @@ interface PlaceFormProps {
 
 export default function PlaceForm({ place, mode }: PlaceFormProps) {
   const router = useRouter();
+  const canEdit = useCan("places:write");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [uploading, setUploading] = useState(false);
@@ -139,8 +142,42 @@ export default function PlaceForm({ place, mode }: PlaceFormProps) {
     }
   }
 
+  async function handleDelete() {
+    if (!place?.id) return;
+
+    if (
+      !confirm(
+        "Move this place to the trash? It will disappear from the map, along with its deals and indoor map, until it is restored."
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+
+    try {
+      const res = await fetch(`/api/admin/places/${place.id}`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to delete place");
+      }
+
+      router.push("/admin/places");
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+      setLoading(false);
+    }
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
+      {!canEdit && <ReadOnlyNotice />}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
           {error}
@@ -403,21 +440,37 @@ export default function PlaceForm({ place, mode }: PlaceFormProps) {
       </div>
 
       {/* Actions */}
-      <div className="flex justify-end gap-4 pt-6 border-t">
-        <button
-          type="button"
-          onClick={() => router.back()}
-          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
-        >
-          Cancel
-        </button>
-        <button
-          type="submit"
-          disabled={loading}
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-        >
-          {loading ? "Saving..." : mode === "create" ? "Create Place" : "Update Place"}
-        </button>
+      <div className="flex justify-between pt-6 border-t">
+        <div>
+          {mode === "edit" && canEdit && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={loading}
+              className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              Delete Place
+            </button>
+          )}
+        </div>
+        <div className="flex gap-4">
+          <button
+            type="button"
+            onClick={() => router.back()}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          {canEdit && (
+            <button
+              type="submit"
+              disabled={loading}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              {loading ? "Saving..." : mode === "create" ? "Create Place" : "Update Place"}
+            </button>
+          )}
+        </div>
       </div>
     </form>
   );
@@ -2,11 +2,13 @@
 
 import { useState } from "react";
 import Link from "next/link";
-import { Edit, Search } from "lucide-react";
+import { Edit, Eye, Search } from "lucide-react";
 import { Place } from "@prisma/client";
+import { useCan } from "../AdminSessionProvider";
 
 export default function PlacesTable({ places }: { places: Place[] }) {
   const [searchQuery, setSearchQuery] = useState("");
+  const canEdit = useCan("places:write");
 
   const filteredPlaces = places.filter((place) =>
     place.name.toLowerCase().includes(searchQuery.toLowerCase())
@@ -97,8 +99,12 @@ export default function PlacesTable({ places }: { places: Place[] }) {
                       href={`/admin/places/${place.id}`}
                       className="text-blue-600 hover:text-blue-900 inline-flex items-center gap-1"
                     >
-                      <Edit className="h-4 w-4" />
-                      Edit
+                      {canEdit ? (
+                        <Edit className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                      {canEdit ? "Edit" : "View"}
                     </Link>
                   </td>
                 </tr>
@@ -13,7 +13,7 @@ export default async function EditPlacePage({
     where: { id: params.id },
   });
 
-  if (!place) {
+  if (!place || place.deletedAt) {
     notFound();
   }
 
@@ -1,8 +1,16 @@
 import Link from "next/link";
 import { ArrowLeft } from "lucide-react";
 import PlaceForm from "../PlaceForm";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+
+export default async function NewPlacePage() {
+  const session = await getSession();
+  if (!can(session?.role, "places:write")) {
+    redirect("/admin/places");
+  }
 
-export default function NewPlacePage() {
   return (
     <div>
       <div className="mb-6">
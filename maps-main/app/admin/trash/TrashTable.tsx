@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { RotateCcw, Trash2 } from "lucide-react";
+
+type TrashRow = {
+  type: string;
+  id: string;
+  name: string;
+  context: string | null;
+  deletedAt: Date;
+  purgeableAt: Date;
+};
+
+type Props = {
+  items: TrashRow[];
+  typeLabels: Record<string, string>;
+  editableTypes: string[];
+};
+
+export default function TrashTable({ items, typeLabels, editableTypes }: Props) {
+  const router = useRouter();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const now = new Date();
+  const expiredCount = items.filter(
+    (item) => new Date(item.purgeableAt) <= now && editableTypes.includes(item.type)
+  ).length;
+
+  const request = async (id: string, url: string, method: string, errorMessage: string) => {
+    setBusyId(id);
+    try {
+      const res = await fetch(url, { method });
+
+      if (!res.ok) {
+        const body = await res.json();
+        throw new Error(body.error || errorMessage);
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error(errorMessage, error);
+      alert(error.message || errorMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (item: TrashRow) =>
+    request(item.id, `/api/admin/trash/${item.type}/${item.id}`, "POST", "Failed to restore item");
+
+  const handlePurge = (item: TrashRow) => {
+    if (!confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) return;
+    request(item.id, `/api/admin/trash/${item.type}/${item.id}`, "DELETE", "Failed to purge item");
+  };
+
+  const handlePurgeExpired = () => {
+    if (!confirm(`Permanently delete ${expiredCount} expired item(s)? This cannot be undone.`)) return;
+    request("expired", "/api/admin/trash", "DELETE", "Failed to empty trash");
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Trash2 className="mx-auto h-12 w-12 text-gray-400" />
+        <p className="mt-2 text-sm text-gray-500">The trash is empty</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      {expiredCount > 0 && (
+        <div className="flex items-center justify-between px-6 py-3 border-b bg-gray-50 text-sm">
+          <span className="text-gray-600">
+            {expiredCount} item{expiredCount === 1 ? " is" : "s are"} past the retention period
+          </span>
+          <button
+            onClick={handlePurgeExpired}
+            disabled={busyId !== null}
+            className="text-red-600 hover:text-red-800 font-medium disabled:opacity-50"
+          >
+            Purge expired
+          </button>
+        </div>
+      )}
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Item
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Type
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Deleted
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Actions
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {items.map((item) => {
+            const canEdit = editableTypes.includes(item.type);
+            const canPurge = new Date(item.purgeableAt) <= now;
+
+            return (
+              <tr key={`${item.type}-${item.id}`} className="hover:bg-gray-50">
+                <td className="px-6 py-4">
+                  <div className="text-sm font-medium text-gray-900">{item.name}</div>
+                  {item.context && (
+                    <div className="text-sm text-gray-500">{item.context}</div>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {typeLabels[item.type] ?? item.type}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(item.deletedAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  {canEdit && (
+                    <div className="flex justify-end gap-4">
+                      <button
+                        onClick={() => handleRestore(item)}
+                        disabled={busyId !== null}
+                        className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        Restore
+                      </button>
+                      {canPurge ? (
+                        <button
+                          onClick={() => handlePurge(item)}
+                          disabled={busyId !== null}
+                          className="inline-flex items-center gap-1 text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          Purge
+                        </button>
+                      ) : (
+                        <span
+                          className="text-gray-400 font-normal"
+                          title="Items can be purged once the retention period has passed"
+                        >
+                          Purge from {new Date(item.purgeableAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { listTrash, TRASH_RETENTION_DAYS, TRASH_TYPES, type TrashType } from "@/lib/trash";
+import TrashTable from "./TrashTable";
+
+export default async function TrashPage() {
+  const session = await getSession();
+  const items = await listTrash();
+
+  const editableTypes = (Object.keys(TRASH_TYPES) as TrashType[]).filter((type) =>
+    can(session?.role, TRASH_TYPES[type].permission)
+  );
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Trash</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Deleted places, deals, events and indoor POIs. Items can be restored at
+          any time and purged permanently after {TRASH_RETENTION_DAYS} days.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow border border-gray-200">
+        <TrashTable
+          items={items}
+          typeLabels={Object.fromEntries(
+            Object.entries(TRASH_TYPES).map(([type, { label }]) => [type, label])
+          )}
+          editableTypes={editableTypes}
+        />
+      </div>
+    </div>
+  );
+}
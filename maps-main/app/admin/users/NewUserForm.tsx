@@ -0,0 +1,159 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Copy } from "lucide-react";
+import { ADMIN_ROLES, ROLE_LABELS, type AdminRole } from "@/lib/permissions";
+
+export default function NewUserForm() {
+  const router = useRouter();
+  const [mode, setMode] = useState<"invite" | "create">("invite");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<AdminRole>("editor");
+  const [password, setPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError("");
+    setInviteUrl(null);
+    setLoading(true);
+
+    try {
+      const res = await fetch("/api/admin/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          email,
+          role,
+          invite: mode === "invite",
+          password: mode === "create" ? password : undefined,
+        }),
+      });
+
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to add user");
+      }
+
+      setEmail("");
+      setPassword("");
+      setInviteUrl(data.inviteUrl);
+      router.refresh();
+    } catch (err: any) {
+      setError(err.message || "An error occurred");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {inviteUrl && (
+        <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded text-sm">
+          <p className="font-medium mb-2">
+            Invite created. Share this link with the new user - it expires in 7 days.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white border border-green-200 rounded px-2 py-1 truncate">
+              {inviteUrl}
+            </code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(inviteUrl)}
+              className="p-2 text-green-700 hover:bg-green-100 rounded"
+              title="Copy link"
+            >
+              <Copy className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "invite"}
+            onChange={() => setMode("invite")}
+          />
+          Send invite link
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={mode === "create"}
+            onChange={() => setMode("create")}
+          />
+          Set password now
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Email <span className="text-red-500">*</span>
+          </label>
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Role <span className="text-red-500">*</span>
+          </label>
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as AdminRole)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {ADMIN_ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABELS[r]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {mode === "create" && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Password <span className="text-red-500">*</span>
+            </label>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="new-password"
+              minLength={8}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+      >
+        {loading ? "Saving..." : mode === "invite" ? "Create Invite" : "Create User"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export default function TwoFactorPolicyToggle({ required }: { required: boolean }) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = async (requireTwoFactor: boolean) => {
+    if (
+      requireTwoFactor &&
+      !confirm(
+        "Require two-factor authentication for all admins? Anyone without it will have to set it up at their next sign-in."
+      )
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const res = await fetch("/api/admin/security-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ requireTwoFactor }),
+      });
+
+      if (!res.ok) {
+        const body = await res.json();
+        throw new Error(body.error || "Failed to update policy");
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error("Error updating two-factor policy:", error);
+      alert(error.message || "Failed to update policy");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <label className="flex items-start gap-3">
+      <input
+        type="checkbox"
+        checked={required}
+        disabled={loading}
+        onChange={(e) => handleChange(e.target.checked)}
+        className="mt-1 h-4 w-4 rounded border-gray-300 text-blue-600"
+      />
+      <span>
+        <span className="block text-sm font-medium text-gray-900">
+          Require two-factor authentication for all admins
+        </span>
+        <span className="block text-sm text-gray-600">
+          Admins without an authenticator app set up will be asked to enrol
+          when they next sign in.
+        </span>
+      </span>
+    </label>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { ADMIN_ROLES, ROLE_LABELS, normalizeRole } from "@/lib/permissions";
+
+type AdminUserRow = {
+  id: string;
+  email: string;
+  role: string;
+  isActive: boolean;
+  inviteExpiresAt: Date | null;
+  lockedUntil: Date | null;
+  totpEnabledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type Props = {
+  users: AdminUserRow[];
+  currentUserId: string;
+};
+
+export default function UsersTable({ users, currentUserId }: Props) {
+  const router = useRouter();
+
+  const updateUser = async (
+    userId: string,
+    data: { role?: string; isActive?: boolean; unlock?: boolean; resetTwoFactor?: boolean }
+  ) => {
+    try {
+      const res = await fetch(`/api/admin/users/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+
+      if (!res.ok) {
+        const body = await res.json();
+        throw new Error(body.error || "Failed to update user");
+      }
+
+      router.refresh();
+    } catch (error: any) {
+      console.error("Error updating user:", error);
+      alert(error.message || "Failed to update user");
+    }
+  };
+
+  const handleToggleActive = (user: AdminUserRow) => {
+    if (
+      user.isActive &&
+      !confirm(`Deactivate ${user.email}? They will be signed out immediately.`)
+    ) {
+      return;
+    }
+    updateUser(user.id, { isActive: !user.isActive });
+  };
+
+  const handleResetTwoFactor = (user: AdminUserRow) => {
+    if (
+      !confirm(
+        `Reset two-factor authentication for ${user.email}? Their authenticator app and recovery codes will stop working.`
+      )
+    ) {
+      return;
+    }
+    updateUser(user.id, { resetTwoFactor: true });
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead className="bg-gray-50 border-b">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Email
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Role
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Status
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              2FA
+            </th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Created
+            </th>
+            <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Actions
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {users.map((user) => {
+            const isSelf = user.id === currentUserId;
+            const isLocked =
+              !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
+            return (
+              <tr key={user.id} className="hover:bg-gray-50">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {user.email}
+                  {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <select
+                    value={normalizeRole(user.role)}
+                    onChange={(e) => updateUser(user.id, { role: e.target.value })}
+                    disabled={isSelf}
+                    className="text-sm rounded-md border-gray-300 disabled:bg-gray-50 disabled:text-gray-500"
+                  >
+                    {ADMIN_ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {ROLE_LABELS[r]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  {!user.isActive ? (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-800">
+                      Deactivated
+                    </span>
+                  ) : isLocked ? (
+                    <span
+                      className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800"
+                      title={`Locked until ${new Date(user.lockedUntil!).toLocaleString()}`}
+                    >
+                      Locked
+                    </span>
+                  ) : user.inviteExpiresAt ? (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                      {new Date(user.inviteExpiresAt) < new Date()
+                        ? "Invite expired"
+                        : "Invited"}
+                    </span>
+                  ) : (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
+                      Active
+                    </span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {user.totpEnabledAt ? (
+                    <span className="text-green-700">On</span>
+                  ) : (
+                    "Off"
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {new Date(user.createdAt).toLocaleDateString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  {isLocked && (
+                    <button
+                      onClick={() => updateUser(user.id, { unlock: true })}
+                      className="mr-4 text-blue-600 hover:text-blue-800"
+                    >
+                      Unlock
+                    </button>
+                  )}
+                  {!isSelf && user.totpEnabledAt && (
+                    <button
+                      onClick={() => handleResetTwoFactor(user)}
+                      className="mr-4 text-blue-600 hover:text-blue-800"
+                    >
+                      Reset 2FA
+                    </button>
+                  )}
+                  {!isSelf && (
+                    <button
+                      onClick={() => handleToggleActive(user)}
+                      className={
+                        user.isActive
+                          ? "text-red-600 hover:text-red-800"
+                          : "text-blue-600 hover:text-blue-800"
+                      }
+                    >
+                      {user.isActive ? "Deactivate" : "Reactivate"}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
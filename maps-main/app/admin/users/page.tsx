@@ -0,0 +1,51 @@
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { getSession } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { ADMIN_USER_SELECT } from "@/lib/adminUsers";
+import { isTwoFactorRequired } from "@/lib/twoFactor";
+import UsersTable from "./UsersTable";
+import NewUserForm from "./NewUserForm";
+import TwoFactorPolicyToggle from "./TwoFactorPolicyToggle";
+
+export default async function UsersPage() {
+  const session = await getSession();
+  if (!session || !can(session.role, "users:manage")) {
+    redirect("/admin");
+  }
+
+  const [users, twoFactorRequired] = await Promise.all([
+    prisma.adminUser.findMany({
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: "asc" },
+    }),
+    isTwoFactorRequired(),
+  ]);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Admin Users</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Invite team members, set their roles and deactivate accounts
+        </p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Add User</h2>
+          <NewUserForm />
+        </div>
+
+        <div className="bg-white rounded-lg shadow border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Sign-in Policy</h2>
+          <TwoFactorPolicyToggle required={twoFactorRequired} />
+        </div>
+
+        <div className="bg-white rounded-lg shadow border border-gray-200">
+          <UsersTable users={users} currentUserId={session.userId} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, changePassword, validatePassword } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/admin/account/password - Change the signed-in user's password
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+    const { currentPassword, newPassword } = body;
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: "Current and new password are required" },
+        { status: 400 }
+      );
+    }
+
+    const passwordError = validatePassword(newPassword);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const changed = await changePassword(
+      session.userId,
+      currentPassword,
+      newPassword,
+      session.sessionId
+    );
+
+    if (!changed) {
+      return NextResponse.json(
+        { error: "Current password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      after: { password: "changed" },
+      label: session.email,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error changing password:", error);
+    return NextResponse.json(
+      { error: "Failed to change password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { requireAdmin, revokeSession } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// DELETE /api/admin/account/sessions/[id] - Revoke one of the user's sessions
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const revoked = await revokeSession(session.userId, params.id);
+
+    if (!revoked) {
+      return NextResponse.json(
+        { error: "Session not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      after: { sessionRevoked: params.id },
+      label: session.email,
+    });
+
+    // Revoking the current session is the same as logging out
+    if (params.id === session.sessionId) {
+      cookies().delete("admin_session");
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking session:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { requireAdmin, listSessions, revokeAllSessions } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// GET /api/admin/account/sessions - List the signed-in user's active sessions
+export async function GET() {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const sessions = await listSessions(session.userId);
+
+    return NextResponse.json({
+      sessions: sessions.map((s) => ({
+        ...s,
+        isCurrent: s.id === session.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch sessions" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/account/sessions - Sign out everywhere, including here
+export async function DELETE() {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const count = await revokeAllSessions(session.userId);
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      after: { sessionsRevoked: count },
+      label: session.email,
+    });
+    cookies().delete("admin_session");
+
+    return NextResponse.json({ success: true, revoked: count });
+  } catch (error) {
+    console.error("Error revoking sessions:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke sessions" },
+      { status: 500 }
+    );
+  }
+}
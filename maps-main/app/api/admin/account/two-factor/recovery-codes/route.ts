@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin, verifyPassword } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { regenerateRecoveryCodes } from "@/lib/twoFactor";
+
+// POST /api/admin/account/two-factor/recovery-codes - Replace all recovery codes
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+    const { password } = body;
+
+    if (!password || !(await verifyPassword(session.userId, password))) {
+      return NextResponse.json(
+        { error: "Password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    const user = await prisma.adminUser.findUnique({
+      where: { id: session.userId },
+      select: { totpEnabledAt: true },
+    });
+
+    if (!user?.totpEnabledAt) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is not enabled" },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(session.userId);
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      after: { recoveryCodes: "regenerated" },
+      label: session.email,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Error regenerating recovery codes:", error);
+    return NextResponse.json(
+      { error: "Failed to regenerate recovery codes" },
+      { status: 500 }
+    );
+  }
+}
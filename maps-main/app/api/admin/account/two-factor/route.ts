@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin, verifyPassword } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import {
+  confirmTwoFactorEnrolment,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  startTwoFactorEnrolment,
+} from "@/lib/twoFactor";
+
+// POST /api/admin/account/two-factor - Start enrolment and return a QR code and secret
+export async function POST() {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const provisioning = await startTwoFactorEnrolment(session.userId);
+
+    if (!provisioning) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is already enabled" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(provisioning);
+  } catch (error) {
+    console.error("Error starting two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to start two-factor setup" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/account/two-factor - Confirm enrolment with a code from the app
+export async function PUT(req: NextRequest) {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+    const { code } = body;
+
+    if (!code) {
+      return NextResponse.json(
+        { error: "Authentication code is required" },
+        { status: 400 }
+      );
+    }
+
+    const recoveryCodes = await confirmTwoFactorEnrolment(session.userId, code);
+
+    if (!recoveryCodes) {
+      return NextResponse.json(
+        { error: "Invalid authentication code" },
+        { status: 400 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      before: { twoFactorEnabled: false },
+      after: { twoFactorEnabled: true },
+      label: session.email,
+    });
+
+    return NextResponse.json({ recoveryCodes });
+  } catch (error) {
+    console.error("Error confirming two-factor enrolment:", error);
+    return NextResponse.json(
+      { error: "Failed to enable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/account/two-factor - Turn off 2FA (requires the current password)
+export async function DELETE(req: NextRequest) {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+    const { password } = body;
+
+    if (await isTwoFactorRequired()) {
+      return NextResponse.json(
+        { error: "Two-factor authentication is required for all admins" },
+        { status: 400 }
+      );
+    }
+
+    if (!password || !(await verifyPassword(session.userId, password))) {
+      return NextResponse.json(
+        { error: "Password is incorrect" },
+        { status: 400 }
+      );
+    }
+
+    await disableTwoFactor(session.userId);
+
+    await recordAudit(session, {
+      entity: "account",
+      entityId: session.userId,
+      action: "update",
+      before: { twoFactorEnabled: true },
+      after: { twoFactorEnabled: false },
+      label: session.email,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error disabling two-factor authentication:", error);
+    return NextResponse.json(
+      { error: "Failed to disable two-factor authentication" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 const prisma = new PrismaClient();
 
@@ -8,10 +10,17 @@ export async function PUT(
   request: Request,
   { params }: { params: { id: string; entranceId: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { entranceId } = params;
     const data = await request.json();
 
+    const before = await prisma.buildingEntrance.findUnique({
+      where: { id: entranceId },
+    });
+
     const entrance = await prisma.buildingEntrance.update({
       where: { id: entranceId },
       data: {
@@ -26,6 +35,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'entrance',
+      entityId: entrance.id,
+      action: 'update',
+      before,
+      after: entrance,
+    });
+
     return NextResponse.json({ entrance });
   } catch (error) {
     console.error('Error updating entrance:', error);
@@ -41,13 +58,23 @@ export async function DELETE(
   request: Request,
   { params }: { params: { id: string; entranceId: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { entranceId } = params;
 
-    await prisma.buildingEntrance.delete({
+    const deleted = await prisma.buildingEntrance.delete({
       where: { id: entranceId },
     });
 
+    await recordAudit(session, {
+      entity: 'entrance',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting entrance:', error);
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 const prisma = new PrismaClient();
 
@@ -8,6 +10,9 @@ export async function GET(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const { id } = params;
 
@@ -34,6 +39,9 @@ export async function POST(
   request: Request,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const data = await request.json();
@@ -53,6 +61,13 @@ export async function POST(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'entrance',
+      entityId: entrance.id,
+      action: 'create',
+      after: entrance,
+    });
+
     return NextResponse.json({ entrance }, { status: 201 });
   } catch (error) {
     console.error('Error creating entrance:', error);
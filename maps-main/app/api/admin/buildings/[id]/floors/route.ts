@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { compileFloorGraph } from '@/lib/floorGraphs';
 
 // POST /api/admin/buildings/[id]/floors - Create new floor
 export async function POST(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id: buildingId } = params;
     const body = await req.json();
@@ -30,6 +36,16 @@ export async function POST(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'floor',
+      entityId: floor.id,
+      action: 'create',
+      after: floor,
+    });
+
+    // Precompile the floor plan for routing; if this fails it is retried when the floor is first routed on
+    await compileFloorGraph(floor).catch((error) => console.error('Error compiling floor graph:', error));
+
     return NextResponse.json({ floor }, { status: 201 });
   } catch (error) {
     console.error('Error creating floor:', error);
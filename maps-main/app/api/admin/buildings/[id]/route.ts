@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // GET /api/admin/buildings/[id] - Get single building
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const { id } = params;
 
@@ -51,6 +56,9 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const body = await req.json();
@@ -63,6 +71,10 @@ export async function PUT(
       );
     }
 
+    const before = await prisma.building.findUnique({
+      where: { id },
+    });
+
     const building = await prisma.building.update({
       where: { id },
       data: { name },
@@ -84,6 +96,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'building',
+      entityId: building.id,
+      action: 'update',
+      before,
+      after: building,
+    });
+
     return NextResponse.json({ building });
   } catch (error) {
     console.error('Error updating building:', error);
@@ -99,13 +119,24 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
 
-    await prisma.building.delete({
+    // Floors, entrances and POIs are removed with the building (cascade)
+    const deleted = await prisma.building.delete({
       where: { id },
     });
 
+    await recordAudit(session, {
+      entity: 'building',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting building:', error);
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // GET /api/admin/buildings - List all buildings
 export async function GET() {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const buildings = await prisma.building.findMany({
       include: {
@@ -38,6 +43,9 @@ export async function GET() {
 
 // POST /api/admin/buildings - Create new building
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const body = await req.json();
     const { placeId, name } = body;
@@ -77,6 +85,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await recordAudit(session, {
+      entity: 'building',
+      entityId: building.id,
+      action: 'create',
+      after: building,
+    });
+
     return NextResponse.json({ building }, { status: 201 });
   } catch (error) {
     console.error('Error creating building:', error);
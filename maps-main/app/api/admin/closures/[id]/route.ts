@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parseClosureInput } from "@/lib/routeClosures";
+
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { session, response } = await requireAdmin("closures:write");
+  if (response) return response;
+
+  try {
+    const parsed = parseClosureInput(await req.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const before = await prisma.routeClosure.findUnique({
+      where: { id: params.id },
+    });
+
+    const closure = await prisma.routeClosure.update({
+      where: { id: params.id },
+      data: parsed.data,
+    });
+
+    await recordAudit(session, {
+      entity: "closure",
+      entityId: closure.id,
+      action: "update",
+      before,
+      after: closure,
+      label: closure.reason,
+    });
+
+    return NextResponse.json(closure);
+  } catch (error) {
+    console.error("Error updating route closure:", error);
+    return NextResponse.json(
+      { error: "Failed to update route closure" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { session, response } = await requireAdmin("closures:write");
+  if (response) return response;
+
+  try {
+    // Closures are operational data rather than content, so they skip the trash
+    const deleted = await prisma.routeClosure.delete({
+      where: { id: params.id },
+    });
+
+    await recordAudit(session, {
+      entity: "closure",
+      entityId: deleted.id,
+      action: "delete",
+      before: deleted,
+      label: deleted.reason,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting route closure:", error);
+    return NextResponse.json(
+      { error: "Failed to delete route closure" },
+      { status: 500 }
+    );
+  }
+}
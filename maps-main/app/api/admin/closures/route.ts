@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { parseClosureInput } from "@/lib/routeClosures";
+
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("closures:write");
+  if (response) return response;
+
+  try {
+    const parsed = parseClosureInput(await req.json());
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const closure = await prisma.routeClosure.create({
+      data: parsed.data,
+    });
+
+    await recordAudit(session, {
+      entity: "closure",
+      entityId: closure.id,
+      action: "create",
+      after: closure,
+      label: closure.reason,
+    });
+
+    return NextResponse.json(closure);
+  } catch (error) {
+    console.error("Error creating route closure:", error);
+    return NextResponse.json(
+      { error: "Failed to create route closure" },
+      { status: 500 }
+    );
+  }
+}
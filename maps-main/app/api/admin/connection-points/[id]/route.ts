@@ -1,18 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // DELETE /api/admin/connection-points/[id] - Delete connection point
 export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
 
-    await prisma.connectionPoint.delete({
+    const deleted = await prisma.connectionPoint.delete({
       where: { id },
     });
 
+    await recordAudit(session, {
+      entity: 'connectionPoint',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting connection point:', error);
@@ -28,6 +40,9 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const body = await req.json();
@@ -41,11 +56,23 @@ export async function PUT(
     if (connectsToFloorId !== undefined) data.connectsToFloorId = connectsToFloorId;
     if (isAccessible !== undefined) data.isAccessible = isAccessible;
 
+    const before = await prisma.connectionPoint.findUnique({
+      where: { id },
+    });
+
     const connectionPoint = await prisma.connectionPoint.update({
       where: { id },
       data,
     });
 
+    await recordAudit(session, {
+      entity: 'connectionPoint',
+      entityId: connectionPoint.id,
+      action: 'update',
+      before,
+      after: connectionPoint,
+    });
+
     return NextResponse.json({ connectionPoint });
   } catch (error) {
     console.error('Error updating connection point:', error);
@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin("deals:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
+    const before = await prisma.deal.findUnique({
+      where: { id: params.id },
+    });
+
     const deal = await prisma.deal.update({
       where: { id: params.id },
       data: {
@@ -21,6 +30,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: "deal",
+      entityId: deal.id,
+      action: "update",
+      before,
+      after: deal,
+    });
+
     return NextResponse.json(deal);
   } catch (error) {
     console.error("Error updating deal:", error);
@@ -35,9 +52,39 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin("deals:write");
+  if (response) return response;
+
   try {
-    await prisma.deal.delete({
-      where: { id: params.id },
+    // Items already in the trash keep their original deletion date
+    const before = await prisma.deal.findFirst({ where: { id: params.id, deletedAt: null } });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: "Deal not found" },
+        { status: 404 }
+      );
+    }
+
+    // Soft delete - the deal stays in the trash until restored or purged
+    const { count } = await prisma.deal.updateMany({
+      where: { id: params.id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    // Trashed by a concurrent request
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Deal not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "deal",
+      entityId: before.id,
+      action: "delete",
+      before,
     });
 
     return NextResponse.json({ success: true });
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("deals:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
@@ -17,6 +22,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await recordAudit(session, {
+      entity: "deal",
+      entityId: deal.id,
+      action: "create",
+      after: deal,
+    });
+
     return NextResponse.json(deal);
   } catch (error) {
     console.error("Error creating deal:", error);
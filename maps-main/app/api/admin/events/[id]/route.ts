@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin("events:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
+    const before = await prisma.event.findUnique({
+      where: { id: params.id },
+    });
+
     const event = await prisma.event.update({
       where: { id: params.id },
       data: {
@@ -22,6 +31,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: "event",
+      entityId: event.id,
+      action: "update",
+      before,
+      after: event,
+    });
+
     return NextResponse.json(event);
   } catch (error) {
     console.error("Error updating event:", error);
@@ -36,9 +53,39 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin("events:write");
+  if (response) return response;
+
   try {
-    await prisma.event.delete({
-      where: { id: params.id },
+    // Items already in the trash keep their original deletion date
+    const before = await prisma.event.findFirst({ where: { id: params.id, deletedAt: null } });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    // Soft delete - the event stays in the trash until restored or purged
+    const { count } = await prisma.event.updateMany({
+      where: { id: params.id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    // Trashed by a concurrent request
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "event",
+      entityId: before.id,
+      action: "delete",
+      before,
     });
 
     return NextResponse.json({ success: true });
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("events:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
@@ -18,6 +23,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await recordAudit(session, {
+      entity: "event",
+      entityId: event.id,
+      action: "create",
+      after: event,
+    });
+
     return NextResponse.json(event);
   } catch (error) {
     console.error("Error creating event:", error);
@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 export async function PATCH(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('feedback:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const body = await req.json();
@@ -60,6 +65,14 @@ export async function PATCH(
       data: updateData,
     });
 
+    await recordAudit(session, {
+      entity: 'feedback',
+      entityId: id,
+      action: 'update',
+      before: feedback,
+      after: updatedFeedback,
+    });
+
     return NextResponse.json({
       success: true,
       feedback: updatedFeedback,
@@ -78,13 +91,23 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('feedback:write');
+  if (response) return response;
+
   try {
     const { id } = params;
 
-    await prisma.feedback.delete({
+    const deleted = await prisma.feedback.delete({
       where: { id },
     });
 
+    await recordAudit(session, {
+      entity: 'feedback',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Feedback deleted successfully',
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // POST /api/admin/floors/[id]/connection-points - Create connection point
 export async function POST(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id: floorId } = params;
     const body = await req.json();
@@ -30,6 +35,13 @@ export async function POST(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'connectionPoint',
+      entityId: connectionPoint.id,
+      action: 'create',
+      after: connectionPoint,
+    });
+
     return NextResponse.json({ connectionPoint }, { status: 201 });
   } catch (error) {
     console.error('Error creating connection point:', error);
@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // POST /api/admin/floors/[id]/indoor-pois - Create indoor POI
 export async function POST(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('indoorPois:write');
+  if (response) return response;
+
   try {
     const { id: floorId } = params;
     const body = await req.json();
@@ -51,6 +56,13 @@ export async function POST(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'indoorPoi',
+      entityId: indoorPOI.id,
+      action: 'create',
+      after: indoorPOI,
+    });
+
     return NextResponse.json({ indoorPOI }, { status: 201 });
   } catch (error) {
     console.error('Error creating indoor POI:', error);
@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { compileFloorGraph } from '@/lib/floorGraphs';
 
 // GET /api/admin/floors/[id] - Get single floor
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const { id } = params;
 
@@ -16,6 +22,7 @@ export async function GET(
         indoorPOIs: {
           where: {
             isLive: true,
+            deletedAt: null,
           },
           orderBy: {
             name: 'asc',
@@ -65,6 +72,9 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const body = await req.json();
@@ -75,6 +85,10 @@ export async function PUT(
     if (floorNumber !== undefined) data.floorNumber = floorNumber;
     if (svgPath !== undefined) data.svgPath = svgPath;
 
+    const before = await prisma.floor.findUnique({
+      where: { id },
+    });
+
     const floor = await prisma.floor.update({
       where: { id },
       data,
@@ -83,6 +97,19 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: 'floor',
+      entityId: floor.id,
+      action: 'update',
+      before,
+      after: floor,
+    });
+
+    // A new floor plan needs its routing graph recompiled
+    if (floor.svgPath !== before?.svgPath) {
+      await compileFloorGraph(floor).catch((error) => console.error('Error compiling floor graph:', error));
+    }
+
     return NextResponse.json({ floor });
   } catch (error) {
     console.error('Error updating floor:', error);
@@ -98,13 +125,23 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const { id } = params;
 
-    await prisma.floor.delete({
+    const deleted = await prisma.floor.delete({
       where: { id },
     });
 
+    await recordAudit(session, {
+      entity: 'floor',
+      entityId: deleted.id,
+      action: 'delete',
+      before: deleted,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting floor:', error);
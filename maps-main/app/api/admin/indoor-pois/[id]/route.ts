@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 
 // GET /api/admin/indoor-pois/[id] - Get single indoor POI
 export async function GET(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
   try {
     const { id } = params;
 
@@ -51,6 +56,9 @@ export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('indoorPois:write');
+  if (response) return response;
+
   try {
     const { id } = params;
     const body = await req.json();
@@ -70,11 +78,23 @@ export async function PUT(
     if (body.tags !== undefined) data.tags = body.tags;
     if (body.isLive !== undefined) data.isLive = body.isLive;
 
+    const before = await prisma.indoorPOI.findUnique({
+      where: { id },
+    });
+
     const indoorPOI = await prisma.indoorPOI.update({
       where: { id },
       data,
     });
 
+    await recordAudit(session, {
+      entity: 'indoorPoi',
+      entityId: indoorPOI.id,
+      action: 'update',
+      before,
+      after: indoorPOI,
+    });
+
     return NextResponse.json({ indoorPOI });
   } catch (error) {
     console.error('Error updating indoor POI:', error);
@@ -90,11 +110,41 @@ export async function DELETE(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin('indoorPois:write');
+  if (response) return response;
+
   try {
     const { id } = params;
 
-    await prisma.indoorPOI.delete({
-      where: { id },
+    // Items already in the trash keep their original deletion date
+    const before = await prisma.indoorPOI.findFirst({ where: { id, deletedAt: null } });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Indoor POI not found' },
+        { status: 404 }
+      );
+    }
+
+    // Soft delete - the POI stays in the trash until restored or purged
+    const { count } = await prisma.indoorPOI.updateMany({
+      where: { id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    // Trashed by a concurrent request
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Indoor POI not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: 'indoorPoi',
+      entityId: before.id,
+      action: 'delete',
+      before,
     });
 
     return NextResponse.json({ success: true });
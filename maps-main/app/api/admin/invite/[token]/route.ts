@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { hashPassword, validatePassword } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+
+// POST /api/admin/invite/[token] - Accept an invite by choosing a password
+// Public: the invite token itself authorises the request.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await req.json();
+    const { password } = body;
+
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      return NextResponse.json({ error: passwordError }, { status: 400 });
+    }
+
+    const user = await prisma.adminUser.findUnique({
+      where: { inviteToken: params.token },
+    });
+
+    if (
+      !user ||
+      !user.isActive ||
+      !user.inviteExpiresAt ||
+      user.inviteExpiresAt < new Date()
+    ) {
+      return NextResponse.json(
+        { error: "This invite link is invalid or has expired" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.adminUser.update({
+      where: { id: user.id },
+      data: {
+        passwordHash: await hashPassword(password),
+        inviteToken: null,
+        inviteExpiresAt: null,
+      },
+    });
+
+    // No session yet - the invited user is the actor
+    await recordAudit(
+      { userId: user.id, email: user.email },
+      {
+        entity: "account",
+        entityId: user.id,
+        action: "update",
+        after: { invite: "accepted" },
+        label: user.email,
+      }
+    );
+
+    return NextResponse.json({ success: true, email: user.email });
+  } catch (error) {
+    console.error("Error accepting invite:", error);
+    return NextResponse.json(
+      { error: "Failed to accept invite" },
+      { status: 500 }
+    );
+  }
+}
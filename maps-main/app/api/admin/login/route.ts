@@ -1,9 +1,49 @@
 import { NextRequest, NextResponse } from "next/server";
-import { verifyCredentials, createSession } from "@/lib/auth";
+import { verifyCredentials, createSession, getClientIp } from "@/lib/auth";
+import {
+  checkLoginAllowed,
+  recordLoginAttempt,
+  type LoginThrottleResult,
+} from "@/lib/loginThrottle";
+import {
+  confirmTwoFactorEnrolment,
+  createLoginChallenge,
+  deleteLoginChallenge,
+  getLoginChallenge,
+  isTwoFactorRequired,
+  recordFailedChallenge,
+  startTwoFactorEnrolment,
+  verifySecondFactor,
+} from "@/lib/twoFactor";
 
+function throttledResponse(throttle: Exclude<LoginThrottleResult, { allowed: true }>) {
+  const error =
+    throttle.reason === "locked"
+      ? "This account is temporarily locked after too many failed sign-in attempts. Try again later."
+      : `Too many failed sign-in attempts. Try again in ${throttle.retryAfterSeconds} seconds.`;
+
+  return NextResponse.json(
+    { error, retryAfter: throttle.retryAfterSeconds },
+    {
+      status: 429,
+      headers: { "Retry-After": String(throttle.retryAfterSeconds) },
+    }
+  );
+}
+
+// POST /api/admin/login - Sign in with email and password, then a 2FA code if enabled
+//   Step 1: { email, password }
+//   Step 2: { challengeToken, code } - code is a TOTP code or a recovery code
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const ipAddress = getClientIp();
+    const userAgent = req.headers.get("user-agent");
+
+    if (body.challengeToken) {
+      return await completeTwoFactorStep(body, ipAddress, userAgent);
+    }
+
     const { email, password } = body;
 
     if (!email || !password) {
@@ -13,16 +53,41 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Refuse early while the email or IP is backing off or the account is locked
+    const throttle = await checkLoginAllowed(email, ipAddress);
+    if (!throttle.allowed) {
+      return throttledResponse(throttle);
+    }
+
     // Verify credentials
     const user = await verifyCredentials(email, password);
 
     if (!user) {
+      await recordLoginAttempt(email, ipAddress, userAgent, false);
       return NextResponse.json(
         { error: "Invalid email or password" },
         { status: 401 }
       );
     }
 
+    // The password is correct - hold back the session until the second factor is checked
+    let provisioning = null;
+    if (!user.twoFactorEnabled && (await isTwoFactorRequired())) {
+      provisioning = await startTwoFactorEnrolment(user.id);
+    }
+
+    if (user.twoFactorEnabled || provisioning) {
+      const challengeToken = await createLoginChallenge(user.id);
+      return NextResponse.json({
+        twoFactorRequired: true,
+        challengeToken,
+        // Present when the user must enrol before their first sign-in under the 2FA policy
+        setup: provisioning,
+      });
+    }
+
+    await recordLoginAttempt(email, ipAddress, userAgent, true);
+
     // Create session
     await createSession(user.id, user.email);
 
@@ -35,3 +100,70 @@ export async function POST(req: NextRequest) {
     );
   }
 }
+
+async function completeTwoFactorStep(
+  body: { challengeToken: unknown; code?: unknown },
+  ipAddress: string | null,
+  userAgent: string | null
+) {
+  const { challengeToken, code } = body;
+
+  if (typeof challengeToken !== "string") {
+    return NextResponse.json({ error: "Invalid sign-in request" }, { status: 400 });
+  }
+
+  if (typeof code !== "string" || !code) {
+    return NextResponse.json(
+      { error: "Authentication code is required" },
+      { status: 400 }
+    );
+  }
+
+  const challenge = await getLoginChallenge(challengeToken);
+
+  if (!challenge) {
+    return NextResponse.json(
+      { error: "Your sign-in has expired. Please enter your password again.", restart: true },
+      { status: 401 }
+    );
+  }
+
+  const { email } = challenge.user;
+
+  const throttle = await checkLoginAllowed(email, ipAddress);
+  if (!throttle.allowed) {
+    return throttledResponse(throttle);
+  }
+
+  // Users enrolling under the 2FA policy confirm their new authenticator here
+  let recoveryCodes: string[] | null = null;
+  let accepted: boolean;
+
+  if (challenge.user.totpEnabledAt) {
+    accepted = await verifySecondFactor(challenge.user.id, code);
+  } else {
+    recoveryCodes = await confirmTwoFactorEnrolment(challenge.user.id, code);
+    accepted = recoveryCodes !== null;
+  }
+
+  await recordLoginAttempt(email, ipAddress, userAgent, accepted);
+
+  if (!accepted) {
+    await recordFailedChallenge(challenge.id);
+    return NextResponse.json(
+      { error: "Invalid authentication code" },
+      { status: 401 }
+    );
+  }
+
+  await deleteLoginChallenge(challenge.id);
+
+  // Create session
+  await createSession(challenge.user.id, email);
+
+  return NextResponse.json({
+    success: true,
+    user: { email },
+    recoveryCodes,
+  });
+}
@@ -1,13 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function PUT(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const { session, response } = await requireAdmin("places:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
+    const before = await prisma.place.findUnique({
+      where: { id: params.id },
+    });
+
     const place = await prisma.place.update({
       where: { id: params.id },
       data: {
@@ -28,6 +37,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(session, {
+      entity: "place",
+      entityId: place.id,
+      action: "update",
+      before,
+      after: place,
+    });
+
     return NextResponse.json(place);
   } catch (error) {
     console.error("Error updating place:", error);
@@ -37,3 +54,53 @@ export async function PUT(
     );
   }
 }
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { session, response } = await requireAdmin("places:write");
+  if (response) return response;
+
+  try {
+    // Items already in the trash keep their original deletion date
+    const before = await prisma.place.findFirst({ where: { id: params.id, deletedAt: null } });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: "Place not found" },
+        { status: 404 }
+      );
+    }
+
+    // Soft delete - deals, events, the building and feedback are kept so the
+    // place can be restored from the trash
+    const { count } = await prisma.place.updateMany({
+      where: { id: params.id, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+
+    // Trashed by a concurrent request
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Place not found" },
+        { status: 404 }
+      );
+    }
+
+    await recordAudit(session, {
+      entity: "place",
+      entityId: before.id,
+      action: "delete",
+      before,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting place:", error);
+    return NextResponse.json(
+      { error: "Failed to delete place" },
+      { status: 500 }
+    );
+  }
+}
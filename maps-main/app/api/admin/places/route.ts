@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("places:write");
+  if (response) return response;
+
   try {
     const body = await req.json();
 
@@ -24,6 +29,13 @@ export async function POST(req: NextRequest) {
       },
     });
 
+    await recordAudit(session, {
+      entity: "place",
+      entityId: place.id,
+      action: "create",
+      after: place,
+    });
+
     return NextResponse.json(place);
   } catch (error) {
     console.error("Error creating place:", error);
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { isTwoFactorRequired, setTwoFactorRequired } from "@/lib/twoFactor";
+
+// GET /api/admin/security-settings - Sign-in policy for all admins
+export async function GET() {
+  const { response } = await requireAdmin("users:manage");
+  if (response) return response;
+
+  try {
+    return NextResponse.json({ requireTwoFactor: await isTwoFactorRequired() });
+  } catch (error) {
+    console.error("Error fetching security settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch security settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/admin/security-settings - Require (or stop requiring) 2FA for all admins
+export async function PUT(req: NextRequest) {
+  const { session, response } = await requireAdmin("users:manage");
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+
+    if (typeof body.requireTwoFactor !== "boolean") {
+      return NextResponse.json(
+        { error: "requireTwoFactor must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    const requiredBefore = await isTwoFactorRequired();
+
+    await setTwoFactorRequired(body.requireTwoFactor);
+
+    await recordAudit(session, {
+      entity: "securitySettings",
+      entityId: 1,
+      action: "update",
+      before: { requireTwoFactor: requiredBefore },
+      after: { requireTwoFactor: body.requireTwoFactor },
+      label: "Sign-in policy",
+    });
+
+    return NextResponse.json({ requireTwoFactor: body.requireTwoFactor });
+  } catch (error) {
+    console.error("Error updating security settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update security settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import {
+  findTrashed,
+  isTrashType,
+  purgeableAt,
+  purgeItem,
+  restoreItem,
+  TRASH_RETENTION_DAYS,
+  TRASH_TYPES,
+} from "@/lib/trash";
+
+type Params = { params: { type: string; id: string } };
+
+// POST /api/admin/trash/[type]/[id] - Restore an item from the trash
+export async function POST(req: NextRequest, { params }: Params) {
+  if (!isTrashType(params.type)) {
+    return NextResponse.json({ error: "Invalid item type" }, { status: 400 });
+  }
+
+  const { session, response } = await requireAdmin(TRASH_TYPES[params.type].permission);
+  if (response) return response;
+
+  try {
+    const before = await findTrashed(params.type, params.id);
+
+    if (!before) {
+      return NextResponse.json(
+        { error: "Item not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    const restored = await restoreItem(params.type, params.id);
+
+    await recordAudit(session, {
+      entity: params.type,
+      entityId: params.id,
+      action: "restore",
+      before,
+      after: restored,
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error restoring item:", error);
+    return NextResponse.json(
+      { error: "Failed to restore item" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/trash/[type]/[id] - Permanently delete an item after the retention period
+export async function DELETE(req: NextRequest, { params }: Params) {
+  if (!isTrashType(params.type)) {
+    return NextResponse.json({ error: "Invalid item type" }, { status: 400 });
+  }
+
+  const { session, response } = await requireAdmin(TRASH_TYPES[params.type].permission);
+  if (response) return response;
+
+  try {
+    const item = await findTrashed(params.type, params.id);
+
+    if (!item) {
+      return NextResponse.json(
+        { error: "Item not found in trash" },
+        { status: 404 }
+      );
+    }
+
+    if (purgeableAt(item.deletedAt!) > new Date()) {
+      return NextResponse.json(
+        { error: `Items stay in the trash for ${TRASH_RETENTION_DAYS} days before they can be purged` },
+        { status: 400 }
+      );
+    }
+
+    // A purged place takes its deals with it; each removal is logged
+    for (const purged of await purgeItem(params.type, params.id)) {
+      await recordAudit(session, {
+        entity: purged.type,
+        entityId: purged.id,
+        action: "purge",
+        before: purged.record,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error purging item:", error);
+    return NextResponse.json(
+      { error: "Failed to purge item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { listTrash, purgeItem, TRASH_TYPES } from "@/lib/trash";
+
+// GET /api/admin/trash - List soft-deleted places, deals, events and indoor POIs
+export async function GET() {
+  const { response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const items = await listTrash();
+    return NextResponse.json({ items });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch trash" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/admin/trash - Purge every item past the retention period
+// Only item types the user can edit are purged.
+export async function DELETE() {
+  const { session, response } = await requireAdmin();
+  if (response) return response;
+
+  try {
+    const now = new Date();
+    const expired = (await listTrash()).filter(
+      (item) =>
+        item.purgeableAt <= now &&
+        can(session.role, TRASH_TYPES[item.type].permission)
+    );
+
+    // Deals go with their place, so may already be gone by the time they come up
+    const purgedIds = new Set<string>();
+    for (const item of expired) {
+      if (purgedIds.has(`${item.type}:${item.id}`)) continue;
+      for (const purged of await purgeItem(item.type, item.id)) {
+        purgedIds.add(`${purged.type}:${purged.id}`);
+        await recordAudit(session, {
+          entity: purged.type,
+          entityId: purged.id,
+          action: "purge",
+          before: purged.record,
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, purged: expired.length });
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    return NextResponse.json(
+      { error: "Failed to empty trash" },
+      { status: 500 }
+    );
+  }
+}
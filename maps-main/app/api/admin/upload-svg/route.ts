@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { writeFile } from 'fs/promises';
 import { join } from 'path';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
+import { compileFloorPlan } from '@/lib/indoorPathfinding';
 
 // POST /api/admin/upload-svg - Upload SVG file
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin('buildings:write');
+  if (response) return response;
+
   try {
     const formData = await req.formData();
     const file = formData.get('file') as File;
@@ -52,13 +58,27 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Compile the plan's routing layers now so a plan without a Paths or
+    // Portals layer shows up at upload; the floor stores its own compiled
+    // graph once it is created with this svgPath
+    const { segments, portals } = compileFloorPlan(svgContent, filename);
+    const routing = { segments: segments.length, portals: portals.length };
+
     // Return path relative to public directory
     const svgPath = `/maps/${filename}`;
 
+    await recordAudit(session, {
+      entity: 'upload',
+      entityId: svgPath,
+      action: 'create',
+      after: { filename, path: svgPath, size: file.size, type: file.type },
+    });
+
     return NextResponse.json({
       svgPath,
       filename,
       viewBox,
+      routing,
     });
   } catch (error) {
     console.error('Error uploading SVG:', error);
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { writeFile, mkdir } from "fs/promises";
 import { join } from "path";
 import { existsSync } from "fs";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
 
 export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("uploads:write");
+  if (response) return response;
+
   try {
     const formData = await req.formData();
     const file = formData.get("file") as File;
@@ -54,6 +59,13 @@ export async function POST(req: NextRequest) {
     // Return the URL
     const imageUrl = `/uploads/places/${filename}`;
 
+    await recordAudit(session, {
+      entity: "upload",
+      entityId: imageUrl,
+      action: "create",
+      after: { filename, path: imageUrl, size: file.size, type: file.type },
+    });
+
     return NextResponse.json({
       success: true,
       imageUrl
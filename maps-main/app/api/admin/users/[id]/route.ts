@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireAdmin } from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { ADMIN_ROLES } from "@/lib/permissions";
+import { ADMIN_USER_SELECT } from "@/lib/adminUsers";
+import { disableTwoFactor } from "@/lib/twoFactor";
+
+// PATCH /api/admin/users/[id] - Change a user's role, (de)activate, unlock or reset their 2FA
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const { session, response } = await requireAdmin("users:manage");
+  if (response) return response;
+
+  try {
+    const { id } = params;
+    const body = await req.json();
+    const { role, isActive, unlock, resetTwoFactor } = body;
+
+    // Owners cannot lock themselves out
+    if (
+      id === session.userId &&
+      (role !== undefined || isActive !== undefined || resetTwoFactor !== undefined)
+    ) {
+      return NextResponse.json(
+        { error: "You cannot change your own role, status or two-factor settings here" },
+        { status: 400 }
+      );
+    }
+
+    const data: Prisma.AdminUserUpdateInput = {};
+    if (role !== undefined) {
+      if (!(ADMIN_ROLES as readonly string[]).includes(role)) {
+        return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+      }
+      data.role = role;
+    }
+    if (isActive !== undefined) data.isActive = isActive === true;
+    // Clear a sign-in lockout early (see lib/loginThrottle.ts)
+    if (unlock === true) {
+      data.lockedUntil = null;
+      data.failedLoginCount = 0;
+    }
+
+    const before = await prisma.adminUser.findUnique({
+      where: { id },
+      select: ADMIN_USER_SELECT,
+    });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: "User not found" },
+        { status: 404 }
+      );
+    }
+
+    // Lets a user who lost their authenticator and recovery codes enrol again
+    if (resetTwoFactor === true) {
+      await disableTwoFactor(id);
+    }
+
+    const user = await prisma.adminUser.update({
+      where: { id },
+      data,
+      select: ADMIN_USER_SELECT,
+    });
+
+    // Deactivation signs the user out everywhere
+    if (data.isActive === false) {
+      await prisma.session.deleteMany({
+        where: { userId: id },
+      });
+    }
+
+    await recordAudit(session, {
+      entity: "adminUser",
+      entityId: user.id,
+      action: "update",
+      before,
+      after: user,
+    });
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    console.error("Error updating admin user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
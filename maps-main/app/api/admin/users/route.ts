@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import {
+  requireAdmin,
+  generateToken,
+  hashPassword,
+  validatePassword,
+} from "@/lib/auth";
+import { recordAudit } from "@/lib/audit";
+import { ADMIN_ROLES } from "@/lib/permissions";
+import { ADMIN_USER_SELECT, INVITE_TTL_MS } from "@/lib/adminUsers";
+
+// GET /api/admin/users - List admin users
+export async function GET() {
+  const { response } = await requireAdmin("users:manage");
+  if (response) return response;
+
+  try {
+    const users = await prisma.adminUser.findMany({
+      select: ADMIN_USER_SELECT,
+      orderBy: { createdAt: "asc" },
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error fetching admin users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/users - Create a user directly or invite them
+// Invites return a one-time link the owner shares with the new user.
+export async function POST(req: NextRequest) {
+  const { session, response } = await requireAdmin("users:manage");
+  if (response) return response;
+
+  try {
+    const body = await req.json();
+    const { email, role, password, invite } = body;
+
+    if (!email || !role) {
+      return NextResponse.json(
+        { error: "email and role are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(ADMIN_ROLES as readonly string[]).includes(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+
+    if (!invite) {
+      const passwordError = validatePassword(password);
+      if (passwordError) {
+        return NextResponse.json({ error: passwordError }, { status: 400 });
+      }
+    }
+
+    const existingUser = await prisma.adminUser.findUnique({
+      where: { email },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 400 }
+      );
+    }
+
+    const inviteToken = invite ? generateToken() : null;
+
+    const user = await prisma.adminUser.create({
+      data: {
+        email,
+        role,
+        // Invited users get an unusable random password until they accept
+        passwordHash: await hashPassword(invite ? generateToken() : password),
+        inviteToken,
+        inviteExpiresAt: invite ? new Date(Date.now() + INVITE_TTL_MS) : null,
+      },
+      select: ADMIN_USER_SELECT,
+    });
+
+    await recordAudit(session, {
+      entity: "adminUser",
+      entityId: user.id,
+      action: "create",
+      after: user,
+    });
+
+    return NextResponse.json(
+      {
+        user,
+        inviteUrl: inviteToken
+          ? `${req.nextUrl.origin}/admin/invite/${inviteToken}`
+          : null,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating admin user:", error);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+}
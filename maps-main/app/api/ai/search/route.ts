@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPlaces, getDeals, getEvents } from '@/lib/dataService';
+import { getPlaces, getDeals, getEvents, getRouteClosures } from '@/lib/dataService';
 import type { Business } from '@/types';
 import type { AIServerPayload, AIEntryContext, AIRecommendation } from '@/types/ai';
 import { aiSearch, buildFollowUps } from '@/lib/ai';
 import { calculateDistance } from '@/lib/coordinateMapper';
+import { buildPathNetwork } from '@/lib/serverGraphLoader';
+import { applyClosures } from '@/lib/routeClosures';
+import { computeIsochrones, isWithinIsochrone } from '@/lib/isochrone';
 
 // Runtime validation: Ensure API keys are configured
 // This will throw an error at build time if keys are missing
@@ -150,6 +153,16 @@ function filterByQuery(query: string, businesses: Business[]): Business[] {
   });
 }
 
+// "lunch within 10 minutes walk", "coffee 5 min away" -> walking time budget in minutes
+function walkMinutesFromQuery(query: string): number | null {
+  const match =
+    query.match(/(\d{1,2})\s*-?\s*min(?:ute)?s?(?:'s)?\s+(?:walk|walking|away|on foot)/i) ||
+    query.match(/within\s+(?:a\s+)?(\d{1,2})\s*-?\s*min(?:ute)?s?/i);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10);
+  return minutes > 0 ? Math.min(minutes, 60) : null;
+}
+
 function findNearestLandmark(userLocation: { lat: number; lng: number } | null, businesses: Business[]): string | null {
   if (!userLocation) return null;
 
@@ -282,7 +295,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Fetch all places from database along with deals/events to allow a mixed list
-    const [businesses, deals, events] = await Promise.all([
+    let [businesses, deals, events] = await Promise.all([
       getPlaces(),
       getDeals(),
       getEvents(),
@@ -290,6 +303,20 @@ export async function POST(req: NextRequest) {
 
     // Find nearest landmark for context
     const nearestLandmark = findNearestLandmark(userLocation || null, businesses);
+
+    // Walking-time queries only consider what is reachable on foot in time
+    const walkMinutes = walkMinutesFromQuery(query);
+    if (walkMinutes && userLocation) {
+      const [graph, closures] = await Promise.all([buildPathNetwork(), getRouteClosures()]);
+      const [reach] = computeIsochrones(applyClosures(graph, closures), userLocation, [walkMinutes]);
+      if (reach) {
+        businesses = businesses.filter((b) => isWithinIsochrone(reach, b.lat, b.lng));
+        const reachableIds = new Set(businesses.map((b) => b.id));
+        deals = deals.filter((d) => reachableIds.has(d.placeId));
+        events = events.filter((e) => e.placeId && reachableIds.has(e.placeId));
+        console.log(`🚶 Within ${walkMinutes} min walk: ${businesses.length} places`);
+      }
+    }
     const locationRef = nearestLandmark || 'Sydney CBD';
 
     // Availability flags for smarter chips/messages
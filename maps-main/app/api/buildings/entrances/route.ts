@@ -9,6 +9,9 @@ export async function GET() {
     const entrances = await prisma.buildingEntrance.findMany({
       where: {
         isOpen: true,
+        Building: {
+          Place: { deletedAt: null },
+        },
       },
       select: {
         id: true,
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getRouteClosures } from "@/lib/dataService";
+
+export async function GET() {
+  try {
+    const closures = await getRouteClosures();
+    return NextResponse.json(closures);
+  } catch (error) {
+    console.error("Error fetching route closures:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch route closures" },
+      { status: 500 }
+    );
+  }
+}
@@ -35,8 +35,8 @@ export async function POST(req: NextRequest) {
 
     // Check if place or indoor POI exists
     if (placeId) {
-      const placeExists = await prisma.place.findUnique({
-        where: { id: placeId },
+      const placeExists = await prisma.place.findFirst({
+        where: { id: placeId, deletedAt: null },
         select: { id: true },
       });
 
@@ -49,8 +49,8 @@ export async function POST(req: NextRequest) {
     }
 
     if (indoorPoiId) {
-      const indoorPoiExists = await prisma.indoorPOI.findUnique({
-        where: { id: indoorPoiId },
+      const indoorPoiExists = await prisma.indoorPOI.findFirst({
+        where: { id: indoorPoiId, deletedAt: null },
         select: { id: true },
       });
 
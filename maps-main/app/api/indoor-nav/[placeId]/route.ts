@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { getFloorGraphs } from '@/lib/floorGraphs';
 
 export async function GET(
   req: NextRequest,
@@ -9,8 +10,8 @@ export async function GET(
     const { placeId } = params;
 
     // Fetch building with floors, connection points, and indoor POIs
-    const building = await prisma.building.findUnique({
-      where: { placeId },
+    const building = await prisma.building.findFirst({
+      where: { placeId, Place: { deletedAt: null } },
       include: {
         floors: {
           include: {
@@ -18,6 +19,7 @@ export async function GET(
             indoorPOIs: {
               where: {
                 isLive: true,
+                deletedAt: null,
               },
               orderBy: {
                 name: 'asc',
@@ -38,7 +40,15 @@ export async function GET(
       );
     }
 
-    return NextResponse.json({ building });
+    // Precompiled routing graphs, so the client can route without parsing floor plan SVGs
+    const graphs = new Map((await getFloorGraphs(building.floors)).map((graph) => [graph.floorId, graph]));
+
+    return NextResponse.json({
+      building: {
+        ...building,
+        floors: building.floors.map((floor) => ({ ...floor, graph: graphs.get(floor.id) ?? null })),
+      },
+    });
   } catch (error) {
     console.error('Error fetching building data:', error);
     return NextResponse.json(
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { buildPathNetwork } from '@/lib/serverGraphLoader';
+import { gpsToSvg } from '@/lib/coordinateMapper';
+import { planItinerary, MAX_ITINERARY_STOPS, type ItineraryStop } from '@/lib/itinerary';
+import { nodesToGps, walkingMinutes } from '@/lib/turnByTurn';
+import { isRoutingProfile } from '@/lib/routingProfiles';
+
+function toStop(id: string, name: string, lat: number, lng: number): ItineraryStop {
+  const svg = gpsToSvg(lat, lng);
+  return { id, name, x: svg.x, y: svg.y, lat, lng, placeId: id };
+}
+
+/**
+ * POST /api/itinerary
+ * Orders a set of places into a short walking tour
+ * Body: { start: { lat, lng } | { placeId }, placeIds: string[], returnToStart?: boolean, profile?: RoutingProfile }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { start, placeIds, returnToStart = false, profile = 'default' } = body;
+
+    if (!Array.isArray(placeIds) || placeIds.length === 0) {
+      return NextResponse.json({ error: 'placeIds must be a non-empty array' }, { status: 400 });
+    }
+
+    if (!isRoutingProfile(profile)) {
+      return NextResponse.json({ error: 'Unknown routing profile' }, { status: 400 });
+    }
+
+    const uniqueIds = Array.from(new Set<string>(placeIds));
+    if (uniqueIds.length > MAX_ITINERARY_STOPS) {
+      return NextResponse.json(
+        { error: `An itinerary can have at most ${MAX_ITINERARY_STOPS} places` },
+        { status: 400 }
+      );
+    }
+
+    const places = await prisma.place.findMany({
+      where: {
+        id: { in: [...uniqueIds, ...(start?.placeId ? [start.placeId] : [])] },
+        isLive: true,
+        deletedAt: null,
+      },
+      select: { id: true, name: true, lat: true, lng: true },
+    });
+    const placesById = new Map(places.map((p) => [p.id, p]));
+
+    const missing = uniqueIds.filter((id) => !placesById.has(id));
+    if (missing.length > 0) {
+      return NextResponse.json({ error: `Places not found: ${missing.join(', ')}` }, { status: 404 });
+    }
+
+    let startStop: ItineraryStop;
+    if (start?.placeId) {
+      const place = placesById.get(start.placeId);
+      if (!place) {
+        return NextResponse.json({ error: 'Start place not found' }, { status: 404 });
+      }
+      startStop = toStop(place.id, place.name, place.lat, place.lng);
+    } else if (typeof start?.lat === 'number' && typeof start?.lng === 'number') {
+      startStop = { ...toStop('start', 'Start', start.lat, start.lng), placeId: undefined };
+    } else {
+      return NextResponse.json(
+        { error: 'start must be { lat, lng } or { placeId }' },
+        { status: 400 }
+      );
+    }
+
+    const stops = uniqueIds
+      .filter((id) => id !== start?.placeId)
+      .map((id) => {
+        const place = placesById.get(id)!;
+        return toStop(place.id, place.name, place.lat, place.lng);
+      });
+
+    const graph = await buildPathNetwork();
+    const plan = planItinerary(graph, startStop, stops, { returnToStart: Boolean(returnToStart), profile });
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'Unable to find a walking route through all of these places' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      stops: plan.order.map((i) => ({
+        id: stops[i].id,
+        name: stops[i].name,
+        lat: stops[i].lat,
+        lng: stops[i].lng,
+      })),
+      legs: plan.legDistances.map((distanceMeters) => ({
+        distanceMeters: Math.round(distanceMeters),
+        durationMinutes: walkingMinutes(distanceMeters),
+      })),
+      totalDistanceMeters: Math.round(plan.totalDistanceMeters),
+      totalDurationMinutes: plan.totalDurationMinutes,
+      route: nodesToGps(plan.route.route),
+    });
+  } catch (error) {
+    console.error('Error planning itinerary:', error);
+    return NextResponse.json({ error: 'Failed to plan itinerary' }, { status: 500 });
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { requireAdmin } from '@/lib/auth';
+import { recordAudit } from '@/lib/audit';
 import type { ZoomConfig } from '@/types';
 
 /**
@@ -40,9 +42,16 @@ export async function GET() {
  * Updates zoom configuration (admin only)
  */
 export async function PUT(request: Request) {
+  const { session, response } = await requireAdmin('settings:write');
+  if (response) return response;
+
   try {
     const body = await request.json() as Partial<ZoomConfig>;
 
+    const before = await prisma.mapSettings.findFirst({
+      where: { id: 1 },
+    });
+
     const settings = await prisma.mapSettings.upsert({
       where: { id: 1 },
       update: {
@@ -62,6 +71,14 @@ export async function PUT(request: Request) {
       },
     });
 
+    await recordAudit(session, {
+      entity: 'mapSettings',
+      entityId: settings.id,
+      action: before ? 'update' : 'create',
+      before,
+      after: settings,
+    });
+
     return NextResponse.json({
       initial: settings.initialZoom,
       placeStart: settings.placeZoom,
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isRoutingProfile } from '@/lib/routingProfiles';
+import { DIRECTIONS_LOCALES, isDirectionsLocale } from '@/lib/directionsLocale';
+import { parseRouteEndpoint, planRoute, routeEndpointFromQuery, type RouteEndpointInput } from '@/lib/routingService';
+import { exportRoute, isRouteExportFormat, ROUTE_EXPORT_FORMATS } from '@/lib/routeExport';
+
+async function respond(
+  from: RouteEndpointInput | null,
+  to: RouteEndpointInput | null,
+  profile: unknown,
+  format: unknown,
+  lang: unknown
+) {
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: 'from and to must each be { lat, lng }, { placeId }, { indoorPoiId } or { floorId, x, y }' },
+      { status: 400 }
+    );
+  }
+
+  if (!isRoutingProfile(profile)) {
+    return NextResponse.json({ error: 'Unknown routing profile' }, { status: 400 });
+  }
+
+  if (!isDirectionsLocale(lang)) {
+    return NextResponse.json(
+      { error: `lang must be one of ${Object.keys(DIRECTIONS_LOCALES).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  if (format !== undefined && !isRouteExportFormat(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${Object.keys(ROUTE_EXPORT_FORMATS).join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const result = await planRoute(from, to, profile, lang);
+  if ('error' in result) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+
+  if (format !== undefined) {
+    const { route } = result;
+    const file = exportRoute(
+      {
+        name: `${route.from.name} to ${route.to.name}`,
+        coordinates: route.geometry.coordinates.map(([lng, lat]) => ({ lat, lng })),
+        steps: route.steps,
+      },
+      format
+    );
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.mimeType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  }
+
+  return NextResponse.json(result.route);
+}
+
+/**
+ * GET /api/route
+ * Walking route between two points
+ * Query: fromLat & fromLng | fromPlaceId | fromPoiId | fromFloorId & fromX & fromY,
+ * the same with a "to" prefix, an optional profile, an optional lang for
+ * the directions (en, zh-Hans, ja, ko or es), and an optional format (gpx,
+ * geojson or kml) to download the route as a file
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    return await respond(
+      routeEndpointFromQuery(params, 'from'),
+      routeEndpointFromQuery(params, 'to'),
+      params.get('profile') ?? 'default',
+      params.get('format') ?? undefined,
+      params.get('lang') ?? 'en'
+    );
+  } catch (error) {
+    console.error('Error calculating route:', error);
+    return NextResponse.json({ error: 'Failed to calculate route' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/route
+ * Body: { from: RouteEndpointInput, to: RouteEndpointInput, profile?: RoutingProfile, lang?: DirectionsLocale, format?: RouteExportFormat }
+ * Returns geometry (GeoJSON LineString), distance, ETA and turn-by-turn steps,
+ * or the route as a GPX/GeoJSON/KML file when format is given
+ */
+export async function POST(req: NextRequest) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    const { profile = 'default', format, lang = 'en' } = body;
+    return await respond(parseRouteEndpoint(body.from), parseRouteEndpoint(body.to), profile, format, lang);
+  } catch (error) {
+    console.error('Error calculating route:', error);
+    return NextResponse.json({ error: 'Failed to calculate route' }, { status: 500 });
+  }
+}
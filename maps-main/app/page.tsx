@@ -18,7 +18,7 @@ declare global {
 
 import { useCallback, useEffect, useState, useRef, useMemo } from 'react';
 
-import { X } from 'lucide-react';
+import { Construction, Volume2, VolumeX, X } from 'lucide-react';
 
 import CustomSydneyMap from '@/components/Map/CustomSydneyMap';
 
@@ -28,7 +28,7 @@ import SearchWidget from '@/components/Search/SearchWidget';
 
 import MapDebugOverlay from '@/components/Debug/MapDebugOverlay';
 
-import type { Business, DeviceLocation, Intersection, PathNode, ZoomConfig } from '@/types';
+import type { Business, DeviceLocation, Intersection, PathNode, RouteStop, ZoomConfig } from '@/types';
 
 import type { AIEntryContext } from '@/types/ai';
 
@@ -36,13 +36,18 @@ import type { Deal, Event } from '@/lib/dataService';
 
 import { getIntersectionsWithGps } from '@/data/intersections';
 
-import { findAnyRoute, findRoute, findRouteWithDiagnostics, type PathfindingDiagnostics } from '@/lib/pathfinding';
+import { findAnyRoute, findRoute, type PathfindingDiagnostics, type RouteAlternative } from '@/lib/pathfinding';
 
-import { buildPathNetwork } from '@/lib/graphLoader';
+import { requestRouting } from '@/lib/routingWorkerClient';
+import type { FloorGraphData } from '@/lib/indoorPathfinding';
 
 import { gpsToSvg, calculateDistance, isWithinMapBounds, setCalibration, getSvgBounds, normalizeLatitude, normalizeLongitude } from '@/lib/coordinateMapper';
 
-import { getNextInstruction } from '@/lib/turnByTurn';
+import { getAllDirections, getNextInstruction, outdoorSegmentNodes } from '@/lib/turnByTurn';
+import { INITIAL_REROUTE_STATE, rerouteStarted, updateRerouteState, type RerouteState } from '@/lib/rerouting';
+import { DEFAULT_DIRECTIONS_LOCALE, DIRECTIONS_LOCALES, resolveDirectionsLocale, type DirectionsLocale } from '@/lib/directionsLocale';
+import { dueAnnouncements, INITIAL_VOICE_STATE, isSpeechAvailable, planVoiceGuidance, speak, stopSpeaking, type VoiceGuidanceState, type VoicePlan } from '@/lib/voiceGuidance';
+import { INITIAL_MATCH_STATE, matchFix, MIN_MATCH_CONFIDENCE, routeIndexOfMatch, type MapMatchState } from '@/lib/mapMatching';
 
 import NavigationPanel from '@/components/Navigation/NavigationPanel';
 
@@ -51,8 +56,9 @@ import IndoorPOIModal from '@/components/Location/IndoorPOIModal';
 
 import { validateGraph, logValidationResult } from '@/lib/graphValidator';
 
-import { findPathBetweenPOIs, findMultiFloorPath } from '@/lib/indoorPathfinding';
-import { buildHybridGraph, findHybridRoute } from '@/lib/hybridPathfinding';
+import type { RoutingProfile } from '@/lib/routingProfiles';
+import { applyClosures, closuresNearRoute, type RouteClosure } from '@/lib/routeClosures';
+import { computeIsochrones, isWithinIsochrone, ISOCHRONE_MINUTES, WALKING_SPEEDS, type WalkingSpeed } from '@/lib/isochrone';
 
 
 
@@ -320,9 +326,17 @@ export default function Page() {
 
   const [nearMeOnly, setNearMeOnly] = useState(false);
 
+  const [reachMinutes, setReachMinutes] = useState<number | null>(null); // Reachability mode: "what can I reach in N minutes"
+  const [walkingSpeed, setWalkingSpeed] = useState<WalkingSpeed>('average');
+
   const [navigationActive, setNavigationActive] = useState(false);
 
   const [activeRoute, setActiveRoute] = useState<PathNode[] | null>(null);
+  const [activeRouteLegs, setActiveRouteLegs] = useState<PathNode[][] | null>(null); // Per-leg routes for multi-stop journeys
+  const [activeRouteStops, setActiveRouteStops] = useState<RouteStop[]>([]); // Intermediate stops along activeRoute
+  const [routeAlternatives, setRouteAlternatives] = useState<RouteAlternative[]>([]); // Alternative routes for single-leg journeys
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  const [routingProfile, setRoutingProfile] = useState<RoutingProfile>('default'); // Step-free / pram-friendly routing
 
   const [pathGraph, setPathGraph] = useState<import('@/types').PathGraph | null>(null);
 
@@ -345,8 +359,9 @@ export default function Page() {
 
   // Hybrid navigation state
   const [buildingEntrances, setBuildingEntrances] = useState<any[]>([]);
+  const [routeClosures, setRouteClosures] = useState<RouteClosure[]>([]); // Street works, markets, parades... (see lib/routeClosures.ts)
   const [hybridRouteActive, setHybridRouteActive] = useState(false);
-  const [hybridGraph, setHybridGraph] = useState<Map<string, any> | null>(null);
+  const [hybridGraphReady, setHybridGraphReady] = useState(false); // Built and held by the routing worker
 
   const [debugTransformLogTick, setDebugTransformLogTick] = useState(0);
 
@@ -371,6 +386,27 @@ export default function Page() {
   const [smoothNavMarker, setSmoothNavMarker] = useState<{ x: number; y: number; angleDeg: number } | null>(null);
 
   const navMarkerRef = useRef<{ x: number; y: number; angleDeg: number } | null>(null);
+  const routeRequestRef = useRef<AbortController | null>(null); // Route being computed by the routing worker
+
+  // Automatic rerouting (lib/rerouting.ts): where the current journey is heading, so it can be
+  // recomputed from wherever the user ends up, and whether a new route is on its way
+  type JourneyStop = { lat: number; lng: number; id?: string; label?: string };
+  const journeyRef = useRef<{ kind: 'outdoor'; destination: JourneyStop; stops: JourneyStop[] } | { kind: 'hybrid'; leg: PathNode[] } | null>(null);
+  const rerouteStateRef = useRef<RerouteState>(INITIAL_REROUTE_STATE);
+  const reroutingRef = useRef(false);
+  const rerouteRef = useRef<((from: { lat: number; lng: number }, progressIndex: number) => void) | null>(null);
+  const mapMatchStateRef = useRef<MapMatchState>(INITIAL_MATCH_STATE); // Map matcher state over recent GPS fixes
+
+  // Language for directions and spoken guidance (lib/directionsLocale.ts); follows the browser until chosen
+  const [directionsLocale, setDirectionsLocale] = useState<DirectionsLocale>(DEFAULT_DIRECTIONS_LOCALE);
+  const directionsLocaleRef = useRef(directionsLocale); // For hybrid routing, which shouldn't re-run on a language change
+
+  // Spoken guidance (lib/voiceGuidance.ts) for the active route's directions
+  const [voiceMuted, setVoiceMuted] = useState(false);
+  const [voiceVolume, setVoiceVolume] = useState(1);
+  const voicePlanRef = useRef<VoicePlan | null>(null);
+  const voiceStateRef = useRef<VoiceGuidanceState>(INITIAL_VOICE_STATE);
+  const voiceSettingsRef = useRef({ muted: false, volume: 1 });
 
   const [simulateAtQvb, setSimulateAtQvb] = useState(false);
 
@@ -559,6 +595,12 @@ export default function Page() {
     setSelectedIndoorPOI(poi);
   }, []);
 
+  // Precompiled routing graphs for the open building's floors, sent along with the building data
+  const floorGraphs = useMemo<FloorGraphData[]>(
+    () => (buildingData?.floors ?? []).flatMap((floor: any) => (floor.graph ? [floor.graph] : [])),
+    [buildingData]
+  );
+
   // Load SVG content for ALL floors when building data loads
   useEffect(() => {
     if (!indoorModeActive || !buildingData?.floors) {
@@ -605,117 +647,99 @@ export default function Page() {
     loadBuildingEntrances();
   }, []);
 
-  // Build hybrid graph when outdoor graph, building entrances, and indoor SVG are ready
+  // Load route closures so routing can avoid them
   useEffect(() => {
-    if (!pathGraph || buildingEntrances.length === 0 || allFloorSvgContent.size === 0) {
+    async function loadRouteClosures() {
+      try {
+        const res = await fetch('/api/closures');
+        const data = await res.json();
+        setRouteClosures(Array.isArray(data) ? data : []);
+        console.log(`🚧 Loaded ${Array.isArray(data) ? data.length : 0} route closures`);
+      } catch (error) {
+        console.error('Failed to load route closures:', error);
+      }
+    }
+    loadRouteClosures();
+  }, []);
+
+  // Outdoor graph with active closures applied - use this for routing, not pathGraph
+  const routingGraph = useMemo(
+    () => (pathGraph ? applyClosures(pathGraph, routeClosures) : null),
+    [pathGraph, routeClosures]
+  );
+
+  // Walking isochrones up to the chosen time budget; the largest one filters places, deals and events
+  const isochrones = useMemo(() => {
+    if (!reachMinutes || !userLocation || !routingGraph) return [];
+    return computeIsochrones(
+      routingGraph,
+      userLocation,
+      ISOCHRONE_MINUTES.filter((m) => m <= reachMinutes),
+      { metersPerSecond: WALKING_SPEEDS[walkingSpeed].metersPerSecond, profile: routingProfile }
+    );
+  }, [reachMinutes, userLocation, routingGraph, walkingSpeed, routingProfile]);
+  const reachArea = isochrones.length > 0 ? isochrones[isochrones.length - 1] : null;
+
+  const reachablePlaceIds = useMemo(() => {
+    if (!reachArea) return null;
+    return new Set(allPlaces.filter((p) => isWithinIsochrone(reachArea, p.lat, p.lng)).map((p) => p.id));
+  }, [reachArea, allPlaces]);
+  const reachableDeals = useMemo(
+    () => (reachablePlaceIds ? allDeals.filter((d) => reachablePlaceIds.has(d.placeId)) : allDeals),
+    [reachablePlaceIds, allDeals]
+  );
+  const reachableEvents = useMemo(
+    () => (reachablePlaceIds ? allEvents.filter((e) => e.placeId && reachablePlaceIds.has(e.placeId)) : allEvents),
+    [reachablePlaceIds, allEvents]
+  );
+
+  // Closures the current route passes close to, for the detour notice
+  const detourClosures = useMemo(() => {
+    if (!navigationActive) return [];
+    const route = [...(activeRoute ?? []), ...(indoorRoute ?? [])];
+    return closuresNearRoute(route, routeClosures);
+  }, [navigationActive, activeRoute, indoorRoute, routeClosures]);
+
+  // Build hybrid graph in the routing worker when outdoor graph, building entrances, and indoor floor graphs are ready
+  useEffect(() => {
+    if (!pathGraph || buildingEntrances.length === 0 || floorGraphs.length === 0) {
       // Wait for all components to be loaded
       console.log('⏳ Waiting for hybrid graph components:', {
         pathGraph: !!pathGraph,
         entrances: buildingEntrances.length,
-        floorSvg: allFloorSvgContent.size
+        floorGraphs: floorGraphs.length
       });
       return;
     }
 
-    async function buildHybrid() {
-      try {
-        if (!pathGraph) {
-          console.error('pathGraph is null in buildHybrid');
-          return;
-        }
-
-        console.log('🔧 Building hybrid navigation graph...');
-        console.log('  - Outdoor graph:', Object.keys(pathGraph.nodesById).length, 'nodes');
-        console.log('  - Building entrances:', buildingEntrances.length);
-        console.log('  - Indoor floors:', allFloorSvgContent.size);
-
-        // Convert outdoor graph to Map format expected by buildHybridGraph
-        // The outdoor graph uses adjacency list format, need to convert to edges Map
-        const outdoorGraphMap = new Map();
-        Object.entries(pathGraph.nodesById).forEach(([id, node]) => {
-          const edges = new Map();
-          // Convert adjacency list to edges Map
-          const adjacentEdges = pathGraph!.adjacency[id] || [];
-          adjacentEdges.forEach((edge: any) => {
-            // Edge property is 'to', not 'target'
-            edges.set(edge.to, edge.distance);
-          });
-
-          outdoorGraphMap.set(id, {
-            ...node,
-            edges,
-          });
-        });
-
-        // Build indoor graphs for each floor with SVG content
-        const indoorGraphs = new Map();
-
-        // Group SVG content by building
-        const buildingFloors = new Map<string, Array<{floorId: string; svgContent: string}>>();
-
-        // Get building info from entrances
-        const buildingIds = [...new Set(buildingEntrances.map(e => e.buildingId))];
-
-        for (const buildingId of buildingIds) {
-          const floors: Array<{floorId: string; svgContent: string}> = [];
-
-          // Find all floors for this building from entrances
-          const buildingEntranceFloors = buildingEntrances
-            .filter(e => e.buildingId === buildingId)
-            .map(e => e.floorId);
-
-          for (const floorId of new Set(buildingEntranceFloors)) {
-            const svgContent = allFloorSvgContent.get(floorId);
-            if (svgContent) {
-              floors.push({ floorId, svgContent });
-            }
-          }
-
-          if (floors.length > 0) {
-            buildingFloors.set(buildingId, floors);
-          }
-        }
-
-        console.log('  - Building indoor graphs for', buildingFloors.size, 'buildings...');
-
-        // Build indoor graph for each building using multi-floor pathfinding
-        for (const [buildingId, floors] of buildingFloors.entries()) {
-          try {
-            // Parse SVG paths for each floor
-            const { parseSvgPaths, buildMultiFloorGraph } = await import('@/lib/indoorPathfinding');
-
-            const floorData = floors.map(floor => {
-              const segments = parseSvgPaths(floor.svgContent);
-              return {
-                floorId: floor.floorId,
-                segments,
-                svgContent: floor.svgContent
-              };
-            });
-
-            const indoorGraph = buildMultiFloorGraph(floorData);
-            indoorGraphs.set(buildingId, indoorGraph);
-            console.log(`    ✓ Built indoor graph for building ${buildingId}:`, indoorGraph.size, 'nodes');
-          } catch (error) {
-            console.error(`    ✗ Failed to build indoor graph for building ${buildingId}:`, error);
-          }
-        }
-
-        const hybrid = await buildHybridGraph(
-          outdoorGraphMap,
-          buildingEntrances,
-          indoorGraphs
-        );
-
-        setHybridGraph(hybrid);
-        console.log('✅ Hybrid graph built:', hybrid.size, 'total nodes (outdoor + indoor + entrance portals)');
-      } catch (error) {
-        console.error('❌ Failed to build hybrid graph:', error);
+    console.log('🔧 Building hybrid navigation graph...');
+    console.log('  - Building entrances:', buildingEntrances.length);
+    console.log('  - Indoor floors:', floorGraphs.length);
+
+    const controller = new AbortController();
+    requestRouting(
+      {
+        type: 'buildHybridGraph',
+        entrances: buildingEntrances,
+        floors: floorGraphs,
+        closures: routeClosures,
+      },
+      {
+        signal: controller.signal,
+        onProgress: ({ stage, completed, total }) => console.log(`  - ${stage} (${completed}/${total})`),
       }
-    }
+    )
+      .then(({ nodeCount }) => {
+        setHybridGraphReady(true);
+        console.log('✅ Hybrid graph built:', nodeCount, 'total nodes (outdoor + indoor + entrance portals)');
+      })
+      .catch((error) => {
+        if (error.name !== 'AbortError') console.error('❌ Failed to build hybrid graph:', error);
+      });
 
-    buildHybrid();
-  }, [pathGraph, buildingEntrances, allFloorSvgContent]);
+    // Inputs changed: stop the stale build (the worker keeps the last finished graph)
+    return () => controller.abort();
+  }, [pathGraph, buildingEntrances, floorGraphs, routeClosures]);
 
   // Update current floor SVG when selected floor changes
   useEffect(() => {
@@ -741,25 +765,30 @@ export default function Page() {
       console.log('  Destination:', hasIndoorDestination ? `Indoor (${indoorNavigationDestination?.name})` : `Outdoor (${navigationDestination?.name})`);
 
       // Trigger hybrid pathfinding
-      if (hybridGraph) {
-        async function calculateHybridRoute() {
-          try {
-            if (!hybridGraph) {
-              console.error('hybridGraph is null');
-              return;
-            }
-
-            const start = hasOutdoorStart
-              ? { lat: navigationStart!.lat, lng: navigationStart!.lng }
-              : { buildingId: indoorNavigationStart!.buildingId, floorId: indoorNavigationStart!.floorId, x: indoorNavigationStart!.x, y: indoorNavigationStart!.y };
-
-            const end = hasIndoorDestination
-              ? { buildingId: indoorNavigationDestination!.buildingId, floorId: indoorNavigationDestination!.floorId, x: indoorNavigationDestination!.x, y: indoorNavigationDestination!.y }
-              : { lat: navigationDestination!.lat, lng: navigationDestination!.lng };
-
-            console.log('🚀 Calling findHybridRoute...', { start, end });
-            const hybridRoute = await findHybridRoute(hybridGraph, start, end);
+      if (hybridGraphReady) {
+        const start = hasOutdoorStart
+          ? { lat: navigationStart!.lat, lng: navigationStart!.lng }
+          : { buildingId: indoorNavigationStart!.buildingId, floorId: indoorNavigationStart!.floorId, x: indoorNavigationStart!.x, y: indoorNavigationStart!.y };
+
+        const end = hasIndoorDestination
+          ? { buildingId: indoorNavigationDestination!.buildingId, floorId: indoorNavigationDestination!.floorId, x: indoorNavigationDestination!.x, y: indoorNavigationDestination!.y }
+          : { lat: navigationDestination!.lat, lng: navigationDestination!.lng };
+
+        console.log('🚀 Requesting hybrid route...', { start, end });
+
+        // A reroute that found no new outdoor leg keeps guiding along the current one
+        const keepCurrentLeg = () => {
+          if (!reroutingRef.current) return;
+          reroutingRef.current = false;
+          const journey = journeyRef.current;
+          if (journey?.kind === 'hybrid' && navigationStart) {
+            setCurrentInstruction(getNextInstruction(journey.leg, navigationStart, pathGraph ?? undefined, { locale: directionsLocaleRef.current }).text);
+          }
+        };
 
+        const controller = new AbortController();
+        requestRouting({ type: 'hybridRoute', start, end, profile: routingProfile }, { signal: controller.signal })
+          .then((hybridRoute) => {
             if (hybridRoute) {
               console.log('✅ Hybrid route found!', hybridRoute);
               setHybridRouteActive(true);
@@ -768,96 +797,87 @@ export default function Page() {
               hybridRoute.segments.forEach((seg, i) => {
                 console.log(`  Segment ${i + 1}: ${seg.type} (${seg.nodes.length} nodes, ${seg.distance.toFixed(1)}m)`);
               });
+
+              // From the user's own position the outdoor leg is walked straight away: guide along it
+              // like an outdoor route, so it is tracked and rerouted (by moving the start) if they stray
+              const outdoorLeg = hasOutdoorStart && navigationStart?.id === 'my-location'
+                ? hybridRoute.segments.find((seg) => seg.type === 'outdoor')
+                : undefined;
+              const legNodes = outdoorLeg ? outdoorSegmentNodes(outdoorLeg, pathGraph ?? undefined) : [];
+              if (legNodes.length >= 2) {
+                journeyRef.current = { kind: 'hybrid', leg: legNodes };
+                reroutingRef.current = false;
+                setActiveRoute(legNodes);
+                setActiveRouteLegs(null);
+                setActiveRouteStops([]);
+                setRemainingRoute(legNodes);
+                setRouteProgress(0);
+                setNavigationActive(true);
+                setTurnByTurnActive(true);
+                setCurrentInstruction(getNextInstruction(legNodes, navigationStart!, pathGraph ?? undefined, { locale: directionsLocaleRef.current }).text);
+              } else {
+                keepCurrentLeg();
+              }
             } else {
+              keepCurrentLeg();
               console.error('❌ No hybrid route found');
               setNavigationErrorMessage('Could not find a route between outdoor and indoor locations.');
               setShowNavigationError(true);
             }
-          } catch (error) {
+          })
+          .catch((error) => {
+            if (error.name === 'AbortError') return;
+            keepCurrentLeg();
             console.error('❌ Hybrid pathfinding error:', error);
             setNavigationErrorMessage('Error calculating hybrid route: ' + error);
             setShowNavigationError(true);
-          }
-        }
+          });
 
-        calculateHybridRoute();
+        return () => controller.abort();
       } else {
         console.warn('⚠️ Hybrid graph not ready yet');
       }
     }
-  }, [navigationStart, navigationDestination, indoorNavigationStart, indoorNavigationDestination, hybridGraph]);
+  }, [navigationStart, navigationDestination, indoorNavigationStart, indoorNavigationDestination, hybridGraphReady, routingProfile, pathGraph]);
 
   // Calculate indoor route when start and destination are set
   useEffect(() => {
-    if (!indoorNavigationStart || !indoorNavigationDestination || allFloorSvgContent.size === 0) {
+    if (!indoorNavigationStart || !indoorNavigationDestination || floorGraphs.length === 0) {
       setIndoorRoute(null);
       return;
     }
 
     console.log('🗺️  Calculating indoor route from', indoorNavigationStart.name, 'to', indoorNavigationDestination.name);
 
-    // Check if on same floor - use single-floor pathfinding
-    if (indoorNavigationStart.floorId === indoorNavigationDestination.floorId) {
-      const floorSvg = allFloorSvgContent.get(indoorNavigationStart.floorId);
-      if (!floorSvg) {
-        console.error('Floor SVG not loaded');
-        setIndoorRoute(null);
-        return;
-      }
-
-      const result = findPathBetweenPOIs(
-        floorSvg,
-        { x: indoorNavigationStart.x, y: indoorNavigationStart.y },
-        { x: indoorNavigationDestination.x, y: indoorNavigationDestination.y }
-      );
-
-      if (result) {
-        // Add floor ID to each node
-        const nodesWithFloor = result.nodes.map(node => ({
-          ...node,
-          floorId: indoorNavigationStart.floorId,
-        }));
-        setIndoorRoute(nodesWithFloor);
-        console.log('✅ Single-floor route calculated:', nodesWithFloor.length, 'nodes');
-      } else {
-        setIndoorRoute(null);
-        console.warn('❌ Could not find single-floor route');
-      }
-    } else {
-      // Multi-floor pathfinding
-      console.log('🪜 Using multi-floor pathfinding');
-
-      const floors = Array.from(allFloorSvgContent.entries()).map(([floorId, svgContent]) => ({
-        floorId,
-        svgContent,
-      }));
-
-      findMultiFloorPath(
-        floors,
-        {
-          x: indoorNavigationStart.x,
-          y: indoorNavigationStart.y,
-          floorId: indoorNavigationStart.floorId,
-        },
-        {
-          x: indoorNavigationDestination.x,
-          y: indoorNavigationDestination.y,
-          floorId: indoorNavigationDestination.floorId,
-        }
-      ).then(result => {
+    const controller = new AbortController();
+    requestRouting(
+      {
+        type: 'indoorRoute',
+        floors: floorGraphs,
+        start: { x: indoorNavigationStart.x, y: indoorNavigationStart.y, floorId: indoorNavigationStart.floorId },
+        end: { x: indoorNavigationDestination.x, y: indoorNavigationDestination.y, floorId: indoorNavigationDestination.floorId },
+        profile: routingProfile,
+        closures: routeClosures,
+      },
+      { signal: controller.signal }
+    )
+      .then((result) => {
         if (result) {
           setIndoorRoute(result.nodes);
-          console.log('✅ Multi-floor route calculated:', result.nodes.length, 'nodes');
+          console.log('✅ Indoor route calculated:', result.nodes.length, 'nodes');
         } else {
           setIndoorRoute(null);
-          console.warn('❌ Could not find multi-floor route');
+          console.warn('❌ Could not find indoor route');
         }
-      }).catch(err => {
-        console.error('Multi-floor pathfinding error:', err);
+      })
+      .catch((error) => {
+        if (error.name === 'AbortError') return;
+        console.error('Indoor pathfinding error:', error);
         setIndoorRoute(null);
       });
-    }
-  }, [indoorNavigationStart, indoorNavigationDestination, allFloorSvgContent]);
+
+    return () => controller.abort();
+  }, [indoorNavigationStart, indoorNavigationDestination, floorGraphs, routingProfile, routeClosures]);
 
   // Load places, deals, and events on mount
 
@@ -1111,11 +1131,21 @@ export default function Page() {
 
 
 
+    // Reachability filter - only places inside the walking isochrone
+
+    if (reachablePlaceIds) {
+
+      result = result.filter(place => reachablePlaceIds.has(place.id));
+
+    }
+
+
+
     setFilteredPlaces(result);
 
     setVisibleBusinesses(result); // Show all filtered businesses on map
 
-  }, [allPlaces, allDeals, allEvents, keyword, selectedCategory, activeTabs, nearMeOnly, userLocation]);
+  }, [allPlaces, allDeals, allEvents, keyword, selectedCategory, activeTabs, nearMeOnly, userLocation, reachablePlaceIds]);
 
 
 
@@ -1389,12 +1419,31 @@ export default function Page() {
 
         }
 
-        // Update instruction if active
+        // Map-match the fix onto the street graph (lib/mapMatching.ts). While the matcher is confident
+        // the user is on one of the route's streets, tracking follows the matched position instead of
+        // snapping to whichever part of the route happens to be nearest the raw fix
+        const streetGraph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph | undefined;
+        let routeMatch: { point: { x: number; y: number }; routeIndex: number } | null = null;
+        if (activeRoute && streetGraph) {
+          const { state, match } = matchFix(streetGraph, mapMatchStateRef.current, {
+            ...projectLatLng(shown.lat, shown.lng),
+            accuracy: shown.accuracy,
+            heading: shown.heading,
+            speed: shown.speed,
+            time: shown.timestamp ?? Date.now(),
+          });
+          mapMatchStateRef.current = state;
+          const routeIndex = match ? routeIndexOfMatch(activeRoute, match) : -1;
+          if (match && routeIndex >= 0 && match.confidence >= MIN_MATCH_CONFIDENCE) {
+            routeMatch = { point: match.point, routeIndex };
+          }
+        }
 
-        if (turnByTurnActive && activeRoute) {
+        // Update instruction if active (not while a new route is on its way - it says "Rerouting…" until then)
+        if (turnByTurnActive && activeRoute && !reroutingRef.current) {
 
           const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
-          const res = getNextInstruction(activeRoute, here, graph);
+          const res = getNextInstruction(activeRoute, here, graph, { routeIndex: routeMatch?.routeIndex, locale: directionsLocale });
 
           setCurrentInstruction(res.text);
 
@@ -1437,15 +1486,18 @@ export default function Page() {
 
 
 
-            // Find nearest SEGMENT (not just nearest point)
+            // Map-matched onto the route: on it, at the matched position
+            // Otherwise: find nearest SEGMENT (not just nearest point)
+
+            const trackedPos = routeMatch?.point ?? userSvgPos;
 
-            let bestSegIdx = 0;
+            let bestSegIdx = routeMatch?.routeIndex ?? 0;
 
-            let bestDistToSegment = Infinity;
+            let bestDistToSegment = routeMatch ? 0 : Infinity;
 
 
 
-            for (let i = 0; i < activeRoute.length - 1; i++) {
+            for (let i = 0; !routeMatch && i < activeRoute.length - 1; i++) {
 
               const a = activeRoute[i];
 
@@ -1509,9 +1561,9 @@ export default function Page() {
 
             const aby = b.y - a.y;
 
-            const apx = userSvgPos.x - a.x;
+            const apx = trackedPos.x - a.x;
 
-            const apy = userSvgPos.y - a.y;
+            const apy = trackedPos.y - a.y;
 
             const abLen2 = Math.max(1, abx * abx + aby * aby);
 
@@ -1540,46 +1592,38 @@ export default function Page() {
 
 
             // OFF-ROUTE DETECTION: Only active when turn-by-turn is enabled
-            // For walking, we allow some deviation but detect clear wrong turns
-
-            const OFF_ROUTE_THRESHOLD = 200; // meters - increased for demo with simulated locations
-
-            const distanceInMeters = bestDistToSegment * 0.1; // Approximate conversion from SVG units to meters
-
+            // The rerouting controller (lib/rerouting.ts) decides when the user has really
+            // left the route rather than drifted, and when to fetch a new route from here
 
+            // Metres per SVG unit around the user (measured northwards through the map projection)
+            const northSvg = projectLatLng(shown.lat + 0.001, shown.lng);
+            const metersPerUnit =
+              calculateDistance(here, { lat: shown.lat + 0.001, lng: shown.lng }) /
+              Math.max(1e-6, Math.hypot(northSvg.x - userSvgPos.x, northSvg.y - userSvgPos.y));
+            const distanceInMeters = bestDistToSegment * metersPerUnit;
 
             setDistanceFromRoute(distanceInMeters);
 
-
-
             // Only check off-route when turn-by-turn is active (not during preview)
             if (turnByTurnActive) {
-              if (distanceInMeters > OFF_ROUTE_THRESHOLD) {
-
-                if (!isOffRoute) {
-
-                  console.warn('⚠️ USER WENT OFF ROUTE! Distance:', distanceInMeters.toFixed(1) + 'm');
-
-                  setIsOffRoute(true);
-
-                }
-
-              } else {
-
-                if (isOffRoute) {
-
-                  console.log('✅ User back on route');
-
-                  setIsOffRoute(false);
-
-                }
+              const { state, reroute } = updateRerouteState(rerouteStateRef.current, {
+                distanceFromRoute: distanceInMeters,
+                heading: shown.heading,
+                routeBearing: (angleDeg + 90 + 360) % 360, // SVG angle (0 = east, y down) to compass bearing
+                time: Date.now(),
+              });
+              rerouteStateRef.current = state;
 
+              if (reroute && !reroutingRef.current) {
+                console.warn('⚠️ USER WENT OFF ROUTE - rerouting. Distance:', distanceInMeters.toFixed(1) + 'm');
+                rerouteStateRef.current = rerouteStarted(Date.now());
+                rerouteRef.current?.(here, bestSegIdx);
               }
+              setIsOffRoute(rerouteStateRef.current.offRoute);
             } else {
               // Clear off-route state when not in turn-by-turn mode
-              if (isOffRoute) {
-                setIsOffRoute(false);
-              }
+              rerouteStateRef.current = INITIAL_REROUTE_STATE;
+              setIsOffRoute(false);
             }
 
 
@@ -1610,6 +1654,20 @@ export default function Page() {
 
 
 
+            // Spoken guidance for the steps coming up (none while a new route is on its way)
+            if (turnByTurnActive && voicePlanRef.current && !reroutingRef.current) {
+              const { state, announcements } = dueAnnouncements(voicePlanRef.current, voiceStateRef.current, {
+                routeIndex: bestSegIdx,
+                fraction: t,
+              });
+              voiceStateRef.current = state;
+              const { muted, volume } = voiceSettingsRef.current;
+              const { locale } = voicePlanRef.current;
+              if (!muted) announcements.forEach((text) => speak(text, { volume, locale }));
+            }
+
+
+
             // Removed verbose logging for performance
 
           } catch (err) {
@@ -1644,7 +1702,34 @@ export default function Page() {
 
     return () => navigator.geolocation.clearWatch(watchId);
 
-  }, [activeRoute, projectLatLng, turnByTurnActive, simulateAtQvb, mockArrivedLocation]);
+  }, [activeRoute, projectLatLng, turnByTurnActive, simulateAtQvb, mockArrivedLocation, directionsLocale]);
+
+
+
+  // Plan spoken guidance afresh for each route (including reroutes) and each turn-by-turn session
+  useEffect(() => {
+    voicePlanRef.current = activeRoute
+      ? planVoiceGuidance(
+          activeRoute,
+          getAllDirections(activeRoute, routingGraph ?? undefined, activeRouteStops, directionsLocale),
+          directionsLocale
+        )
+      : null;
+    voiceStateRef.current = INITIAL_VOICE_STATE;
+  }, [activeRoute, activeRouteStops, routingGraph, turnByTurnActive, directionsLocale]);
+
+  useEffect(() => {
+    setDirectionsLocale(resolveDirectionsLocale(navigator.languages ?? [navigator.language]));
+  }, []);
+
+  useEffect(() => {
+    directionsLocaleRef.current = directionsLocale;
+  }, [directionsLocale]);
+
+  useEffect(() => {
+    voiceSettingsRef.current = { muted: voiceMuted, volume: voiceVolume };
+    if (voiceMuted || !turnByTurnActive) stopSpeaking();
+  }, [voiceMuted, voiceVolume, turnByTurnActive]);
 
 
 
@@ -1877,11 +1962,11 @@ export default function Page() {
     const here = userLocation ? { lat: userLocation.lat, lng: userLocation.lng } : undefined;
 
     const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
-    const msg = getNextInstruction(activeRoute, here, graph).text;
+    const msg = getNextInstruction(activeRoute, here, graph, { locale: directionsLocale }).text;
 
     setCurrentInstruction(msg);
 
-  }, [turnByTurnActive, activeRoute, userLocation]);
+  }, [turnByTurnActive, activeRoute, userLocation, directionsLocale]);
 
 
 
@@ -1895,7 +1980,7 @@ export default function Page() {
 
         console.log('📦 Loading navigation graph...');
 
-        const g = await buildPathNetwork();
+        const g = await requestRouting({ type: 'loadGraph' });
 
         (window as any).__SYD_GRAPH__ = g;
         setPathGraph(g);
@@ -1940,11 +2025,20 @@ export default function Page() {
 
     console.log('🧹 Clearing all navigation state');
 
+    journeyRef.current = null;
+    reroutingRef.current = false;
+    rerouteStateRef.current = INITIAL_REROUTE_STATE;
+    mapMatchStateRef.current = INITIAL_MATCH_STATE;
+
     setNavigationStart(null);
 
     setNavigationDestination(null);
 
     setActiveRoute(null);
+    setActiveRouteLegs(null);
+    setActiveRouteStops([]);
+    setRouteAlternatives([]);
+    setSelectedAlternative(0);
 
     setRemainingRoute(null);
 
@@ -2059,16 +2153,27 @@ export default function Page() {
 
    * Accepts Waypoint type (id, label, lat, lng) which is a subset of Business.
 
-   * Options: { startTurnByTurn?: boolean } - defaults to preview-only mode
+   * Options: { startTurnByTurn?: boolean, stops?: Waypoint[] } - defaults to preview-only mode
+   * with no intermediate stops
 
    */
 
   const startNavigation = async (
     start: { lat: number; lng: number; id?: string },
     destination: { lat: number; lng: number; id?: string },
-    options?: { startTurnByTurn?: boolean }
+    options?: {
+      startTurnByTurn?: boolean;
+      stops?: Array<{ lat: number; lng: number; id?: string; label?: string }>;
+      reroute?: boolean; // Replace the route being followed without resetting the view
+    }
   ) => {
 
+    journeyRef.current = { kind: 'outdoor', destination, stops: options?.stops ?? [] };
+    if (!options?.reroute) {
+      reroutingRef.current = false;
+      rerouteStateRef.current = INITIAL_REROUTE_STATE;
+    }
+
     // Don't clear mock arrival mode - let it persist during navigation
     // This keeps the user at their mock arrival location when navigating to next destination
 
@@ -2076,7 +2181,7 @@ export default function Page() {
 
     if (!(window as any).__SYD_GRAPH__) {
 
-      const g = await buildPathNetwork();
+      const g = await requestRouting({ type: 'loadGraph' });
 
       (window as any).__SYD_GRAPH__ = g;
 
@@ -2136,13 +2241,36 @@ export default function Page() {
 
     try {
 
-      const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
-
-
+      // Intermediate stops, visited in order between start and destination
+      const stops = options?.stops ?? [];
+      const stopInts: Intersection[] = stops.map((stop, idx) => {
+        const svg = projectLatLng(stop.lat, stop.lng);
+        return {
+          id: `nav-stop-${idx + 1}`,
+          name: stop.label ?? `Stop ${idx + 1}`,
+          x: svg.x,
+          y: svg.y,
+          lat: stop.lat,
+          lng: stop.lng
+        };
+      });
 
-      // Use diagnostics function for better debugging and fallback
-      // Pass Place IDs for pre-defined route matching
-      const diagnostics = findRouteWithDiagnostics(graph, startInt, endInt, start.id, destination.id);
+      // Route in the worker (with diagnostics and fallback) so the map keeps animating
+      // Pass Place IDs for pre-defined route matching; supersede any route still being computed
+      routeRequestRef.current?.abort();
+      const controller = new AbortController();
+      routeRequestRef.current = controller;
+      const { diagnostics, alternatives } = await requestRouting(
+        {
+          type: 'route',
+          stops: [startInt, ...stopInts, endInt],
+          placeIds: [start.id, ...stops.map((stop) => stop.id), destination.id],
+          profile: routingProfile,
+          closures: routeClosures,
+          alternatives: 3,
+        },
+        { signal: controller.signal }
+      );
 
       setPathfindingDiag(diagnostics);  // Store for debug overlay
 
@@ -2153,6 +2281,25 @@ export default function Page() {
         const route = diagnostics.route;
 
         setActiveRoute(route);
+        setActiveRouteLegs(diagnostics.legs);
+        setActiveRouteStops(diagnostics.stopIndices.map((routeIndex, idx) => ({ routeIndex, label: stops[idx].label })));
+
+        // Rerouted mid-journey: swap the route in place; the marker and camera carry on from where they are
+        if (options?.reroute) {
+          setRouteAlternatives([]);
+          setSelectedAlternative(0);
+          setRemainingRoute(route);
+          setRouteProgress(0);
+          reroutingRef.current = false;
+          const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
+          setCurrentInstruction(getNextInstruction(route, start, graph, { locale: directionsLocale }).text);
+          console.log('🔀 Rerouted:', route.length, 'nodes');
+          return;
+        }
+
+        // Alternatives (single-leg journeys only); the first is always the route above
+        setRouteAlternatives(alternatives);
+        setSelectedAlternative(0);
 
         setRemainingRoute(route);
 
@@ -2196,18 +2343,7 @@ export default function Page() {
 
         // Handle turn-by-turn activation if requested
         if (options?.startTurnByTurn) {
-          setTurnByTurnActive(true);
-          const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
-          const msg = getNextInstruction(route, userLocation ? { lat: userLocation.lat, lng: userLocation.lng } : undefined, graph).text;
-          setCurrentInstruction(msg);
-          // Set initial map rotation to current heading (Google Maps style)
-          const heading = userLocation?.heading ?? compassHeading ?? 0;
-          setMapRotation(heading);
-          // Recenter on user to start turn-by-turn experience with configured zoom
-          if (userLocation) {
-            setCenterOnPoint({ lat: userLocation.lat, lng: userLocation.lng, tick: Date.now(), targetScale: zoomConfig?.navigationStart ?? 3.5 });
-          }
-          console.log('🎯 Turn-by-turn navigation activated with rotation:', heading);
+          beginTurnByTurn(route);
         }
         // Preview mode: Just draw the route, no camera movement
 
@@ -2219,10 +2355,20 @@ export default function Page() {
 
     } catch (error) {
 
+      // Superseded by a newer navigation request
+      if (error instanceof Error && error.name === 'AbortError') return;
+
       console.error('❌ Pathfinding error:', error);
 
     }
 
+    // A failed reroute keeps the old route; the controller tries again once its rate limit allows
+    if (options?.reroute) {
+      console.warn('⚠️ Could not reroute from the current position');
+      reroutingRef.current = false;
+      return;
+    }
+
 
 
     // NO FALLBACK - Show error to user instead of drawing straight line
@@ -2250,7 +2396,89 @@ export default function Page() {
     setNavigationActive(false);
 
     setActiveRoute(null);
+    setActiveRouteLegs(null);
+    setActiveRouteStops([]);
+    setRouteAlternatives([]);
+
+  };
+
+
+
+  /**
+   * Switch on turn-by-turn guidance along a route that is already on the map
+   */
+  const beginTurnByTurn = (route: PathNode[]) => {
+    setTurnByTurnActive(true);
+    const graph = (window as any).__SYD_GRAPH__ as import('@/types').PathGraph;
+    const msg = getNextInstruction(route, userLocation ? { lat: userLocation.lat, lng: userLocation.lng } : undefined, graph, { locale: directionsLocale }).text;
+    setCurrentInstruction(msg);
+    // Set initial map rotation to current heading (Google Maps style)
+    const heading = userLocation?.heading ?? compassHeading ?? 0;
+    setMapRotation(heading);
+    // Recenter on user to start turn-by-turn experience with configured zoom
+    if (userLocation) {
+      setCenterOnPoint({ lat: userLocation.lat, lng: userLocation.lng, tick: Date.now(), targetScale: zoomConfig?.navigationStart ?? 3.5 });
+    }
+    console.log('🎯 Turn-by-turn navigation activated with rotation:', heading);
+  };
+
+  /**
+   * Start turn-by-turn along the previewed alternative the user picked
+   * Returns false when there is no previewed alternative for this journey,
+   * in which case the route has to be worked out afresh.
+   */
+  const startOnSelectedAlternative = (
+    destination: { lat: number; lng: number; id?: string },
+    stops: unknown[]
+  ): boolean => {
+    const alternative = routeAlternatives[selectedAlternative];
+    const journey = journeyRef.current;
+    if (!alternative || stops.length > 0 || journey?.kind !== 'outdoor' || journey.stops.length > 0) return false;
+    if (journey.destination.lat !== destination.lat || journey.destination.lng !== destination.lng) return false;
+
+    journeyRef.current = { kind: 'outdoor', destination, stops: [] };
+    reroutingRef.current = false;
+    rerouteStateRef.current = INITIAL_REROUTE_STATE;
+    setActiveRoute(alternative.route);
+    setRemainingRoute(alternative.route);
+    setRouteProgress(0);
+    beginTurnByTurn(alternative.route);
+    return true;
+  };
+
+  /**
+   * Reroute from the user's position to where the current journey is heading
+   * Called from the location watcher once the rerouting controller decides the
+   * user has left the route.
+   */
+  const rerouteFrom = (here: { lat: number; lng: number }, progressIndex: number) => {
+    const journey = journeyRef.current;
+    if (!journey) return;
+    reroutingRef.current = true;
+    setCurrentInstruction(DIRECTIONS_LOCALES[directionsLocale].phrases.rerouting);
+
+    if (journey.kind === 'hybrid') {
+      // Moving the start re-runs hybrid route detection, which asks the worker for a new route
+      setNavigationStart({ id: 'my-location', name: 'My location', category: 'Current Position', lat: here.lat, lng: here.lng });
+      return;
+    }
 
+    // Stops the user has already passed are dropped
+    const stops = journey.stops.filter((_, idx) => (activeRouteStops[idx]?.routeIndex ?? Infinity) > progressIndex);
+    startNavigation({ ...here, id: 'my-location' }, journey.destination, { stops, reroute: true });
+  };
+  rerouteRef.current = rerouteFrom;
+
+  /**
+   * Switch the previewed route to one of the alternatives
+   */
+  const selectRouteAlternative = (index: number) => {
+    const alternative = routeAlternatives[index];
+    if (!alternative) return;
+    setSelectedAlternative(index);
+    setActiveRoute(alternative.route);
+    setRemainingRoute(alternative.route);
+    setRouteProgress(0);
   };
 
 
@@ -2432,6 +2660,10 @@ export default function Page() {
           userLocation={userLocation ? { ...userLocation, heading: effectiveHeading } : undefined}
           onBusinessClick={handleBusinessClick}
           activeRoute={remainingRoute || activeRoute}
+          routeLegs={activeRouteLegs}
+          routeAlternatives={turnByTurnActive ? null : routeAlternatives.map((alternative) => alternative.route)}
+          selectedAlternative={selectedAlternative}
+          onSelectAlternative={selectRouteAlternative}
 
           onCenterOnUser={Boolean(centerOnUserTick)}
 
@@ -2456,6 +2688,7 @@ export default function Page() {
           indoorNavigationStart={indoorNavigationStart}
           indoorNavigationDestination={indoorNavigationDestination}
           indoorRoute={indoorRoute}
+          isochrones={indoorModeActive ? null : isochrones}
         />
       </div>
 
@@ -2493,6 +2726,56 @@ export default function Page() {
 
           </button>
 
+          <button
+
+            className={`rounded px-3 py-2 text-xs shadow ${reachMinutes ? 'bg-emerald-600 text-white border-emerald-700' : 'bg-white/90 hover:bg-white'}`}
+
+            onClick={() => {
+
+              if (!reachMinutes && !userLocation) {
+
+                alert('⚠️ Location not available. Please enable GPS.');
+
+                return;
+
+              }
+
+              setReachMinutes(reachMinutes ? null : 10);
+
+            }}
+
+          >
+
+            🚶 Reach
+
+          </button>
+
+          {reachMinutes && (
+            <div className="rounded bg-white/95 p-2 text-xs shadow space-y-1.5">
+              <div className="flex gap-1">
+                {ISOCHRONE_MINUTES.map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => setReachMinutes(m)}
+                    className={`rounded px-2 py-1 font-medium ${reachMinutes === m ? 'bg-emerald-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                  >
+                    {m} min
+                  </button>
+                ))}
+              </div>
+              <select
+                value={walkingSpeed}
+                onChange={(e) => setWalkingSpeed(e.target.value as WalkingSpeed)}
+                aria-label="Walking speed"
+                className="w-full rounded border border-gray-200 bg-white px-1.5 py-1 text-gray-700"
+              >
+                {(Object.keys(WALKING_SPEEDS) as WalkingSpeed[]).map((speed) => (
+                  <option key={speed} value={speed}>{WALKING_SPEEDS[speed].label} pace</option>
+                ))}
+              </select>
+            </div>
+          )}
+
           <button
 
             className="rounded bg-white/90 px-3 py-2 text-xs shadow hover:bg-white"
@@ -2649,6 +2932,24 @@ export default function Page() {
 
 
 
+        {/* Detour notice - the route passes close to an active closure */}
+        {detourClosures.length > 0 && !isOffRoute && (
+          <div className="absolute left-0 right-0 top-28 mx-auto w-full max-w-xl px-4 pointer-events-auto">
+            <div className="rounded-2xl bg-amber-50 shadow-md border border-amber-300 px-4 py-3 text-sm flex items-start gap-3 text-amber-900">
+              <Construction className="h-5 w-5 shrink-0 text-amber-600" />
+              <div className="flex-1">
+                <div className="font-semibold">Your route detours around {detourClosures.length === 1 ? 'a closure' : `${detourClosures.length} closures`}</div>
+                {detourClosures.map((closure) => (
+                  <div key={closure.id}>
+                    {closure.reason}
+                    {closure.kind === 'restricted' && ' (restricted access)'}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Turn-by-turn banner - positioned above navigation card */}
 
         {turnByTurnActive && currentInstruction && !isOffRoute && (
@@ -2657,7 +2958,31 @@ export default function Page() {
 
             <div className="rounded-2xl bg-white shadow-md border px-4 py-3 text-sm font-medium flex items-center justify-between gap-3">
 
-              <span>{currentInstruction}</span>
+              <span className="flex-1">{currentInstruction}</span>
+
+              {isSpeechAvailable() && (
+                <div className="flex items-center gap-2">
+                  {!voiceMuted && (
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      value={voiceVolume}
+                      onChange={(e) => setVoiceVolume(Number(e.target.value))}
+                      className="w-16"
+                      aria-label="Voice guidance volume"
+                    />
+                  )}
+                  <button
+                    className="rounded bg-gray-100 p-1"
+                    onClick={() => setVoiceMuted((muted) => !muted)}
+                    aria-label={voiceMuted ? 'Unmute voice guidance' : 'Mute voice guidance'}
+                  >
+                    {voiceMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+                  </button>
+                </div>
+              )}
 
               <button className="text-xs rounded bg-gray-100 px-2 py-1" onClick={() => { setTurnByTurnActive(false); setCurrentInstruction(''); }}>Stop</button>
 
@@ -2696,8 +3021,8 @@ export default function Page() {
 
               allPlaces={allPlaces}
               filteredPlaces={filteredPlaces}
-              deals={allDeals}
-              events={allEvents}
+              deals={reachableDeals}
+              events={reachableEvents}
               userLocation={userLocation}
               onSelectPlace={handleSearchSelectPlace}
 
@@ -2763,27 +3088,39 @@ export default function Page() {
 
             turnByTurnActive={turnByTurnActive}
 
-            onStartJourney={(start, destination) => {
+            onStartJourney={(start, destination, stops) => {
 
               // Use the canonical navigation handler
-              console.log('📍 onStartJourney called:', { start, destination });
+              console.log('📍 onStartJourney called:', { start, destination, stops });
 
-              startNavigation(start, destination);
+              startNavigation(start, destination, { stops });
 
             }}
 
-            onStartTurnByTurn={(start, destination) => {
+            onStartTurnByTurn={(start, destination, stops) => {
 
               // Start navigation with turn-by-turn enabled
-              console.log('🎯 onStartTurnByTurn called:', { start, destination });
+              console.log('🎯 onStartTurnByTurn called:', { start, destination, stops });
 
-              startNavigation(start, destination, { startTurnByTurn: true });
+              // Follow the previewed route the user chose rather than working out the best one again
+              if (startOnSelectedAlternative(destination, stops)) return;
+              startNavigation(start, destination, { startTurnByTurn: true, stops });
 
             }}
 
             activeRoute={activeRoute}
-
-            graph={pathGraph}
+            routeLegs={activeRouteLegs}
+            routeStops={activeRouteStops}
+            routeAlternatives={routeAlternatives}
+            selectedAlternative={selectedAlternative}
+            onSelectAlternative={selectRouteAlternative}
+            routingProfile={routingProfile}
+            onRoutingProfileChange={setRoutingProfile}
+
+            graph={routingGraph}
+
+            directionsLocale={directionsLocale}
+            onDirectionsLocaleChange={setDirectionsLocale}
 
             onMockArrival={handleMockArrival}
 
@@ -7,9 +7,10 @@ import type { Business, DeviceLocation } from '@/types';
 import MapControls from './MapControls';
 import type { PathNode } from '@/types';
 import { routeToSvgPath } from '@/lib/routeDrawer';
+import { calculateETA, formatDistance, routeDistanceMeters } from '@/lib/turnByTurn';
 import { SvgDebugWrapper } from '@/components/SvgDebugWrapper';
 import { CONTROL_POINTS, debugResiduals, getMapTransform, latLngToSvgUsingTransform } from '@/lib/mapCalibration';
-import { MAP_CONSTANTS, GPS_CORNERS } from '@/lib/mapConfig';
+import { MAP_CONSTANTS, GPS_CORNERS, OUTDOOR_MAP_SVG } from '@/lib/mapConfig';
 import FloorSelector from './FloorSelector';
 
 const MAP_PIN_SVG_COORD = MAP_CONSTANTS.INITIAL_CENTER; // Target SVG point to center on
@@ -28,6 +29,10 @@ interface Props {
   userLocation?: DeviceLocation;
   onBusinessClick?: (business: Business) => void;
   activeRoute?: PathNode[] | null;
+  routeLegs?: PathNode[][] | null; // Per-leg routes for multi-stop journeys (stop pins + leg labels)
+  routeAlternatives?: PathNode[][] | null; // Alternative routes; the selected one is also passed as activeRoute
+  selectedAlternative?: number;
+  onSelectAlternative?: (index: number) => void;
   onCenterOnUser?: boolean;
   onCenterOnPoint?: { lat: number; lng: number; tick: number; targetScale?: number } | null;
   smoothNavMarker?: { x: number; y: number; angleDeg: number } | null;
@@ -48,11 +53,18 @@ interface Props {
   indoorNavigationStart?: any; // Indoor navigation start POI
   indoorNavigationDestination?: any; // Indoor navigation destination POI
   indoorRoute?: Array<{x: number; y: number; floorId?: string}> | null; // Indoor navigation route with floor info
+  isochrones?: Array<{ minutes: number; polygon: Array<{ x: number; y: number }> }> | null; // Walking reach areas, smallest first
 }
 
+// Distinct looks for unselected alternative routes (the selected route is solid dark blue)
+const ALTERNATIVE_ROUTE_STYLES = [
+  { stroke: '#60a5fa', dash: '10 6' },
+  { stroke: '#6b7280', dash: '2 8' },
+];
+
 const FALLBACK_VIEWBOX = `${VIEWBOX.minX} ${VIEWBOX.minY} ${VIEWBOX.width} ${VIEWBOX.height}`;
 
-export default function CustomSydneyMap({ businesses, selectedBusiness, userLocation, onBusinessClick, activeRoute, onCenterOnUser, onCenterOnPoint, smoothNavMarker, navigationStart, navigationDestination, showGraphOverlay = false, debugTransformLogTick, zoomConfig, mapRotation = 0, turnByTurnActive: turnByTurnActiveProp = false, showPOIMarkers = false, indoorModeActive = false, buildingData, selectedFloorId, onExitIndoorMode, onFloorChange, onIndoorPOIClick, indoorNavigationStart, indoorNavigationDestination, indoorRoute }: Props) {
+export default function CustomSydneyMap({ businesses, selectedBusiness, userLocation, onBusinessClick, activeRoute, routeLegs, routeAlternatives, selectedAlternative = 0, onSelectAlternative, onCenterOnUser, onCenterOnPoint, smoothNavMarker, navigationStart, navigationDestination, showGraphOverlay = false, debugTransformLogTick, zoomConfig, mapRotation = 0, turnByTurnActive: turnByTurnActiveProp = false, showPOIMarkers = false, indoorModeActive = false, buildingData, selectedFloorId, onExitIndoorMode, onFloorChange, onIndoorPOIClick, indoorNavigationStart, indoorNavigationDestination, indoorRoute, isochrones }: Props) {
   const wrapperRef = useRef<HTMLDivElement | null>(null);
   const transformRef = useRef<ReactZoomPanPinchRef | null>(null);
   const [svgLoaded, setSvgLoaded] = useState<boolean>(false);
@@ -185,7 +197,7 @@ export default function CustomSydneyMap({ businesses, selectedBusiness, userLoca
     setSvgLoaded(false);
 
     // Determine which SVG to load based on indoor mode
-    let svgPath = '/maps/20251028SydneyMap-01.svg'; // Default outdoor map
+    let svgPath = OUTDOOR_MAP_SVG; // Default outdoor map
 
     if (indoorModeActive && buildingData && selectedFloorId) {
       const selectedFloor = buildingData.floors?.find((f: any) => f.id === selectedFloorId);
@@ -733,6 +745,24 @@ export default function CustomSydneyMap({ businesses, selectedBusiness, userLoca
                   </g>
                 )}
 
+                {/* Walking isochrones - largest first so the nearer bands stack darker */}
+                {isochrones && isochrones.length > 0 && (
+                  <g id="isochrones" pointerEvents="none">
+                    {[...isochrones].reverse().map((isochrone) => (
+                      <polygon
+                        key={isochrone.minutes}
+                        points={isochrone.polygon.map((p) => `${p.x},${p.y}`).join(' ')}
+                        fill="#10b981"
+                        fillOpacity={0.12}
+                        stroke="#059669"
+                        strokeWidth={1.5}
+                        strokeOpacity={0.6}
+                        strokeLinejoin="round"
+                      />
+                    ))}
+                  </g>
+                )}
+
                 {/* Business markers - Visible when filtering, otherwise invisible but clickable */}
                 <g>
                   {markers.map((m) => (
@@ -827,6 +857,24 @@ export default function CustomSydneyMap({ businesses, selectedBusiness, userLoca
                   );
                 })()}
 
+                {/* Unselected alternative routes - drawn under the active route, tap to select */}
+                {routeAlternatives && routeAlternatives.length > 1 && (
+                  <g>
+                    {routeAlternatives.map((route, idx) => {
+                      if (idx === selectedAlternative || route.length < 2) return null;
+                      const d = routeToSvgPath(route, (window as Window & { __SYD_GRAPH__?: import('@/types').PathGraph }).__SYD_GRAPH__);
+                      const style = ALTERNATIVE_ROUTE_STYLES[(idx - 1 + ALTERNATIVE_ROUTE_STYLES.length) % ALTERNATIVE_ROUTE_STYLES.length];
+                      return (
+                        <g key={`alt-${idx}`} onClick={() => onSelectAlternative?.(idx)} className="cursor-pointer" style={{ pointerEvents: 'auto' }}>
+                          {/* Wide transparent stroke makes the thin line easy to tap */}
+                          <path d={d} stroke="transparent" strokeWidth={20} fill="none" />
+                          <path d={d} stroke={style.stroke} strokeWidth={6} strokeDasharray={style.dash} fill="none" strokeLinejoin="round" strokeLinecap="round" opacity="0.85" />
+                        </g>
+                      );
+                    })}
+                  </g>
+                )}
+
                 {/* Active route overlay - draw BEFORE arrow so arrow is on top */}
                 {activeRoute && activeRoute.length >= 2 && (
                   <g>
@@ -904,6 +952,38 @@ export default function CustomSydneyMap({ businesses, selectedBusiness, userLoca
                   );
                 })()}
 
+                {/* Multi-stop journeys: leg distance/ETA labels and numbered stop pins */}
+                {routeLegs && routeLegs.length >= 2 && (
+                  <g pointerEvents="none">
+                    {routeLegs.map((leg, idx) => {
+                      if (leg.length < 2) return null;
+                      const mid = leg[Math.floor(leg.length / 2)];
+                      const meters = routeDistanceMeters(leg);
+                      const text = `${formatDistance(meters)} • ${calculateETA(meters)}`;
+                      const width = text.length * 5.5 + 12;
+                      return (
+                        <g key={`leg-${idx}`}>
+                          <rect x={mid.x - width / 2} y={mid.y - 22} width={width} height={14} rx={7} fill="#fff" stroke="#1e3a8a" strokeWidth={1} opacity="0.95" />
+                          <text x={mid.x} y={mid.y - 12} textAnchor="middle" fontSize={9} fontWeight={600} fill="#1e3a8a">
+                            {text}
+                          </text>
+                        </g>
+                      );
+                    })}
+                    {routeLegs.slice(0, -1).map((leg, idx) => {
+                      const stop = leg[leg.length - 1];
+                      return (
+                        <g key={`stop-${idx}`}>
+                          <circle cx={stop.x} cy={stop.y} r={8} fill="#d97706" stroke="#fff" strokeWidth={2} />
+                          <text x={stop.x} y={stop.y + 3} textAnchor="middle" fontSize={9} fontWeight={700} fill="#fff">
+                            {idx + 1}
+                          </text>
+                        </g>
+                      );
+                    })}
+                  </g>
+                )}
+
                 {/* User location */}
                 {userSvg && (() => {
                   const arrowX = smoothNavMarker?.x ?? userSvg.x;
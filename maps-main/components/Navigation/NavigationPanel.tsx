@@ -1,12 +1,26 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { Business, DeviceLocation, PathNode, PathGraph } from '@/types';
-import { ArrowUpDown, Navigation, Clock, ChevronUp, ChevronDown, CornerUpLeft, CornerUpRight, ArrowUp, MapPin, CheckCircle2 } from 'lucide-react';
-import { calculateDistance } from '@/lib/coordinateMapper';
-import { formatDistance, calculateETA, getAllDirections, type DirectionStep } from '@/lib/turnByTurn';
+import type { Business, DeviceLocation, PathNode, PathGraph, RouteStop } from '@/types';
+import { ArrowUpDown, Navigation, Clock, ChevronUp, ChevronDown, CornerUpLeft, CornerUpRight, ArrowUp, MapPin, CheckCircle2, Flag, GripVertical, Plus, X, Shuffle, Footprints, Accessibility, Baby, Download, Languages, ArrowUpLeft, ArrowUpRight, CornerLeftDown, CornerRightDown, Undo2, Split } from 'lucide-react';
+import { calculateDistance, gpsToSvg } from '@/lib/coordinateMapper';
+import { formatDistance, calculateETA, getAllDirections, routeDistanceMeters, type DirectionStep } from '@/lib/turnByTurn';
+import { exportRoute, pathRouteForExport, ROUTE_EXPORT_FORMATS, type RouteExportFormat } from '@/lib/routeExport';
+import { planItinerary, type ItineraryStop } from '@/lib/itinerary';
+import type { RouteAlternative } from '@/lib/pathfinding';
+import { ROUTING_PROFILES, type RoutingProfile } from '@/lib/routingProfiles';
+import { DEFAULT_DIRECTIONS_LOCALE, DIRECTIONS_LOCALES, type DirectionsLocale } from '@/lib/directionsLocale';
 import PredictiveSearch from '@/components/Search/PredictiveSearch';
 
+// Intermediate stops allowed between the start and the destination
+const MAX_STOPS = 5;
+
+const PROFILE_ICONS: Record<RoutingProfile, typeof Footprints> = {
+  default: Footprints,
+  'step-free': Accessibility,
+  pram: Baby,
+};
+
 interface Waypoint {
   id: string;
   label: string;
@@ -20,20 +34,29 @@ interface Props {
   defaultDestination?: Business | null;
   externalStart?: Business | null;
   externalDestination?: Business | null;
-  onStartJourney: (start: Waypoint, destination: Waypoint) => void;
+  onStartJourney: (start: Waypoint, destination: Waypoint, stops: Waypoint[]) => void;
   onClearNavigation?: () => void;
   title?: string;
   onSelectMyLocation?: () => void;
   onSelectStartPoint?: (point: Waypoint) => void;
-  onStartTurnByTurn?: (start: Waypoint, destination: Waypoint) => void;
+  onStartTurnByTurn?: (start: Waypoint, destination: Waypoint, stops: Waypoint[]) => void;
   navigationActive?: boolean;
   turnByTurnActive?: boolean;
   activeRoute?: PathNode[] | null;
+  routeLegs?: PathNode[][] | null; // One route per leg when the journey has intermediate stops
+  routeStops?: RouteStop[] | null; // Where each intermediate stop falls on activeRoute
+  routeAlternatives?: RouteAlternative[]; // Up to three routes to choose from (single-leg journeys)
+  selectedAlternative?: number;
+  onSelectAlternative?: (index: number) => void;
+  routingProfile?: RoutingProfile;
+  onRoutingProfileChange?: (profile: RoutingProfile) => void;
   graph?: PathGraph | null;
+  directionsLocale?: DirectionsLocale;
+  onDirectionsLocaleChange?: (locale: DirectionsLocale) => void;
   onMockArrival?: (destination: Waypoint) => void;
 }
 
-export default function NavigationPanel({ businesses, userLocation, defaultDestination, externalStart, externalDestination, onStartJourney, onClearNavigation, title = 'Engage ByDisrupt', onSelectMyLocation, onSelectStartPoint, onStartTurnByTurn, navigationActive = false, turnByTurnActive = false, activeRoute, graph, onMockArrival }: Props) {
+export default function NavigationPanel({ businesses, userLocation, defaultDestination, externalStart, externalDestination, onStartJourney, onClearNavigation, title = 'Engage ByDisrupt', onSelectMyLocation, onSelectStartPoint, onStartTurnByTurn, navigationActive = false, turnByTurnActive = false, activeRoute, routeLegs, routeStops, routeAlternatives = [], selectedAlternative = 0, onSelectAlternative, routingProfile = 'default', onRoutingProfileChange, graph, directionsLocale = DEFAULT_DIRECTIONS_LOCALE, onDirectionsLocaleChange, onMockArrival }: Props) {
   const options: Waypoint[] = useMemo(() => {
     const list: Waypoint[] = [];
     if (userLocation) {
@@ -47,6 +70,10 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
 
   const [startId, setStartId] = useState<string>(userLocation ? 'my-location' : '');
   const [destId, setDestId] = useState<string>(defaultDestination?.id ?? '');
+  // Intermediate stops in visiting order ('' while a stop has not been picked yet)
+  const [stopIds, setStopIds] = useState<string[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [optimiseError, setOptimiseError] = useState<string | null>(null);
 
   useEffect(() => {
     if (defaultDestination?.id) setDestId(defaultDestination.id);
@@ -67,24 +94,83 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
 
   const start = options.find((o) => o.id === startId);
   const dest = options.find((o) => o.id === destId);
+  const stops = useMemo(
+    () => stopIds.map((id) => options.find((o) => o.id === id)).filter((o): o is Waypoint => !!o),
+    [stopIds, options]
+  );
+  const stopKey = stops.map((s) => s.id).join(',');
+
+  // Per-leg walking distance, once a multi-stop route has been computed
+  const legDistances = useMemo(() => {
+    if (!routeLegs || routeLegs.length < 2) return null;
+    return routeLegs.map(routeDistanceMeters);
+  }, [routeLegs]);
 
   // Calculate distance and ETA when both points are selected
   const distanceMeters = useMemo(() => {
     if (!start || !dest) return null;
-    return calculateDistance(
-      { lat: start.lat, lng: start.lng },
-      { lat: dest.lat, lng: dest.lng }
-    );
-  }, [start, dest]);
+    if (legDistances) return legDistances.reduce((a, b) => a + b, 0);
+    if (routeAlternatives[selectedAlternative]) return routeAlternatives[selectedAlternative].distanceMeters;
+    // Straight-line estimate through each stop in turn
+    const points = [start, ...stops, dest];
+    let total = 0;
+    for (let i = 1; i < points.length; i++) {
+      total += calculateDistance(
+        { lat: points[i - 1].lat, lng: points[i - 1].lng },
+        { lat: points[i].lat, lng: points[i].lng }
+      );
+    }
+    return total;
+  }, [start, dest, stops, legDistances, routeAlternatives, selectedAlternative]);
 
   // Auto-start route when both points are selected
   useEffect(() => {
     if (start && dest) {
-      console.log('🗺️ Auto-starting route preview:', { start: start.label, dest: dest.label });
-      onStartJourney(start, dest);
+      console.log('🗺️ Auto-starting route preview:', { start: start.label, stops: stops.map((s) => s.label), dest: dest.label });
+      onStartJourney(start, dest, stops);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startId, destId]); // Only depend on the IDs to avoid re-triggering on function reference changes
+  }, [startId, destId, stopKey, routingProfile]); // Only depend on the IDs (and profile) to avoid re-triggering on function reference changes
+
+  const updateStop = (index: number, id: string) => {
+    setStopIds((ids) => ids.map((s, i) => (i === index ? id : s)));
+  };
+
+  const removeStop = (index: number) => {
+    setStopIds((ids) => ids.filter((_, i) => i !== index));
+  };
+
+  // Drag to reorder: move the dragged stop into the hovered slot as it passes over
+  const handleStopDragOver = (e: React.DragEvent, index: number) => {
+    e.preventDefault();
+    if (dragIndex === null || dragIndex === index) return;
+    setStopIds((ids) => {
+      const next = [...ids];
+      const [moved] = next.splice(dragIndex, 1);
+      next.splice(index, 0, moved);
+      return next;
+    });
+    setDragIndex(index);
+  };
+
+  // Reorder the stops for the shortest walk between the fixed start and destination
+  const handleOptimiseOrder = () => {
+    if (!start || !dest || !graph || stops.length < 2) return;
+
+    const toStop = (w: Waypoint): ItineraryStop => {
+      const svg = gpsToSvg(w.lat, w.lng);
+      return { id: w.id, name: w.label, x: svg.x, y: svg.y, lat: w.lat, lng: w.lng, placeId: w.id };
+    };
+
+    const plan = planItinerary(graph, toStop(start), stops.map(toStop), { end: toStop(dest), profile: routingProfile });
+    if (!plan) {
+      setOptimiseError('Could not find a walking route through every stop.');
+      return;
+    }
+
+    setOptimiseError(null);
+    setStopIds(plan.order.map((i) => stops[i].id));
+  };
 
   // If user picks My location as start, trigger recenter callback (only once)
   const lastCenteredStartId = useRef<string | null>(null);
@@ -111,8 +197,26 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
   // Compute all directions for the route
   const directions = useMemo(() => {
     if (!activeRoute || activeRoute.length < 2) return [];
-    return getAllDirections(activeRoute, graph ?? undefined);
-  }, [activeRoute, graph]);
+    return getAllDirections(activeRoute, graph ?? undefined, routeStops ?? [], directionsLocale);
+  }, [activeRoute, graph, routeStops, directionsLocale]);
+
+  // Download the route for tour guides' watch and GPS apps
+  const downloadRoute = (format: RouteExportFormat) => {
+    if (!activeRoute || activeRoute.length < 2) return;
+    const name = `${start?.label ?? 'Start'} to ${dest?.label ?? 'Destination'}`;
+    const file = exportRoute(pathRouteForExport(name, activeRoute, graph ?? undefined, routeStops ?? [], directionsLocale), format);
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    // Revoking straight away can cancel the download in Safari and Firefox
+    setTimeout(() => {
+      link.remove();
+      URL.revokeObjectURL(url);
+    }, 0);
+  };
 
   useEffect(() => {
     const el = contentRef.current;
@@ -123,7 +227,7 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
     const ro = new ResizeObserver(measure);
     ro.observe(el);
     return () => ro.disconnect();
-  }, [open, startId, destId, options.length, directionsExpanded]);
+  }, [open, startId, destId, stopIds.length, options.length, directionsExpanded]);
 
   const summaryText = useMemo(() => {
     const startLabel = start?.label ?? 'Start';
@@ -196,7 +300,7 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
                         type="button"
                         onClick={(e) => {
                           e.stopPropagation();
-                          onStartTurnByTurn(start, dest);
+                          onStartTurnByTurn(start, dest, stops);
                         }}
                         className="rounded-full bg-green-600 px-4 py-1.5 text-sm font-semibold text-white shadow hover:bg-green-700"
                       >
@@ -236,7 +340,7 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
                 <button
                   type="button"
                   aria-label="Swap start and destination"
-                  onClick={() => { if (startId && destId) { const s = startId; setStartId(destId); setDestId(s); } }}
+                  onClick={() => { if (startId && destId) { const s = startId; setStartId(destId); setDestId(s); setStopIds((ids) => [...ids].reverse()); } }}
                   className="rounded-full bg-white p-2 shadow"
                 >
                   <ArrowUpDown className="h-5 w-5" />
@@ -253,6 +357,63 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
             label="Start point"
           />
 
+          {/* Intermediate stops - drag the handle to reorder */}
+          {stopIds.map((stopId, idx) => (
+            <div
+              key={idx}
+              draggable
+              onDragStart={() => setDragIndex(idx)}
+              onDragOver={(e) => handleStopDragOver(e, idx)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-end gap-2 ${dragIndex === idx ? 'opacity-50' : ''}`}
+            >
+              <div className="mb-3 cursor-grab text-gray-400" aria-label={`Drag to reorder stop ${idx + 1}`}>
+                <GripVertical className="h-5 w-5" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <PredictiveSearch
+                  options={options}
+                  value={stopId}
+                  onChange={(id) => updateStop(idx, id)}
+                  placeholder="Search for a stop..."
+                  label={`Stop ${idx + 1}`}
+                />
+              </div>
+              <button
+                type="button"
+                aria-label={`Remove stop ${idx + 1}`}
+                onClick={() => removeStop(idx)}
+                className="mb-2 rounded-full p-1.5 text-gray-500 hover:bg-gray-100"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-4">
+            {stopIds.length < MAX_STOPS && (
+              <button
+                type="button"
+                onClick={() => setStopIds((ids) => [...ids, ''])}
+                className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="h-4 w-4" />
+                Add stop
+              </button>
+            )}
+            {stops.length >= 2 && start && dest && graph && (
+              <button
+                type="button"
+                onClick={handleOptimiseOrder}
+                className="inline-flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+              >
+                <Shuffle className="h-4 w-4" />
+                Optimise order
+              </button>
+            )}
+          </div>
+          {optimiseError && <p className="text-sm text-red-600">{optimiseError}</p>}
+
           <PredictiveSearch
             options={options.filter((o) => o.id !== startId)}
             value={destId}
@@ -261,6 +422,30 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
             label="Destination"
           />
 
+          {/* Routing profile: step-free and pram-friendly routes avoid steps */}
+          {onRoutingProfileChange && (
+            <div role="radiogroup" aria-label="Route type" className="grid grid-cols-3 gap-1 rounded-xl bg-gray-100 p-1">
+              {(Object.keys(ROUTING_PROFILES) as RoutingProfile[]).map((profile) => {
+                const Icon = PROFILE_ICONS[profile];
+                const selected = profile === routingProfile;
+                return (
+                  <button
+                    key={profile}
+                    type="button"
+                    role="radio"
+                    aria-checked={selected}
+                    title={ROUTING_PROFILES[profile].description}
+                    onClick={() => onRoutingProfileChange(profile)}
+                    className={`inline-flex items-center justify-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium transition-colors ${selected ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'}`}
+                  >
+                    <Icon className="h-4 w-4" />
+                    {ROUTING_PROFILES[profile].label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
           {/* Distance and ETA Display with Expandable Directions */}
           {distanceMeters !== null && start && dest && (
             <div className="rounded-2xl bg-gradient-to-r from-blue-50 to-indigo-50 border border-blue-200 overflow-hidden">
@@ -297,9 +482,98 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
                 </div>
               </button>
 
+              {/* Per-leg breakdown for multi-stop journeys */}
+              {legDistances && (
+                <div className="border-t border-blue-200 px-5 py-3 space-y-1.5">
+                  {legDistances.map((meters, idx) => {
+                    const points = [start, ...stops, dest];
+                    return (
+                      <div key={idx} className="flex items-center justify-between gap-3 text-sm">
+                        <span className="min-w-0 truncate text-gray-700">
+                          <span className="font-medium text-gray-900">Leg {idx + 1}</span>
+                          {points[idx + 1] && ` · to ${points[idx + 1].label}`}
+                        </span>
+                        <span className="shrink-0 text-gray-600">
+                          {formatDistance(meters)} • {calculateETA(meters)}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Alternative routes - pick one to preview it */}
+              {routeAlternatives.length > 1 && (
+                <div className="border-t border-blue-200 px-4 py-3 space-y-2">
+                  {routeAlternatives.map((alternative, idx) => {
+                    const selected = idx === selectedAlternative;
+                    return (
+                      <button
+                        key={idx}
+                        type="button"
+                        onClick={() => onSelectAlternative?.(idx)}
+                        className={`w-full rounded-xl border px-3 py-2 text-left transition-colors ${selected ? 'border-blue-600 bg-white ring-1 ring-blue-600' : 'border-blue-100 bg-white/60 hover:bg-white'}`}
+                      >
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="text-sm font-semibold text-gray-900">
+                            {idx === 0 ? 'Best route' : `Alternative ${idx}`}
+                          </span>
+                          <span className="shrink-0 text-sm text-gray-600">
+                            {formatDistance(alternative.distanceMeters)} • {calculateETA(alternative.distanceMeters)}
+                          </span>
+                        </div>
+                        {alternative.streets.length > 0 && (
+                          <p className="mt-0.5 truncate text-xs text-gray-500">via {alternative.streets.join(', ')}</p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Route export */}
+              {activeRoute && activeRoute.length >= 2 && (
+                <div className="flex items-center justify-between gap-3 border-t border-blue-200 px-5 py-2.5">
+                  <span className="flex items-center gap-1.5 text-xs font-medium text-gray-600">
+                    <Download className="h-3.5 w-3.5" />
+                    Export route
+                  </span>
+                  <div className="flex gap-1.5">
+                    {(Object.keys(ROUTE_EXPORT_FORMATS) as RouteExportFormat[]).map((format) => (
+                      <button
+                        key={format}
+                        type="button"
+                        onClick={() => downloadRoute(format)}
+                        className="rounded-lg border border-blue-200 bg-white px-2.5 py-1 text-xs font-semibold text-blue-700 hover:bg-blue-50"
+                      >
+                        {ROUTE_EXPORT_FORMATS[format].label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Expandable directions list */}
               {directionsExpanded && directions.length > 0 && (
                 <div className="border-t border-blue-200 px-4 py-3 max-h-64 overflow-y-auto">
+                  {/* Directions language, for visitors reading (or listening) in their own */}
+                  {onDirectionsLocaleChange && (
+                    <div className="mb-3 flex items-center justify-end gap-1.5 text-xs text-gray-600">
+                      <Languages className="h-3.5 w-3.5" />
+                      <select
+                        value={directionsLocale}
+                        onChange={(e) => onDirectionsLocaleChange(e.target.value as DirectionsLocale)}
+                        className="rounded-lg border border-blue-200 bg-white px-2 py-1 text-xs font-medium text-gray-700"
+                        aria-label="Directions language"
+                      >
+                        {(Object.keys(DIRECTIONS_LOCALES) as DirectionsLocale[]).map((locale) => (
+                          <option key={locale} value={locale}>
+                            {DIRECTIONS_LOCALES[locale].label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                   <div className="space-y-3">
                     {directions.map((step, idx) => {
                       const getTurnIcon = (turnType: DirectionStep['turnType']) => {
@@ -308,6 +582,23 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
                             return <CornerUpLeft className="h-4 w-4 text-blue-600" />;
                           case 'right':
                             return <CornerUpRight className="h-4 w-4 text-blue-600" />;
+                          case 'slight-left':
+                            return <ArrowUpLeft className="h-4 w-4 text-blue-600" />;
+                          case 'slight-right':
+                            return <ArrowUpRight className="h-4 w-4 text-blue-600" />;
+                          case 'sharp-left':
+                            return <CornerLeftDown className="h-4 w-4 text-blue-600" />;
+                          case 'sharp-right':
+                            return <CornerRightDown className="h-4 w-4 text-blue-600" />;
+                          case 'uturn':
+                            return <Undo2 className="h-4 w-4 text-blue-600" />;
+                          case 'keep-left':
+                          case 'keep-right':
+                            return <Split className="h-4 w-4 text-blue-600" />;
+                          case 'cross':
+                            return <Footprints className="h-4 w-4 text-blue-600" />;
+                          case 'waypoint':
+                            return <Flag className="h-4 w-4 text-amber-600" />;
                           case 'arrive':
                             return <MapPin className="h-4 w-4 text-green-600" />;
                           default:
@@ -320,13 +611,13 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
                           key={idx}
                           className={`flex items-start gap-3 ${idx === directions.length - 1 ? '' : 'pb-3 border-b border-blue-100'}`}
                         >
-                          <div className={`mt-0.5 rounded-full p-1.5 ${step.turnType === 'arrive' ? 'bg-green-100' : 'bg-blue-100'}`}>
+                          <div className={`mt-0.5 rounded-full p-1.5 ${step.turnType === 'arrive' ? 'bg-green-100' : step.turnType === 'waypoint' ? 'bg-amber-100' : 'bg-blue-100'}`}>
                             {getTurnIcon(step.turnType)}
                           </div>
                           <div className="flex-1 min-w-0">
                             <p className="text-sm font-medium text-gray-900">{step.instruction}</p>
                             {step.distance > 0 && (
-                              <p className="text-xs text-gray-500 mt-0.5">{formatDistance(step.distance)}</p>
+                              <p className="text-xs text-gray-500 mt-0.5">{formatDistance(step.distance, directionsLocale)}</p>
                             )}
                           </div>
                         </div>
@@ -341,7 +632,7 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
           <div className="mt-1 flex gap-3">
             <button
               disabled={!start || !dest}
-              onClick={() => start && dest && onStartJourney(start, dest)}
+              onClick={() => start && dest && onStartJourney(start, dest, stops)}
               className="flex-1 inline-flex items-center justify-center gap-2 rounded-2xl bg-blue-600 px-5 py-3 text-base font-semibold text-white shadow hover:bg-blue-700 disabled:opacity-50"
             >
               <Navigation className="h-5 w-5" />
@@ -349,7 +640,7 @@ export default function NavigationPanel({ businesses, userLocation, defaultDesti
             </button>
             {(startId || destId) && onClearNavigation && (
               <button
-                onClick={onClearNavigation}
+                onClick={() => { setStopIds([]); onClearNavigation(); }}
                 className="px-4 py-3 rounded-2xl border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
               >
                 Clear
@@ -0,0 +1,21 @@
+/**
+ * Shared helpers for admin user management
+ */
+
+export const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+/**
+ * Fields that are safe to send to the client.
+ * Never expose password hashes or invite tokens.
+ */
+export const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  role: true,
+  isActive: true,
+  inviteExpiresAt: true,
+  lockedUntil: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
@@ -0,0 +1,131 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { AdminSession } from "@/lib/auth";
+
+/**
+ * Audit trail of admin changes
+ * Every mutation under app/api/admin records who changed which entity and a
+ * field-level before/after diff. Sign-ins are tracked separately in
+ * login_attempts (see lib/loginThrottle.ts).
+ */
+
+export const AUDIT_ENTITY_LABELS = {
+  place: "Place",
+  deal: "Deal",
+  event: "Event",
+  building: "Building",
+  floor: "Floor",
+  entrance: "Entrance",
+  connectionPoint: "Connection point",
+  indoorPoi: "Indoor POI",
+  closure: "Route closure",
+  feedback: "Feedback",
+  upload: "Upload",
+  mapSettings: "Map settings",
+  securitySettings: "Security settings",
+  adminUser: "Admin user",
+  account: "Account",
+} as const;
+
+export type AuditEntity = keyof typeof AUDIT_ENTITY_LABELS;
+
+// delete moves content to the trash; purge removes it for good (see lib/trash.ts)
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export type AuditChanges = Record<string, { before?: unknown; after?: unknown }>;
+
+// Bookkeeping fields that change on every write and add nothing to the diff
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+/**
+ * Convert a record to plain JSON values (dates become ISO strings).
+ * Included relations (nested objects and arrays of objects) are dropped so
+ * only the record's own columns are compared.
+ */
+function toJson(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object") return {};
+
+  const json: Record<string, unknown> = JSON.parse(JSON.stringify(value));
+  for (const [key, field] of Object.entries(json)) {
+    const isRelation = Array.isArray(field)
+      ? field.some((item) => item !== null && typeof item === "object")
+      : field !== null && typeof field === "object";
+    if (isRelation) delete json[key];
+  }
+  return json;
+}
+
+/**
+ * Field-level diff between two versions of a record.
+ * Creates only have `after` values and deletes only `before` values.
+ */
+export function diffRecords(before: unknown, after: unknown): AuditChanges {
+  const a = toJson(before);
+  const b = toJson(after);
+  const changes: AuditChanges = {};
+
+  for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (IGNORED_FIELDS.has(key)) continue;
+
+    const beforeValue = a[key];
+    const afterValue = b[key];
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue;
+
+    changes[key] = {
+      ...(before ? { before: beforeValue ?? null } : {}),
+      ...(after ? { after: afterValue ?? null } : {}),
+    };
+  }
+
+  return changes;
+}
+
+/**
+ * Pick a human-readable name for the entity so deleted rows stay recognisable
+ */
+function labelFor(record: unknown): string | null {
+  const r = toJson(record);
+  const label = r.name ?? r.title ?? r.email ?? r.filename;
+  return typeof label === "string" ? label : null;
+}
+
+/**
+ * Record a change made by an admin.
+ * Updates that change nothing are skipped. A failure to write the log is
+ * reported but does not fail the request, since the change itself has
+ * already been saved.
+ */
+export async function recordAudit(
+  actor: Pick<AdminSession, "userId" | "email">,
+  entry: {
+    entity: AuditEntity;
+    entityId: string | number;
+    action: AuditAction;
+    before?: unknown;
+    after?: unknown;
+    // Defaults to the record's name, title or email
+    label?: string;
+  }
+) {
+  const changes = diffRecords(entry.before, entry.after);
+
+  if (entry.action === "update" && Object.keys(changes).length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.auditLog.create({
+      data: {
+        userId: actor.userId,
+        userEmail: actor.email,
+        entity: entry.entity,
+        entityId: String(entry.entityId),
+        entityLabel: entry.label ?? labelFor(entry.after ?? entry.before),
+        action: entry.action,
+        changes: changes as Prisma.InputJsonObject,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to write audit log:", error);
+  }
+}
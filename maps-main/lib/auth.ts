@@ -1,28 +1,45 @@
-import { cookies } from "next/headers";
+import { cookies, headers } from "next/headers";
+import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import bcrypt from "bcryptjs";
 import { cleanupExpiredSessions } from "@/lib/sessionCleanup";
+import { can, type Permission } from "@/lib/permissions";
 
 /**
  * Database-backed session store
  * Works seamlessly on serverless (Vercel) and local environments
  */
 
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const MIN_PASSWORD_LENGTH = 8;
+
 /**
  * Generate a random session token
  */
-function generateToken(): string {
+export function generateToken(): string {
   return Array.from(crypto.getRandomValues(new Uint8Array(32)))
     .map((b) => b.toString(16).padStart(2, "0"))
     .join("");
 }
 
+/**
+ * Best-effort client IP for the current request (first x-forwarded-for hop)
+ */
+export function getClientIp(): string | null {
+  return headers().get("x-forwarded-for")?.split(",")[0].trim() || null;
+}
+
 /**
  * Create a new session for a user
  */
 export async function createSession(userId: string, email: string) {
   const token = generateToken();
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  // Record where the session came from so it can be recognised in the session list
+  const requestHeaders = headers();
+  const userAgent = requestHeaders.get("user-agent");
+  const ipAddress = getClientIp();
 
   // Store session in database
   await prisma.session.create({
@@ -30,6 +47,8 @@ export async function createSession(userId: string, email: string) {
       userId,
       token,
       expiresAt,
+      userAgent,
+      ipAddress,
     },
   });
 
@@ -79,13 +98,61 @@ export async function getSession() {
     return null;
   }
 
+  // Deactivated accounts lose access immediately
+  if (!session.user.isActive) {
+    return null;
+  }
+
   return {
+    sessionId: session.id,
     userId: session.userId,
     email: session.user.email,
+    role: session.user.role,
     expiresAt: session.expiresAt.getTime(),
   };
 }
 
+export type AdminSession = NonNullable<Awaited<ReturnType<typeof getSession>>>;
+
+type AdminGuardResult =
+  | { session: AdminSession; response?: undefined }
+  | { session?: undefined; response: NextResponse };
+
+/**
+ * Guard for admin API routes.
+ * Validates the admin_session cookie against the Session table and, when a
+ * permission is given, checks it against the user's role. Returns either the
+ * session or a ready-made 401/403 JSON response:
+ *
+ *   const { session, response } = await requireAdmin("places:write");
+ *   if (response) return response;
+ */
+export async function requireAdmin(
+  permission?: Permission
+): Promise<AdminGuardResult> {
+  const session = await getSession();
+
+  if (!session) {
+    return {
+      response: NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (permission && !can(session.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { error: "You do not have permission to perform this action" },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { session };
+}
+
 /**
  * Delete the current session (logout)
  */
@@ -110,7 +177,8 @@ export async function verifyCredentials(email: string, password: string) {
     where: { email },
   });
 
-  if (!user) {
+  // Deactivated users and invites that were never accepted cannot sign in
+  if (!user || !user.isActive || user.inviteToken) {
     return null;
   }
 
@@ -120,7 +188,12 @@ export async function verifyCredentials(email: string, password: string) {
     return null;
   }
 
-  return { id: user.id, email: user.email, role: user.role };
+  return {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    twoFactorEnabled: user.totpEnabledAt !== null,
+  };
 }
 
 /**
@@ -130,3 +203,97 @@ export async function isAuthenticated() {
   const session = await getSession();
   return session !== null;
 }
+
+/**
+ * Validate a new password, returning an error message or null
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string) {
+  return bcrypt.hash(password, 10);
+}
+
+/**
+ * Check a signed-in user's password before a sensitive change
+ */
+export async function verifyPassword(userId: string, password: string) {
+  const user = await prisma.adminUser.findUnique({
+    where: { id: userId },
+  });
+
+  return !!user && (await bcrypt.compare(password, user.passwordHash));
+}
+
+/**
+ * Change a user's password after checking the current one.
+ * All of the user's other sessions are revoked.
+ */
+export async function changePassword(
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  currentSessionId: string
+) {
+  if (!(await verifyPassword(userId, currentPassword))) {
+    return false;
+  }
+
+  await prisma.adminUser.update({
+    where: { id: userId },
+    data: { passwordHash: await hashPassword(newPassword) },
+  });
+
+  await prisma.session.deleteMany({
+    where: { userId, id: { not: currentSessionId } },
+  });
+
+  return true;
+}
+
+/**
+ * List a user's active sessions, newest first
+ */
+export async function listSessions(userId: string) {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      createdAt: true,
+      expiresAt: true,
+      userAgent: true,
+      ipAddress: true,
+    },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Revoke one of a user's sessions
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+  const result = await prisma.session.deleteMany({
+    where: { id: sessionId, userId },
+  });
+  return result.count > 0;
+}
+
+/**
+ * Revoke every session for a user (sign out everywhere)
+ */
+export async function revokeAllSessions(userId: string) {
+  const result = await prisma.session.deleteMany({
+    where: { userId },
+  });
+  return result.count;
+}
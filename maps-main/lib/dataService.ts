@@ -1,5 +1,6 @@
 import { prisma } from "@/lib/prisma";
 import type { Business } from "@/types";
+import type { ClosureKind, RouteClosure } from "@/lib/routeClosures";
 
 /**
  * Data Service Layer
@@ -12,6 +13,7 @@ export async function getPlaces(): Promise<Business[]> {
   const places = await prisma.place.findMany({
     where: {
       isLive: true,
+      deletedAt: null,
     },
     include: {
       Building: {
@@ -78,9 +80,14 @@ export async function getDeals(): Promise<Deal[]> {
   const deals = await prisma.deal.findMany({
     where: {
       isLive: true,
+      deletedAt: null,
       endsAt: {
         gte: now,
       },
+      // Hide deals at places that are in the trash
+      Place: {
+        deletedAt: null,
+      },
     },
     include: {
       Place: {
@@ -113,9 +120,12 @@ export async function getEvents(): Promise<Event[]> {
   const events = await prisma.event.findMany({
     where: {
       isLive: true,
+      deletedAt: null,
       endsAt: {
         gte: now,
       },
+      // Events without a place are always shown; others need a live place
+      OR: [{ placeId: null }, { Place: { deletedAt: null } }],
     },
     include: {
       Place: {
@@ -142,3 +152,34 @@ export async function getEvents(): Promise<Event[]> {
     isLive: e.isLive,
   }));
 }
+
+/**
+ * Published route closures that have not ended yet.
+ * Upcoming closures are included so clients can start avoiding them as soon
+ * as they begin; see isClosureActive.
+ */
+export async function getRouteClosures(): Promise<RouteClosure[]> {
+  const closures = await prisma.routeClosure.findMany({
+    where: {
+      isLive: true,
+      endsAt: {
+        gte: new Date(),
+      },
+    },
+    orderBy: {
+      startsAt: "asc",
+    },
+  });
+
+  return closures.map((c) => ({
+    id: c.id,
+    reason: c.reason,
+    description: c.description,
+    kind: c.kind as ClosureKind,
+    floorId: c.floorId,
+    points: c.points as RouteClosure["points"],
+    radius: c.radius,
+    startsAt: c.startsAt,
+    endsAt: c.endsAt,
+  }));
+}
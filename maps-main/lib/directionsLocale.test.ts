@@ -0,0 +1,51 @@
+// @ts-nocheck - Test file without test framework types configured
+import {
+  describeManeuver,
+  describeNow,
+  describeUpcoming,
+  DIRECTIONS_LOCALES,
+  formatLocalizedDistance,
+  resolveDirectionsLocale,
+} from './directionsLocale';
+
+test('every language covers every template English has', () => {
+  const english = Object.keys(DIRECTIONS_LOCALES.en.templates).sort();
+  for (const data of Object.values(DIRECTIONS_LOCALES)) {
+    expect(Object.keys(data.templates).sort()).toEqual(english);
+  }
+});
+
+test('picks the template for the details a manoeuvre has', () => {
+  expect(describeManeuver({ type: 'turn', direction: 'left' })).toBe('Turn left');
+  expect(describeManeuver({ type: 'turn', direction: 'left', street: 'King Street' })).toBe('Turn left onto King Street');
+  expect(describeManeuver({ type: 'depart', direction: 'north', street: 'George Street', distance: 120 })).toBe(
+    'Head north on George Street for 120m'
+  );
+  expect(describeManeuver({ type: 'depart', direction: 'west', landmark: 'QVB' })).toBe('Exit QVB and head west');
+  expect(describeManeuver({ type: 'resume', direction: 'south', stop: 2 })).toBe('Continue to stop 2, heading south');
+  expect(describeManeuver({ type: 'arrived', landmark: '' })).toBe('You have arrived');
+});
+
+test('localises directions, turns and distances', () => {
+  expect(describeManeuver({ type: 'turn', direction: 'right', street: 'King Street' }, 'zh-Hans')).toBe('右转进入King Street');
+  expect(describeManeuver({ type: 'depart', direction: 'northeast', street: 'George Street' }, 'ja')).toBe('George Streetを北東に進みます');
+  expect(describeManeuver({ type: 'depart', direction: 'south', distance: 1500 }, 'es')).toBe('Diríjase al sur durante 1,5 km');
+  expect(formatLocalizedDistance(1234, 'en')).toBe('1.2km');
+  expect(formatLocalizedDistance(50, 'ko', 'spoken')).toBe('50미터');
+});
+
+test('spoken prompts', () => {
+  expect(describeUpcoming({ type: 'turn', direction: 'left', street: 'King Street' }, 50)).toBe(
+    'In 50 metres, turn left onto King Street'
+  );
+  expect(describeUpcoming({ type: 'turn', direction: 'left' }, 30, 'ja')).toBe('30メートル先、左に曲がります');
+  expect(describeNow({ type: 'turn', direction: 'right', street: 'King Street' }, 'ko')).toBe('지금 오른쪽으로 도세요');
+  expect(describeNow({ type: 'arrive', landmark: 'QVB' })).toBe('Arrive at QVB');
+});
+
+test('resolves browser languages to a supported locale', () => {
+  expect(resolveDirectionsLocale(['es-MX', 'en'])).toBe('es');
+  expect(resolveDirectionsLocale(['zh-CN'])).toBe('zh-Hans');
+  expect(resolveDirectionsLocale(['zh-TW', 'ja-JP'])).toBe('ja');
+  expect(resolveDirectionsLocale(['fr-FR'])).toBe('en');
+});
@@ -0,0 +1,401 @@
+import type { CardinalDirection, Maneuver } from '@/lib/turnByTurn';
+
+/**
+ * Localised turn-by-turn text
+ * Directions are generated as structured manoeuvres (lib/turnByTurn.ts) and
+ * only turned into words here. Each language has a template per manoeuvre
+ * type and combination of the details it has: "turn" is used for a turn with
+ * no street name, "turn+street" for one onto a named street. Details are
+ * added to the key in the order landmark, street, distance, stop; a template
+ * missing for the full combination falls back to one with fewer details.
+ * Street and place names are left as they are.
+ */
+
+export type DirectionsLocale = 'en' | 'zh-Hans' | 'ja' | 'ko' | 'es';
+
+interface LocaleData {
+  label: string; // In the language itself, for language pickers
+  speechLang: string; // BCP 47 tag for the Web Speech API
+  numberLocale: string; // For Intl.NumberFormat
+  cardinals: Record<CardinalDirection, string>;
+  turns: Record<'left' | 'right', string>;
+  units: { m: string; km: string; spokenM: string; spokenKm: string }; // `{n}` is the number
+  templates: Record<string, string>;
+  phrases: { prepare: string; turnNow: string; rerouting: string }; // Spoken guidance (lib/voiceGuidance.ts) and banner status
+}
+
+export const DIRECTIONS_LOCALES: Record<DirectionsLocale, LocaleData> = {
+  en: {
+    label: 'English',
+    speechLang: 'en-AU',
+    numberLocale: 'en-AU',
+    cardinals: {
+      north: 'north', northeast: 'northeast', east: 'east', southeast: 'southeast',
+      south: 'south', southwest: 'southwest', west: 'west', northwest: 'northwest',
+    },
+    turns: { left: 'left', right: 'right' },
+    units: { m: '{n}m', km: '{n}km', spokenM: '{n} metres', spokenKm: '{n} kilometres' },
+    templates: {
+      depart: 'Head {direction}',
+      'depart+street': 'Head {direction} on {street}',
+      'depart+distance': 'Head {direction} for {distance}',
+      'depart+street+distance': 'Head {direction} on {street} for {distance}',
+      'depart+landmark': 'Exit {landmark} and head {direction}',
+      'depart+landmark+street': 'Exit {landmark} and head {direction} on {street}',
+      turn: 'Turn {direction}',
+      'turn+street': 'Turn {direction} onto {street}',
+      'slight-turn': 'Slight {direction}',
+      'slight-turn+street': 'Slight {direction} onto {street}',
+      'sharp-turn': 'Sharp {direction}',
+      'sharp-turn+street': 'Sharp {direction} onto {street}',
+      uturn: 'Make a U-turn',
+      'uturn+street': 'Make a U-turn onto {street}',
+      keep: 'Keep {direction}',
+      'keep+street': 'Keep {direction} onto {street}',
+      cross: 'Cross the street',
+      'cross+street': 'Cross {street}',
+      continue: 'Continue straight',
+      'continue+street': 'Continue onto {street}',
+      straight: 'Continue straight',
+      'straight+street': 'Continue on {street}',
+      'waypoint+stop': 'Arrive at stop {stop}',
+      'waypoint+landmark+stop': 'Arrive at stop {stop}: {landmark}',
+      resume: 'Continue to destination, heading {direction}',
+      'resume+street': 'Continue to destination, heading {direction} on {street}',
+      'resume+stop': 'Continue to stop {stop}, heading {direction}',
+      'resume+street+stop': 'Continue to stop {stop}, heading {direction} on {street}',
+      approach: 'Approaching destination',
+      'approach+landmark': 'Approaching {landmark}',
+      arrive: 'Arrive at destination',
+      'arrive+landmark': 'Arrive at {landmark}',
+      arrived: 'You have arrived',
+      'arrived+landmark': 'You have arrived at {landmark}',
+      enter: 'Enter the building',
+      'enter+landmark': 'Enter {landmark}',
+      exit: 'Exit the building',
+      'exit+landmark': 'Exit {landmark}',
+      'change-floor': 'Take the stairs or lift to the next floor',
+      'change-floor+landmark': 'Take the stairs or lift to {landmark}',
+      'follow-floor': 'Follow the route on this floor',
+      'follow-floor+landmark': 'Follow the route on {landmark}',
+    },
+    phrases: { prepare: 'In {distance}, {instruction}', turnNow: 'Turn {direction} now', rerouting: 'Rerouting…' },
+  },
+  'zh-Hans': {
+    label: '简体中文',
+    speechLang: 'zh-CN',
+    numberLocale: 'zh-CN',
+    cardinals: {
+      north: '北', northeast: '东北', east: '东', southeast: '东南',
+      south: '南', southwest: '西南', west: '西', northwest: '西北',
+    },
+    turns: { left: '左', right: '右' },
+    units: { m: '{n}米', km: '{n}公里', spokenM: '{n}米', spokenKm: '{n}公里' },
+    templates: {
+      depart: '向{direction}走',
+      'depart+street': '沿{street}向{direction}走',
+      'depart+distance': '向{direction}走{distance}',
+      'depart+street+distance': '沿{street}向{direction}走{distance}',
+      'depart+landmark': '离开{landmark}，向{direction}走',
+      'depart+landmark+street': '离开{landmark}，沿{street}向{direction}走',
+      turn: '{direction}转',
+      'turn+street': '{direction}转进入{street}',
+      'slight-turn': '向{direction}前方走',
+      'slight-turn+street': '向{direction}前方走进入{street}',
+      'sharp-turn': '向{direction}后方急转',
+      'sharp-turn+street': '向{direction}后方急转进入{street}',
+      uturn: '掉头',
+      'uturn+street': '掉头进入{street}',
+      keep: '靠{direction}走',
+      'keep+street': '靠{direction}走进入{street}',
+      cross: '穿过马路',
+      'cross+street': '穿过{street}',
+      continue: '继续直行',
+      'continue+street': '继续直行进入{street}',
+      straight: '继续直行',
+      'straight+street': '沿{street}继续直行',
+      'waypoint+stop': '到达第{stop}站',
+      'waypoint+landmark+stop': '到达第{stop}站：{landmark}',
+      resume: '继续前往目的地，向{direction}走',
+      'resume+street': '继续前往目的地，沿{street}向{direction}走',
+      'resume+stop': '继续前往第{stop}站，向{direction}走',
+      'resume+street+stop': '继续前往第{stop}站，沿{street}向{direction}走',
+      approach: '即将到达目的地',
+      'approach+landmark': '即将到达{landmark}',
+      arrive: '到达目的地',
+      'arrive+landmark': '到达{landmark}',
+      arrived: '您已到达目的地',
+      'arrived+landmark': '您已到达{landmark}',
+      enter: '进入大楼',
+      'enter+landmark': '进入{landmark}',
+      exit: '离开大楼',
+      'exit+landmark': '离开{landmark}',
+      'change-floor': '乘楼梯或电梯前往下一层',
+      'change-floor+landmark': '乘楼梯或电梯前往{landmark}',
+      'follow-floor': '沿本层路线前行',
+      'follow-floor+landmark': '沿{landmark}的路线前行',
+    },
+    phrases: { prepare: '{distance}后，{instruction}', turnNow: '现在{direction}转', rerouting: '正在重新规划路线…' },
+  },
+  ja: {
+    label: '日本語',
+    speechLang: 'ja-JP',
+    numberLocale: 'ja-JP',
+    cardinals: {
+      north: '北', northeast: '北東', east: '東', southeast: '南東',
+      south: '南', southwest: '南西', west: '西', northwest: '北西',
+    },
+    turns: { left: '左', right: '右' },
+    units: { m: '{n}m', km: '{n}km', spokenM: '{n}メートル', spokenKm: '{n}キロメートル' },
+    templates: {
+      depart: '{direction}に進みます',
+      'depart+street': '{street}を{direction}に進みます',
+      'depart+distance': '{direction}に{distance}進みます',
+      'depart+street+distance': '{street}を{direction}に{distance}進みます',
+      'depart+landmark': '{landmark}を出て{direction}に進みます',
+      'depart+landmark+street': '{landmark}を出て{street}を{direction}に進みます',
+      turn: '{direction}に曲がります',
+      'turn+street': '{direction}に曲がって{street}に入ります',
+      'slight-turn': 'やや{direction}に進みます',
+      'slight-turn+street': 'やや{direction}に進んで{street}に入ります',
+      'sharp-turn': '{direction}に大きく曲がります',
+      'sharp-turn+street': '{direction}に大きく曲がって{street}に入ります',
+      uturn: 'Uターンします',
+      'uturn+street': 'Uターンして{street}に入ります',
+      keep: '{direction}側を進みます',
+      'keep+street': '{direction}側を進んで{street}に入ります',
+      cross: '道路を渡ります',
+      'cross+street': '{street}を渡ります',
+      continue: 'そのまま直進します',
+      'continue+street': 'そのまま直進して{street}に入ります',
+      straight: 'そのまま直進します',
+      'straight+street': '{street}をそのまま進みます',
+      'waypoint+stop': '経由地{stop}に到着',
+      'waypoint+landmark+stop': '経由地{stop}に到着：{landmark}',
+      resume: '目的地に向かって{direction}に進みます',
+      'resume+street': '目的地に向かって{street}を{direction}に進みます',
+      'resume+stop': '経由地{stop}に向かって{direction}に進みます',
+      'resume+street+stop': '経由地{stop}に向かって{street}を{direction}に進みます',
+      approach: 'まもなく目的地です',
+      'approach+landmark': 'まもなく{landmark}です',
+      arrive: '目的地に到着',
+      'arrive+landmark': '{landmark}に到着',
+      arrived: '目的地に到着しました',
+      'arrived+landmark': '{landmark}に到着しました',
+      enter: '建物に入ります',
+      'enter+landmark': '{landmark}に入ります',
+      exit: '建物を出ます',
+      'exit+landmark': '{landmark}を出ます',
+      'change-floor': '階段またはエレベーターで次の階へ移動します',
+      'change-floor+landmark': '階段またはエレベーターで{landmark}へ移動します',
+      'follow-floor': 'この階のルートに沿って進みます',
+      'follow-floor+landmark': '{landmark}のルートに沿って進みます',
+    },
+    phrases: { prepare: '{distance}先、{instruction}', turnNow: 'ここで{direction}に曲がります', rerouting: 'ルートを再検索しています…' },
+  },
+  ko: {
+    label: '한국어',
+    speechLang: 'ko-KR',
+    numberLocale: 'ko-KR',
+    cardinals: {
+      north: '북쪽', northeast: '북동쪽', east: '동쪽', southeast: '남동쪽',
+      south: '남쪽', southwest: '남서쪽', west: '서쪽', northwest: '북서쪽',
+    },
+    turns: { left: '왼쪽', right: '오른쪽' },
+    units: { m: '{n}m', km: '{n}km', spokenM: '{n}미터', spokenKm: '{n}킬로미터' },
+    templates: {
+      depart: '{direction}으로 이동하세요',
+      'depart+street': '{street}에서 {direction}으로 이동하세요',
+      'depart+distance': '{direction}으로 {distance} 이동하세요',
+      'depart+street+distance': '{street}에서 {direction}으로 {distance} 이동하세요',
+      'depart+landmark': '{landmark}에서 나와 {direction}으로 이동하세요',
+      'depart+landmark+street': '{landmark}에서 나와 {street}에서 {direction}으로 이동하세요',
+      turn: '{direction}으로 도세요',
+      'turn+street': '{direction}으로 돌아 {street}에 진입하세요',
+      'slight-turn': '{direction} 방향으로 비스듬히 가세요',
+      'slight-turn+street': '{direction} 방향으로 비스듬히 가서 {street}에 진입하세요',
+      'sharp-turn': '{direction}으로 크게 도세요',
+      'sharp-turn+street': '{direction}으로 크게 돌아 {street}에 진입하세요',
+      uturn: '유턴하세요',
+      'uturn+street': '유턴하여 {street}에 진입하세요',
+      keep: '{direction} 길로 가세요',
+      'keep+street': '{direction} 길로 가서 {street}에 진입하세요',
+      cross: '길을 건너세요',
+      'cross+street': '{street}을(를) 건너세요',
+      continue: '계속 직진하세요',
+      'continue+street': '직진하여 {street}에 진입하세요',
+      straight: '계속 직진하세요',
+      'straight+street': '{street}에서 계속 직진하세요',
+      'waypoint+stop': '{stop}번 경유지에 도착',
+      'waypoint+landmark+stop': '{stop}번 경유지에 도착: {landmark}',
+      resume: '목적지를 향해 {direction}으로 이동하세요',
+      'resume+street': '목적지를 향해 {street}에서 {direction}으로 이동하세요',
+      'resume+stop': '{stop}번 경유지를 향해 {direction}으로 이동하세요',
+      'resume+street+stop': '{stop}번 경유지를 향해 {street}에서 {direction}으로 이동하세요',
+      approach: '곧 목적지에 도착합니다',
+      'approach+landmark': '곧 {landmark}에 도착합니다',
+      arrive: '목적지에 도착',
+      'arrive+landmark': '{landmark}에 도착',
+      arrived: '목적지에 도착했습니다',
+      'arrived+landmark': '{landmark}에 도착했습니다',
+      enter: '건물로 들어가세요',
+      'enter+landmark': '{landmark}에 들어가세요',
+      exit: '건물에서 나가세요',
+      'exit+landmark': '{landmark}에서 나가세요',
+      'change-floor': '계단이나 엘리베이터로 다음 층으로 이동하세요',
+      'change-floor+landmark': '계단이나 엘리베이터로 {landmark}에 가세요',
+      'follow-floor': '이 층의 경로를 따라가세요',
+      'follow-floor+landmark': '{landmark}의 경로를 따라가세요',
+    },
+    phrases: { prepare: '{distance} 앞에서 {instruction}', turnNow: '지금 {direction}으로 도세요', rerouting: '경로를 다시 찾는 중…' },
+  },
+  es: {
+    label: 'Español',
+    speechLang: 'es-ES',
+    numberLocale: 'es-ES',
+    cardinals: {
+      north: 'norte', northeast: 'noreste', east: 'este', southeast: 'sureste',
+      south: 'sur', southwest: 'suroeste', west: 'oeste', northwest: 'noroeste',
+    },
+    turns: { left: 'izquierda', right: 'derecha' },
+    units: { m: '{n} m', km: '{n} km', spokenM: '{n} metros', spokenKm: '{n} kilómetros' },
+    templates: {
+      depart: 'Diríjase al {direction}',
+      'depart+street': 'Diríjase al {direction} por {street}',
+      'depart+distance': 'Diríjase al {direction} durante {distance}',
+      'depart+street+distance': 'Diríjase al {direction} por {street} durante {distance}',
+      'depart+landmark': 'Salga de {landmark} y diríjase al {direction}',
+      'depart+landmark+street': 'Salga de {landmark} y diríjase al {direction} por {street}',
+      turn: 'Gire a la {direction}',
+      'turn+street': 'Gire a la {direction} hacia {street}',
+      'slight-turn': 'Gire ligeramente a la {direction}',
+      'slight-turn+street': 'Gire ligeramente a la {direction} hacia {street}',
+      'sharp-turn': 'Gire bruscamente a la {direction}',
+      'sharp-turn+street': 'Gire bruscamente a la {direction} hacia {street}',
+      uturn: 'Dé la vuelta',
+      'uturn+street': 'Dé la vuelta hacia {street}',
+      keep: 'Manténgase a la {direction}',
+      'keep+street': 'Manténgase a la {direction} hacia {street}',
+      cross: 'Cruce la calle',
+      'cross+street': 'Cruce {street}',
+      continue: 'Siga recto',
+      'continue+street': 'Continúe por {street}',
+      straight: 'Siga recto',
+      'straight+street': 'Siga por {street}',
+      'waypoint+stop': 'Llegada a la parada {stop}',
+      'waypoint+landmark+stop': 'Llegada a la parada {stop}: {landmark}',
+      resume: 'Continúe hacia el destino en dirección {direction}',
+      'resume+street': 'Continúe hacia el destino en dirección {direction} por {street}',
+      'resume+stop': 'Continúe hacia la parada {stop} en dirección {direction}',
+      'resume+street+stop': 'Continúe hacia la parada {stop} en dirección {direction} por {street}',
+      approach: 'Se acerca a su destino',
+      'approach+landmark': 'Se acerca a {landmark}',
+      arrive: 'Llegada al destino',
+      'arrive+landmark': 'Llegada a {landmark}',
+      arrived: 'Ha llegado a su destino',
+      'arrived+landmark': 'Ha llegado a {landmark}',
+      enter: 'Entre en el edificio',
+      'enter+landmark': 'Entre en {landmark}',
+      exit: 'Salga del edificio',
+      'exit+landmark': 'Salga de {landmark}',
+      'change-floor': 'Tome las escaleras o el ascensor hasta la siguiente planta',
+      'change-floor+landmark': 'Tome las escaleras o el ascensor hasta {landmark}',
+      'follow-floor': 'Siga la ruta en esta planta',
+      'follow-floor+landmark': 'Siga la ruta en {landmark}',
+    },
+    phrases: { prepare: 'En {distance}, {instruction}', turnNow: 'Gire a la {direction} ahora', rerouting: 'Recalculando la ruta…' },
+  },
+};
+
+export const DEFAULT_DIRECTIONS_LOCALE: DirectionsLocale = 'en';
+
+export function isDirectionsLocale(value: unknown): value is DirectionsLocale {
+  return typeof value === 'string' && Object.hasOwn(DIRECTIONS_LOCALES, value);
+}
+
+/**
+ * Best supported locale for a list of language tags, e.g. navigator.languages
+ * Matches on the language alone ("es-MX" → es); any Chinese other than
+ * Traditional gets Simplified.
+ */
+export function resolveDirectionsLocale(languages: readonly string[]): DirectionsLocale {
+  for (const tag of languages) {
+    const [language, ...rest] = tag.toLowerCase().split('-');
+    if (language === 'zh') {
+      if (rest.includes('hant') || rest.includes('tw') || rest.includes('hk')) continue;
+      return 'zh-Hans';
+    }
+    if (isDirectionsLocale(language)) return language;
+  }
+  return DEFAULT_DIRECTIONS_LOCALE;
+}
+
+function fill(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match);
+}
+
+/**
+ * Distance in a locale's units: "50m" / "1.2km" to read, "50 metres" to speak
+ */
+export function formatLocalizedDistance(
+  meters: number,
+  locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE,
+  style: 'short' | 'spoken' = 'short'
+): string {
+  const { units, numberLocale } = DIRECTIONS_LOCALES[locale];
+  if (meters < 1000) {
+    return fill(style === 'spoken' ? units.spokenM : units.m, { n: String(Math.round(meters)) });
+  }
+  const km = new Intl.NumberFormat(numberLocale, { minimumFractionDigits: 1, maximumFractionDigits: 1, useGrouping: false }).format(meters / 1000);
+  return fill(style === 'spoken' ? units.spokenKm : units.km, { n: km });
+}
+
+function templateFor(templates: Record<string, string>, maneuver: Maneuver): string {
+  const details = (['landmark', 'street', 'distance', 'stop'] as const).filter((key) => maneuver[key] !== undefined && maneuver[key] !== '');
+  // Drop details from the end until a template exists
+  for (let count = details.length; count >= 0; count--) {
+    const key = [maneuver.type, ...details.slice(0, count)].join('+');
+    if (templates[key]) return templates[key];
+  }
+  return maneuver.type;
+}
+
+/**
+ * Instruction text for a manoeuvre
+ */
+export function describeManeuver(maneuver: Maneuver, locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE): string {
+  const data = DIRECTIONS_LOCALES[locale];
+  const direction = maneuver.direction === 'left' || maneuver.direction === 'right'
+    ? data.turns[maneuver.direction]
+    : maneuver.direction && data.cardinals[maneuver.direction];
+
+  return fill(templateFor(data.templates, maneuver), {
+    ...(direction && { direction }),
+    ...(maneuver.street && { street: maneuver.street }),
+    ...(maneuver.landmark && { landmark: maneuver.landmark }),
+    ...(maneuver.distance !== undefined && { distance: formatLocalizedDistance(maneuver.distance, locale) }),
+    ...(maneuver.stop !== undefined && { stop: String(maneuver.stop) }),
+  });
+}
+
+/**
+ * Spoken warning ahead of a manoeuvre: "In 50 metres, turn left onto King Street"
+ */
+export function describeUpcoming(maneuver: Maneuver, meters: number, locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE): string {
+  const instruction = describeManeuver(maneuver, locale);
+  return fill(DIRECTIONS_LOCALES[locale].phrases.prepare, {
+    distance: formatLocalizedDistance(meters, locale, 'spoken'),
+    instruction: instruction.charAt(0).toLocaleLowerCase(DIRECTIONS_LOCALES[locale].numberLocale) + instruction.slice(1),
+  });
+}
+
+/**
+ * Spoken prompt on reaching a manoeuvre: "Turn left now"
+ */
+export function describeNow(maneuver: Maneuver, locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE): string {
+  const data = DIRECTIONS_LOCALES[locale];
+  if (maneuver.type === 'turn' && (maneuver.direction === 'left' || maneuver.direction === 'right')) {
+    return fill(data.phrases.turnNow, { direction: data.turns[maneuver.direction] });
+  }
+  return describeManeuver(maneuver, locale);
+}
@@ -0,0 +1,75 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { compileFloorPlan, type FloorGraphData, type PathSegment, type Portal } from "@/lib/indoorPathfinding";
+
+/**
+ * Precompiled indoor routing graphs
+ * A floor's path segments and stair/lift portals are parsed out of its SVG
+ * once, when the floor is created or its floor plan replaced, and stored on a
+ * FloorGraph record. /api/indoor-nav/[placeId] and server-side routing read
+ * them from there instead of parsing the SVG on every route request. Floors
+ * uploaded before this existed, or whose record is stale, are compiled the
+ * first time they are read.
+ */
+
+type FloorRef = { id: string; svgPath: string };
+
+async function readFloorPlan(svgPath: string): Promise<string> {
+  return fs.readFile(path.join(process.cwd(), "public", svgPath), "utf-8");
+}
+
+/**
+ * Compile a floor plan and store the result for the floor
+ */
+export async function compileFloorGraph(floor: FloorRef): Promise<FloorGraphData> {
+  const graph = compileFloorPlan(await readFloorPlan(floor.svgPath), floor.id);
+  const data = {
+    svgPath: floor.svgPath,
+    segments: graph.segments as unknown as Prisma.InputJsonValue,
+    portals: graph.portals as unknown as Prisma.InputJsonValue,
+  };
+
+  await prisma.floorGraph.upsert({
+    where: { floorId: floor.id },
+    create: { floorId: floor.id, ...data },
+    update: data,
+  });
+
+  console.log(`🧭 Compiled floor graph for ${floor.id}: ${graph.segments.length} segments, ${graph.portals.length} portals`);
+  return graph;
+}
+
+/**
+ * Routing graphs for the given floors, in the same order
+ * Floors whose plan can't be read are left out.
+ */
+export async function getFloorGraphs(floors: FloorRef[]): Promise<FloorGraphData[]> {
+  const stored = await prisma.floorGraph.findMany({
+    where: { floorId: { in: floors.map((floor) => floor.id) } },
+  });
+  const byFloor = new Map(stored.map((record) => [record.floorId, record]));
+
+  const graphs: FloorGraphData[] = [];
+  for (const floor of floors) {
+    if (!floor.svgPath) continue;
+
+    const record = byFloor.get(floor.id);
+    if (record && record.svgPath === floor.svgPath) {
+      graphs.push({
+        floorId: floor.id,
+        segments: record.segments as unknown as PathSegment[],
+        portals: record.portals as unknown as Portal[],
+      });
+      continue;
+    }
+
+    try {
+      graphs.push(await compileFloorGraph(floor));
+    } catch (error) {
+      console.error(`Error compiling floor plan ${floor.svgPath}:`, error);
+    }
+  }
+  return graphs;
+}
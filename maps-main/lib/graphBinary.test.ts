@@ -0,0 +1,37 @@
+// @ts-nocheck - Test file without test framework types configured
+import graphData from '@/data/sydney-graph-full.json';
+import { decodeGraph, encodeGraph } from './graphBinary';
+import { computeLandmarks } from './landmarks';
+
+const f32 = (value) => Math.fround(value);
+
+test('round-trips nodes, edges and curve points', () => {
+  const decoded = decodeGraph(encodeGraph(graphData));
+
+  expect(Object.keys(decoded.nodesById)).toEqual(Object.keys(graphData.nodesById));
+  for (const [id, node] of Object.entries(graphData.nodesById)) {
+    expect(decoded.nodesById[id]).toEqual({ ...node, x: f32(node.x), y: f32(node.y) });
+  }
+  for (const [id, edges] of Object.entries(graphData.adjacency)) {
+    expect(decoded.adjacency[id]).toEqual(
+      edges.map((edge) => ({
+        ...edge,
+        ...(edge.points && { points: edge.points.map((p) => ({ x: f32(p.x), y: f32(p.y) })) }),
+      }))
+    );
+  }
+});
+
+test('keeps landmark tables, including unreachable entries', () => {
+  const landmarks = computeLandmarks(graphData);
+  landmarks.landmarks[0].to[1] = null;
+  expect(decodeGraph(encodeGraph(graphData, landmarks)).landmarks).toEqual(landmarks);
+});
+
+test('rejects other files and unknown format versions', () => {
+  expect(() => decodeGraph(new TextEncoder().encode('{"nodesById":{}}').buffer)).toThrow('Not a binary graph file');
+
+  const buffer = encodeGraph(graphData);
+  new DataView(buffer).setUint32(4, 99, true);
+  expect(() => decodeGraph(buffer)).toThrow('Unsupported graph format version 99');
+});
@@ -0,0 +1,217 @@
+import type { LandmarkData, PathGraph, PathNode } from '@/types';
+
+/**
+ * Compact binary encoding of the street graph
+ * Written by scripts/encodeGraph.ts to public/graph/ and decoded on load
+ * (lib/graphLoader.ts). Layout, little-endian, each section 8-byte aligned:
+ *
+ *   header     magic "SYDG", format version, node/edge/point/landmark/string counts
+ *   nodes      x, y (Float32), lat, lng (Float64, NaN if unknown), id and street (string indexes)
+ *   edges      CSR adjacency: offsets per node (Uint32, N+1), then per edge the
+ *              target node, distance (Float64), street (-1 if none), accessible
+ *              (-1 unknown, 0, 1) and offsets into the shared curve point list
+ *   landmarks  landmark node indexes and from/to distance tables (Infinity if unreachable)
+ *   strings    node IDs and street names, interned, UTF-8, NUL-separated
+ */
+
+const MAGIC = 0x47445953; // "SYDG"
+export const GRAPH_FORMAT_VERSION = 1;
+
+const HEADER_BYTES = 32;
+
+type TypedArray = Float32Array | Float64Array | Int32Array | Uint32Array | Int8Array;
+
+function align(offset: number): number {
+  return (offset + 7) & ~7;
+}
+
+/**
+ * Encode a graph (and optionally its landmark tables) as an ArrayBuffer
+ */
+export function encodeGraph(graph: PathGraph, landmarks?: LandmarkData): ArrayBuffer {
+  const nodeIds = landmarks?.nodeIds ?? Object.keys(graph.nodesById);
+  const nodeIndex = new Map(nodeIds.map((id, i) => [id, i]));
+
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const intern = (value: string | undefined): number => {
+    if (value === undefined) return -1;
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(value);
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  const n = nodeIds.length;
+  const nodeX = new Float32Array(n);
+  const nodeY = new Float32Array(n);
+  const nodeLat = new Float64Array(n).fill(NaN);
+  const nodeLng = new Float64Array(n).fill(NaN);
+  const nodeId = new Uint32Array(n);
+  const nodeStreet = new Int32Array(n);
+  nodeIds.forEach((id, i) => {
+    const node = graph.nodesById[id];
+    nodeX[i] = node.x;
+    nodeY[i] = node.y;
+    if (typeof node.lat === 'number') nodeLat[i] = node.lat;
+    if (typeof node.lng === 'number') nodeLng[i] = node.lng;
+    nodeId[i] = intern(id);
+    nodeStreet[i] = intern(node.street);
+  });
+
+  const edges = nodeIds.map((id) => (graph.adjacency[id] ?? []).filter((edge) => nodeIndex.has(edge.to)));
+  const e = edges.reduce((sum, list) => sum + list.length, 0);
+  const edgeOffsets = new Uint32Array(n + 1);
+  const edgeTo = new Uint32Array(e);
+  const edgeDistance = new Float64Array(e);
+  const edgeStreet = new Int32Array(e);
+  const edgeAccessible = new Int8Array(e);
+  const edgePointOffsets = new Uint32Array(e + 1);
+  const pointList: number[] = [];
+
+  let k = 0;
+  edges.forEach((list, i) => {
+    edgeOffsets[i] = k;
+    for (const edge of list) {
+      edgeTo[k] = nodeIndex.get(edge.to)!;
+      edgeDistance[k] = edge.distance;
+      edgeStreet[k] = intern(edge.street);
+      edgeAccessible[k] = edge.accessible === undefined ? -1 : edge.accessible ? 1 : 0;
+      edgePointOffsets[k] = pointList.length / 2;
+      for (const p of edge.points ?? []) pointList.push(p.x, p.y);
+      k++;
+    }
+  });
+  edgeOffsets[n] = k;
+  edgePointOffsets[e] = pointList.length / 2;
+  const points = Float32Array.from(pointList);
+
+  const l = landmarks?.landmarks.length ?? 0;
+  const landmarkNodes = new Uint32Array(l);
+  const landmarkFrom = new Float64Array(l * n);
+  const landmarkTo = new Float64Array(l * n);
+  landmarks?.landmarks.forEach((landmark, li) => {
+    landmarkNodes[li] = nodeIndex.get(landmark.id)!;
+    landmark.from.forEach((d, i) => (landmarkFrom[li * n + i] = d ?? Infinity));
+    landmark.to.forEach((d, i) => (landmarkTo[li * n + i] = d ?? Infinity));
+  });
+
+  const stringBytes = new TextEncoder().encode(strings.join('\0'));
+
+  const sections: Array<TypedArray | Uint8Array> = [
+    nodeX, nodeY, nodeLat, nodeLng, nodeId, nodeStreet,
+    edgeOffsets, edgeTo, edgeDistance, edgeStreet, edgeAccessible, edgePointOffsets, points,
+    landmarkNodes, landmarkFrom, landmarkTo,
+    stringBytes,
+  ];
+  const totalBytes = sections.reduce((offset, section) => align(offset + section.byteLength), HEADER_BYTES);
+
+  const buffer = new ArrayBuffer(totalBytes);
+  const header = new DataView(buffer);
+  [MAGIC, GRAPH_FORMAT_VERSION, n, e, points.length / 2, l, strings.length, stringBytes.byteLength].forEach(
+    (value, i) => header.setUint32(i * 4, value, true)
+  );
+
+  let offset = HEADER_BYTES;
+  for (const section of sections) {
+    new Uint8Array(buffer, offset, section.byteLength).set(
+      new Uint8Array(section.buffer, section.byteOffset, section.byteLength)
+    );
+    offset = align(offset + section.byteLength);
+  }
+  return buffer;
+}
+
+/**
+ * Decode a buffer written by encodeGraph back into a PathGraph
+ * Throws if the buffer isn't a graph in a format this build understands.
+ */
+export function decodeGraph(buffer: ArrayBuffer): PathGraph {
+  const header = new DataView(buffer);
+  if (buffer.byteLength < HEADER_BYTES || header.getUint32(0, true) !== MAGIC) {
+    throw new Error('Not a binary graph file');
+  }
+  const [, version, n, e, p, l, stringCount, stringByteLength] = Array.from({ length: 8 }, (_, i) =>
+    header.getUint32(i * 4, true)
+  );
+  if (version !== GRAPH_FORMAT_VERSION) {
+    throw new Error(`Unsupported graph format version ${version} (expected ${GRAPH_FORMAT_VERSION})`);
+  }
+
+  let offset = HEADER_BYTES;
+  function take<T extends TypedArray | Uint8Array>(
+    ArrayType: { new (buffer: ArrayBuffer, byteOffset: number, length: number): T; BYTES_PER_ELEMENT: number },
+    length: number
+  ): T {
+    const view = new ArrayType(buffer, offset, length);
+    offset = align(offset + length * ArrayType.BYTES_PER_ELEMENT);
+    return view;
+  }
+
+  const nodeX = take(Float32Array, n);
+  const nodeY = take(Float32Array, n);
+  const nodeLat = take(Float64Array, n);
+  const nodeLng = take(Float64Array, n);
+  const nodeId = take(Uint32Array, n);
+  const nodeStreet = take(Int32Array, n);
+  const edgeOffsets = take(Uint32Array, n + 1);
+  const edgeTo = take(Uint32Array, e);
+  const edgeDistance = take(Float64Array, e);
+  const edgeStreet = take(Int32Array, e);
+  const edgeAccessible = take(Int8Array, e);
+  const edgePointOffsets = take(Uint32Array, e + 1);
+  const points = take(Float32Array, p * 2);
+  const landmarkNodes = take(Uint32Array, l);
+  const landmarkFrom = take(Float64Array, l * n);
+  const landmarkTo = take(Float64Array, l * n);
+  const strings = new TextDecoder().decode(take(Uint8Array, stringByteLength)).split('\0');
+  if (strings.length !== stringCount && stringCount > 0) {
+    throw new Error('Corrupt binary graph: string table size mismatch');
+  }
+
+  const ids = Array.from(nodeId, (i) => strings[i]);
+  const nodesById: PathGraph['nodesById'] = {};
+  ids.forEach((id, i) => {
+    const node: PathNode = { id, x: nodeX[i], y: nodeY[i] };
+    if (!Number.isNaN(nodeLat[i])) node.lat = nodeLat[i];
+    if (!Number.isNaN(nodeLng[i])) node.lng = nodeLng[i];
+    if (nodeStreet[i] >= 0) node.street = strings[nodeStreet[i]];
+    nodesById[id] = node;
+  });
+
+  const adjacency: PathGraph['adjacency'] = {};
+  ids.forEach((id, i) => {
+    const list: PathGraph['adjacency'][string] = [];
+    for (let k = edgeOffsets[i]; k < edgeOffsets[i + 1]; k++) {
+      const edge: PathGraph['adjacency'][string][number] = { to: ids[edgeTo[k]], distance: edgeDistance[k] };
+      const first = edgePointOffsets[k];
+      const last = edgePointOffsets[k + 1];
+      if (last > first) {
+        edge.points = [];
+        for (let q = first; q < last; q++) edge.points.push({ x: points[q * 2], y: points[q * 2 + 1] });
+      }
+      if (edgeStreet[k] >= 0) edge.street = strings[edgeStreet[k]];
+      if (edgeAccessible[k] >= 0) edge.accessible = edgeAccessible[k] === 1;
+      list.push(edge);
+    }
+    adjacency[id] = list;
+  });
+
+  const graph: PathGraph = { nodesById, adjacency };
+  if (l > 0) {
+    const table = (source: Float64Array, li: number) =>
+      Array.from(source.subarray(li * n, (li + 1) * n), (d) => (d === Infinity ? null : d));
+    graph.landmarks = {
+      nodeIds: ids,
+      landmarks: Array.from(landmarkNodes, (node, li) => ({
+        id: ids[node],
+        from: table(landmarkFrom, li),
+        to: table(landmarkTo, li),
+      })),
+    };
+  }
+  return graph;
+}
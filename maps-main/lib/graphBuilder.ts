@@ -58,12 +58,14 @@ export function buildGraphFromSVG(parsedSVG: ParsedSVG): PathGraph {
       to: toId,
       distance,
       street: pathLine.streetName,
+      accessible: pathLine.accessible,
     });
 
     adjacency[toId].push({
       to: fromId,
       distance,
       street: pathLine.streetName,
+      accessible: pathLine.accessible,
     });
   });
 
@@ -1,33 +1,63 @@
-// Client-side graph loader - loads pre-built graph from JSON
+// Graph loader - fetches the pre-built binary graph from public/graph/
 import type { PathGraph } from '@/types';
+import { decodeGraph } from './graphBinary';
 
-const MAX_STRAIGHT_EDGE_DISTANCE = 120; // px in viewBox space; increased to preserve path connectivity
+/**
+ * The manifest is revalidated on every load (Cache-Control: no-cache); the
+ * binary it points to is requested with the version hash in its URL and
+ * cached as immutable (see next.config.mjs), so browsers download the graph
+ * again only when it has actually changed. Both are written by
+ * scripts/encodeGraph.ts.
+ */
+export const GRAPH_DIR = '/graph';
 
-let cachedGraph: PathGraph | null = null;
+interface GraphManifest {
+  version: string;
+  format: number;
+  file: string;
+  bytes: number;
+  nodes: number;
+  edges: number;
+}
+
+export type GraphFileReader = (file: string, options: { version?: string }) => Promise<ArrayBuffer>;
 
 /**
- * Load and filter the pre-built navigation graph
- * This runs in the browser and loads the JSON file
+ * Create a cached graph loader over a way of reading files from public/graph/
+ * Loads once per page, worker or server process; a failed load is retried on the next call.
  */
-export async function buildPathNetwork(): Promise<PathGraph> {
-  if (cachedGraph) return cachedGraph;
-
-  // Dynamically import the graph data
-  const graphData = await import('@/data/sydney-graph-full.json');
-  const rawGraph = graphData.default as PathGraph;
-  const cleanedAdjacency: PathGraph['adjacency'] = {};
-
-  Object.entries(rawGraph.adjacency).forEach(([nodeId, edges]) => {
-    cleanedAdjacency[nodeId] = edges.filter((edge) => {
-      if (edge.points && edge.points.length >= 2) return true; // real geometry from SVG path
-      return edge.distance <= MAX_STRAIGHT_EDGE_DISTANCE;
-    });
-  });
-
-  cachedGraph = {
-    nodesById: rawGraph.nodesById,
-    adjacency: cleanedAdjacency,
+export function createGraphLoader(readGraphFile: GraphFileReader): () => Promise<PathGraph> {
+  let cachedGraph: Promise<PathGraph> | null = null;
+
+  async function loadGraph(): Promise<PathGraph> {
+    const manifest: GraphManifest = JSON.parse(new TextDecoder().decode(await readGraphFile('manifest.json', {})));
+    const graph = decodeGraph(await readGraphFile(manifest.file, { version: manifest.version }));
+    console.log(`📦 Graph ${manifest.version}: ${manifest.nodes} nodes, ${manifest.edges} edges (${(manifest.bytes / 1024).toFixed(1)} KB)`);
+    return graph;
+  }
+
+  return () => {
+    if (!cachedGraph) {
+      cachedGraph = loadGraph().catch((error) => {
+        cachedGraph = null;
+        throw error;
+      });
+    }
+    return cachedGraph;
   };
+}
 
-  return cachedGraph;
+// Browsers and workers fetch over HTTP; server code uses lib/serverGraphLoader.ts
+async function fetchGraphFile(file: string, { version }: { version?: string }): Promise<ArrayBuffer> {
+  const res = await fetch(
+    version ? `${GRAPH_DIR}/${file}?v=${version}` : `${GRAPH_DIR}/${file}`,
+    { cache: version ? 'default' : 'no-cache' }
+  );
+  if (!res.ok) throw new Error(`Failed to load ${file}: ${res.status}`);
+  return res.arrayBuffer();
 }
+
+/**
+ * Load the pre-built navigation graph (with its routing landmarks)
+ */
+export const buildPathNetwork = createGraphLoader(fetchGraphFile);
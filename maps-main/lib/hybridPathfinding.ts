@@ -5,6 +5,18 @@
  * through building entrance portals, creating seamless multi-modal routes.
  */
 
+import type { PathGraph } from '@/types';
+import { edgeCostForProfile, type RoutingProfile } from './routingProfiles';
+import {
+  createSpatialIndex,
+  GPS_CELL_SIZE,
+  gpsToPlanar,
+  insertIntoIndex,
+  itemsWithinRadius,
+  nearestInIndex,
+  type SpatialIndex,
+} from './spatialIndex';
+
 interface Point {
   x: number;
   y: number;
@@ -27,9 +39,10 @@ interface GraphNode {
   entranceId?: string;
   // Graph connections
   edges: Map<string, number>; // nodeId -> distance/cost
+  inaccessibleEdges?: Set<string>; // neighbour IDs reached via steps or stairs
 }
 
-interface RouteSegment {
+export interface RouteSegment {
   type: 'outdoor' | 'building-entrance' | 'indoor' | 'floor-transition';
   nodes: Array<{
     gps?: GPSPoint;
@@ -44,14 +57,14 @@ interface RouteSegment {
   distance: number;
 }
 
-interface HybridRoute {
+export interface HybridRoute {
   segments: RouteSegment[];
   totalDistance: number;
   hasIndoorSegments: boolean;
   buildings: string[]; // List of building IDs on the route
 }
 
-interface BuildingEntrance {
+export interface BuildingEntrance {
   id: string;
   buildingId: string;
   floorId: string;
@@ -88,6 +101,28 @@ function svgDistance(p1: Point, p2: Point): number {
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+/**
+ * Convert the outdoor PathGraph (adjacency lists) to the Map format expected by buildHybridGraph
+ */
+export function outdoorGraphToMap(graph: PathGraph): Map<string, any> {
+  const outdoorGraphMap = new Map();
+  Object.entries(graph.nodesById).forEach(([id, node]) => {
+    const edges = new Map<string, number>();
+    const inaccessibleEdges = new Set<string>();
+    (graph.adjacency[id] || []).forEach((edge) => {
+      edges.set(edge.to, edge.distance);
+      if (edge.accessible === false) inaccessibleEdges.add(edge.to);
+    });
+
+    outdoorGraphMap.set(id, {
+      ...node,
+      edges,
+      inaccessibleEdges,
+    });
+  });
+  return outdoorGraphMap;
+}
+
 /**
  * Build a unified graph that connects outdoor and indoor navigation
  */
@@ -116,6 +151,9 @@ export async function buildHybridGraph(
           dist
         ] as [string, number])
       ),
+      inaccessibleEdges: node.inaccessibleEdges
+        ? new Set((Array.from(node.inaccessibleEdges) as string[]).map(targetId => `outdoor-${targetId}`))
+        : undefined,
     });
     outdoorCount++;
   }
@@ -138,6 +176,9 @@ export async function buildHybridGraph(
             dist
           ] as [string, number])
         ),
+        inaccessibleEdges: node.inaccessibleEdges
+          ? new Set((Array.from(node.inaccessibleEdges) as string[]).map(targetId => `indoor-${buildingId}-${targetId}`))
+          : undefined,
       });
       indoorCount++;
     }
@@ -148,6 +189,9 @@ export async function buildHybridGraph(
   const ENTRANCE_CONNECTION_THRESHOLD = 50; // meters for outdoor, pixels for indoor
   const ENTRANCE_COST = 10; // Small cost for entering/exiting building
 
+  // Index outdoor and indoor nodes once, before entrance nodes are added
+  const { gps, indoor } = getHybridGraphIndex(hybridGraph);
+
   let entranceCount = 0;
   for (const entrance of buildingEntrances) {
     const entranceNodeId = `entrance-${entrance.id}`;
@@ -163,16 +207,26 @@ export async function buildHybridGraph(
       entranceId: entrance.id,
       edges: new Map(),
     });
+    const entranceNode = hybridGraph.get(entranceNodeId)!;
+
+    // Entrances with steps are marked on every edge in and out
+    const markInaccessible = (node: GraphNode) => {
+      if (entrance.isAccessible) return;
+      (node.inaccessibleEdges ??= new Set()).add(entranceNodeId);
+      (entranceNode.inaccessibleEdges ??= new Set()).add(node.id);
+    };
 
     // Connect to nearby outdoor nodes
     let outdoorConnections = 0;
-    for (const [nodeId, node] of hybridGraph.entries()) {
+    const entrancePlanar = gpsToPlanar(entrance.lat, entrance.lng);
+    for (const { item: node } of itemsWithinRadius(gps, entrancePlanar, ENTRANCE_CONNECTION_THRESHOLD)) {
       if (node.type === 'outdoor' && node.gps) {
         const dist = gpsDistance(entrance, node.gps);
         if (dist < ENTRANCE_CONNECTION_THRESHOLD) {
           // Bidirectional connection
           node.edges.set(entranceNodeId, dist + ENTRANCE_COST);
-          hybridGraph.get(entranceNodeId)!.edges.set(nodeId, dist + ENTRANCE_COST);
+          entranceNode.edges.set(node.id, dist + ENTRANCE_COST);
+          markInaccessible(node);
           outdoorConnections++;
         }
       }
@@ -180,19 +234,15 @@ export async function buildHybridGraph(
 
     // Connect to nearby indoor nodes on the entrance floor
     let indoorConnections = 0;
-    const indoorPrefix = `indoor-${entrance.buildingId}-`;
-    for (const [nodeId, node] of hybridGraph.entries()) {
-      if (nodeId.startsWith(indoorPrefix) &&
-          node.type === 'indoor' &&
-          node.floorId === entrance.floorId &&
-          node.svg) {
-        const dist = svgDistance({ x: entrance.indoorX, y: entrance.indoorY }, node.svg);
-        if (dist < ENTRANCE_CONNECTION_THRESHOLD) {
-          // Bidirectional connection
-          node.edges.set(entranceNodeId, dist + ENTRANCE_COST);
-          hybridGraph.get(entranceNodeId)!.edges.set(nodeId, dist + ENTRANCE_COST);
-          indoorConnections++;
-        }
+    const floorIndex = indoor.get(floorKey(entrance.buildingId, entrance.floorId));
+    const entrancePoint = { x: entrance.indoorX, y: entrance.indoorY };
+    for (const { item: node, distance: dist } of floorIndex ? itemsWithinRadius(floorIndex, entrancePoint, ENTRANCE_CONNECTION_THRESHOLD) : []) {
+      if (node.type === 'indoor' && dist < ENTRANCE_CONNECTION_THRESHOLD) {
+        // Bidirectional connection
+        node.edges.set(entranceNodeId, dist + ENTRANCE_COST);
+        entranceNode.edges.set(node.id, dist + ENTRANCE_COST);
+        markInaccessible(node);
+        indoorConnections++;
       }
     }
 
@@ -208,11 +258,13 @@ export async function buildHybridGraph(
 
 /**
  * A* pathfinding on the hybrid graph
+ * The routing profile decides whether steps and stairs are penalised or skipped.
  */
 function findHybridPath(
   graph: Map<string, GraphNode>,
   startNodeId: string,
-  endNodeId: string
+  endNodeId: string,
+  profile: RoutingProfile
 ): string[] | null {
   const openSet = new Set<string>([startNodeId]);
   const cameFrom = new Map<string, string>();
@@ -251,7 +303,8 @@ function findHybridPath(
     const currentNode = graph.get(current)!;
 
     for (const [neighborId, edgeCost] of currentNode.edges) {
-      const tentativeG = (gScore.get(current) ?? Infinity) + edgeCost;
+      const accessible = !currentNode.inaccessibleEdges?.has(neighborId);
+      const tentativeG = (gScore.get(current) ?? Infinity) + edgeCostForProfile(edgeCost, accessible, profile);
 
       if (tentativeG < (gScore.get(neighborId) ?? Infinity)) {
         cameFrom.set(neighborId, current);
@@ -353,7 +406,8 @@ function pathToSegments(
 export async function findHybridRoute(
   graph: Map<string, GraphNode>,
   start: { lat: number; lng: number } | { buildingId: string; floorId: string; x: number; y: number },
-  end: { lat: number; lng: number } | { buildingId: string; floorId: string; x: number; y: number }
+  end: { lat: number; lng: number } | { buildingId: string; floorId: string; x: number; y: number },
+  profile: RoutingProfile = 'default'
 ): Promise<HybridRoute | null> {
   // Find closest nodes to start and end
   const startNodeId = findClosestNode(graph, start);
@@ -367,7 +421,7 @@ export async function findHybridRoute(
   console.log(`🎯 Hybrid pathfinding: ${startNodeId} → ${endNodeId}`);
 
   // Run A* on hybrid graph
-  const nodePath = findHybridPath(graph, startNodeId, endNodeId);
+  const nodePath = findHybridPath(graph, startNodeId, endNodeId, profile);
 
   if (!nodePath) {
     console.warn('❌ No hybrid route found');
@@ -390,6 +444,36 @@ export async function findHybridRoute(
   };
 }
 
+function floorKey(buildingId: string | undefined, floorId: string | undefined): string {
+  return `${buildingId}:${floorId}`;
+}
+
+// Node indexes per hybrid graph: GPS nodes (projected to meters) and SVG
+// nodes per building floor. Rebuilt if the graph has changed size.
+const hybridGraphIndexes = new WeakMap<
+  Map<string, GraphNode>,
+  { size: number; gps: SpatialIndex<GraphNode>; indoor: Map<string, SpatialIndex<GraphNode>> }
+>();
+
+function getHybridGraphIndex(graph: Map<string, GraphNode>) {
+  let cached = hybridGraphIndexes.get(graph);
+  if (!cached || cached.size !== graph.size) {
+    const gps = createSpatialIndex<GraphNode>(GPS_CELL_SIZE);
+    const indoor = new Map<string, SpatialIndex<GraphNode>>();
+    for (const node of graph.values()) {
+      if (node.gps) insertIntoIndex(gps, node, gpsToPlanar(node.gps.lat, node.gps.lng));
+      if (node.svg && node.buildingId) {
+        const key = floorKey(node.buildingId, node.floorId);
+        if (!indoor.has(key)) indoor.set(key, createSpatialIndex());
+        insertIntoIndex(indoor.get(key)!, node, node.svg);
+      }
+    }
+    cached = { size: graph.size, gps, indoor };
+    hybridGraphIndexes.set(graph, cached);
+  }
+  return cached;
+}
+
 /**
  * Find the closest node in the graph to a given point
  */
@@ -397,35 +481,14 @@ function findClosestNode(
   graph: Map<string, GraphNode>,
   point: { lat: number; lng: number } | { buildingId: string; floorId: string; x: number; y: number }
 ): string | null {
-  let closestId: string | null = null;
-  let minDist = Infinity;
+  const { gps, indoor } = getHybridGraphIndex(graph);
 
   // GPS-based search
   if ('lat' in point) {
-    for (const [nodeId, node] of graph.entries()) {
-      if (node.gps) {
-        const dist = gpsDistance(point, node.gps);
-        if (dist < minDist) {
-          minDist = dist;
-          closestId = nodeId;
-        }
-      }
-    }
-  }
-  // Indoor coordinate search
-  else {
-    for (const [nodeId, node] of graph.entries()) {
-      if (node.buildingId === point.buildingId &&
-          node.floorId === point.floorId &&
-          node.svg) {
-        const dist = svgDistance(point, node.svg);
-        if (dist < minDist) {
-          minDist = dist;
-          closestId = nodeId;
-        }
-      }
-    }
+    return nearestInIndex(gps, gpsToPlanar(point.lat, point.lng))?.item.id ?? null;
   }
 
-  return closestId;
+  // Indoor coordinate search
+  const floorIndex = indoor.get(floorKey(point.buildingId, point.floorId));
+  return floorIndex ? nearestInIndex(floorIndex, point)?.item.id ?? null : null;
 }
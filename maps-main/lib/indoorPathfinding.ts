@@ -5,12 +5,16 @@
  * to navigate between indoor POIs, including multi-floor navigation.
  */
 
+import { edgeCostForProfile, type RoutingProfile } from './routingProfiles';
+import { applyClosuresToSegments, type RouteClosure } from './routeClosures';
+import { buildSpatialIndex, createSpatialIndex, insertIntoIndex, nearestInIndex, type SpatialIndex } from './spatialIndex';
+
 interface Point {
   x: number;
   y: number;
 }
 
-interface PathSegment {
+export interface PathSegment {
   id: string;
   start: Point;
   end: Point;
@@ -23,6 +27,7 @@ interface GraphNode {
   point: Point;
   floorId?: string; // Track which floor this node is on
   edges: Map<string, number>; // nodeId -> distance
+  inaccessibleEdges?: Set<string>; // neighbour IDs reached via stairs
 }
 
 interface PathResult {
@@ -47,19 +52,34 @@ function distance(p1: Point, p2: Point): number {
 /**
  * Check if two points are close enough to be considered the same
  */
-function pointsEqual(p1: Point, p2: Point, threshold = 2): boolean {
+const SNAP_DISTANCE = 2; // Segment endpoints closer than this share a node
+
+function pointsEqual(p1: Point, p2: Point, threshold = SNAP_DISTANCE): boolean {
   return distance(p1, p2) < threshold;
 }
 
+/**
+ * Parse SVG markup into a document
+ * Browsers have DOMParser built in; API routes (Node) and the routing
+ * worker (Web Workers have no DOMParser) fall back to xmldom. Only getElementById/getElementsByTagName are used on the
+ * result since xmldom has no querySelector.
+ */
+function parseSvgDocument(svgContent: string): Document {
+  if (typeof DOMParser !== 'undefined') {
+    return new DOMParser().parseFromString(svgContent, 'image/svg+xml');
+  }
+  const { DOMParser: XmlDOMParser } = require('@xmldom/xmldom');
+  return new XmlDOMParser().parseFromString(svgContent, 'image/svg+xml') as Document;
+}
+
 /**
  * Parse SVG content to extract path segments from the Paths layer
  */
 export function parseSvgPaths(svgContent: string): PathSegment[] {
-  const parser = new DOMParser();
-  const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml');
+  const svgDoc = parseSvgDocument(svgContent);
 
   // Find the Paths layer
-  const pathsLayer = svgDoc.querySelector('#Paths');
+  const pathsLayer = svgDoc.getElementById('Paths');
   if (!pathsLayer) {
     console.warn('No Paths layer found in SVG');
     return [];
@@ -68,7 +88,7 @@ export function parseSvgPaths(svgContent: string): PathSegment[] {
   const segments: PathSegment[] = [];
 
   // Get all line elements in the Paths layer
-  const lines = pathsLayer.querySelectorAll('line');
+  const lines = Array.from(pathsLayer.getElementsByTagName('line'));
   lines.forEach((line, index) => {
     const x1 = parseFloat(line.getAttribute('x1') || '0');
     const y1 = parseFloat(line.getAttribute('y1') || '0');
@@ -96,24 +116,26 @@ export function parseSvgPaths(svgContent: string): PathSegment[] {
  */
 export function buildNavigationGraph(segments: PathSegment[]): Map<string, GraphNode> {
   const nodes = new Map<string, GraphNode>();
+  const index = createSpatialIndex<GraphNode>();
   let nodeIdCounter = 0;
 
   // Create a function to find or create a node for a point
   const getOrCreateNode = (point: Point): string => {
     // Check if we already have a node at this point
-    for (const [id, node] of nodes.entries()) {
-      if (pointsEqual(node.point, point)) {
-        return id;
-      }
+    const existing = nearestInIndex(index, point, SNAP_DISTANCE);
+    if (existing && pointsEqual(existing.item.point, point)) {
+      return existing.item.id;
     }
 
     // Create new node
     const id = `node-${nodeIdCounter++}`;
-    nodes.set(id, {
+    const node: GraphNode = {
       id,
       point,
       edges: new Map(),
-    });
+    };
+    nodes.set(id, node);
+    insertIntoIndex(index, node, point);
     return id;
   };
 
@@ -134,31 +156,45 @@ export function buildNavigationGraph(segments: PathSegment[]): Map<string, Graph
   return nodes;
 }
 
-/**
- * Find the closest node to a given point
- */
-export function findClosestNode(point: Point, graph: Map<string, GraphNode>): string | null {
-  let closestId: string | null = null;
-  let closestDist = Infinity;
-
-  for (const [id, node] of graph.entries()) {
-    const dist = distance(point, node.point);
-    if (dist < closestDist) {
-      closestDist = dist;
-      closestId = id;
+// Indexes for finished graphs, one over all nodes and one per floor.
+// Rebuilt if the graph has changed size since it was indexed.
+const graphIndexes = new WeakMap<
+  Map<string, GraphNode>,
+  { size: number; all: SpatialIndex<GraphNode>; byFloor: Map<string | undefined, SpatialIndex<GraphNode>> }
+>();
+
+function getGraphIndex(graph: Map<string, GraphNode>) {
+  let cached = graphIndexes.get(graph);
+  if (!cached || cached.size !== graph.size) {
+    const byFloor = new Map<string | undefined, SpatialIndex<GraphNode>>();
+    for (const node of graph.values()) {
+      if (!byFloor.has(node.floorId)) byFloor.set(node.floorId, createSpatialIndex());
+      insertIntoIndex(byFloor.get(node.floorId)!, node, node.point);
     }
+    cached = { size: graph.size, all: buildSpatialIndex(graph.values(), (node) => node.point), byFloor };
+    graphIndexes.set(graph, cached);
   }
+  return cached;
+}
 
-  return closestId;
+/**
+ * Find the closest node to a given point (on a given floor, if floorId is passed)
+ */
+export function findClosestNode(point: Point, graph: Map<string, GraphNode>, floorId?: string): string | null {
+  const { all, byFloor } = getGraphIndex(graph);
+  const index = floorId === undefined ? all : byFloor.get(floorId);
+  return index ? nearestInIndex(index, point)?.item.id ?? null : null;
 }
 
 /**
  * A* pathfinding algorithm
+ * The routing profile decides whether stair edges are penalised or skipped.
  */
 export function findPath(
   graph: Map<string, GraphNode>,
   startNodeId: string,
-  endNodeId: string
+  endNodeId: string,
+  profile: RoutingProfile = 'default'
 ): PathResult | null {
   const openSet = new Set<string>([startNodeId]);
   const cameFrom = new Map<string, string>();
@@ -207,7 +243,8 @@ export function findPath(
 
     // Check all neighbors
     for (const [neighborId, edgeLength] of currentNode.edges) {
-      const tentativeG = (gScore.get(current) ?? Infinity) + edgeLength;
+      const accessible = !currentNode.inaccessibleEdges?.has(neighborId);
+      const tentativeG = (gScore.get(current) ?? Infinity) + edgeCostForProfile(edgeLength, accessible, profile);
 
       if (tentativeG < (gScore.get(neighborId) ?? Infinity)) {
         // This path is better
@@ -228,15 +265,16 @@ export function findPath(
 }
 
 /**
- * Find a path from one POI to another
+ * Find a path from one POI to another over a floor's path segments
+ * Closures for the start POI's floor are applied when its floorId is given.
  */
 export function findPathBetweenPOIs(
-  svgContent: string,
-  startPOI: { x: number; y: number },
-  endPOI: { x: number; y: number }
+  floorSegments: PathSegment[],
+  startPOI: { x: number; y: number; floorId?: string },
+  endPOI: { x: number; y: number },
+  closures: RouteClosure[] = []
 ): PathResult | null {
-  // Parse SVG paths and build graph
-  const segments = parseSvgPaths(svgContent);
+  const segments = startPOI.floorId ? applyClosuresToSegments(floorSegments, closures, startPOI.floorId) : floorSegments;
   if (segments.length === 0) {
     console.error('No path segments found in SVG');
     return null;
@@ -287,18 +325,10 @@ export function pathToSvgString(nodes: Point[]): string {
   return commands.join(' ');
 }
 
-/**
- * Parse SVG content with floor ID tracking
- */
-function parseSvgPathsWithFloor(svgContent: string, floorId: string): PathSegment[] {
-  const segments = parseSvgPaths(svgContent);
-  return segments.map(seg => ({ ...seg, floorId }));
-}
-
 /**
  * Portal connection point for multi-floor navigation
  */
-interface Portal {
+export interface Portal {
   id: string; // e.g., "Stair.1" or "Elev.2"
   point: Point; // midpoint of the portal
   floorId: string;
@@ -309,11 +339,10 @@ interface Portal {
  * Parse portals (stairs/elevators) from SVG content
  */
 function parsePortals(svgContent: string, floorId: string): Portal[] {
-  const parser = new DOMParser();
-  const svgDoc = parser.parseFromString(svgContent, 'image/svg+xml');
+  const svgDoc = parseSvgDocument(svgContent);
 
   // Find the Portals layer
-  const portalsLayer = svgDoc.querySelector('#Portals');
+  const portalsLayer = svgDoc.getElementById('Portals');
   if (!portalsLayer) {
     console.warn(`No Portals layer found in SVG for floor ${floorId}`);
     return [];
@@ -322,7 +351,7 @@ function parsePortals(svgContent: string, floorId: string): Portal[] {
   const portals: Portal[] = [];
 
   // Get all line elements in the Portals layer
-  const lines = portalsLayer.querySelectorAll('line');
+  const lines = Array.from(portalsLayer.getElementsByTagName('line'));
   lines.forEach(line => {
     const x1 = parseFloat(line.getAttribute('x1') || '0');
     const y1 = parseFloat(line.getAttribute('y1') || '0');
@@ -356,32 +385,57 @@ function parsePortals(svgContent: string, floorId: string): Portal[] {
   return portals;
 }
 
+/**
+ * A floor plan reduced to what routing needs: its path segments and portals
+ * Compiled once when the floor's SVG is uploaded (lib/floorGraphs.ts) and
+ * served with the building, so routing never has to parse SVG markup.
+ */
+export interface FloorGraphData {
+  floorId: string;
+  segments: PathSegment[];
+  portals: Portal[];
+}
+
+/**
+ * Compile a floor plan SVG into routing data
+ */
+export function compileFloorPlan(svgContent: string, floorId: string): FloorGraphData {
+  return {
+    floorId,
+    segments: parseSvgPaths(svgContent).map(segment => ({ ...segment, floorId })),
+    portals: parsePortals(svgContent, floorId),
+  };
+}
+
 /**
  * Build multi-floor navigation graph with portal-based connections
  */
-export function buildMultiFloorGraph(
-  floorData: Array<{ floorId: string; segments: PathSegment[]; svgContent: string }>
-): Map<string, GraphNode> {
+export function buildMultiFloorGraph(floorData: FloorGraphData[]): Map<string, GraphNode> {
   const nodes = new Map<string, GraphNode>();
+  const floorIndexes = new Map<string, SpatialIndex<GraphNode>>();
   let nodeIdCounter = 0;
 
   // Create a function to find or create a node for a point on a specific floor
   const getOrCreateNode = (point: Point, floorId: string): string => {
+    if (!floorIndexes.has(floorId)) floorIndexes.set(floorId, createSpatialIndex());
+    const index = floorIndexes.get(floorId)!;
+
     // Check if we already have a node at this point on this floor
-    for (const [id, node] of nodes.entries()) {
-      if (node.floorId === floorId && pointsEqual(node.point, point)) {
-        return id;
-      }
+    const existing = nearestInIndex(index, point, SNAP_DISTANCE);
+    if (existing && pointsEqual(existing.item.point, point)) {
+      return existing.item.id;
     }
 
     // Create new node
     const id = `node-${floorId}-${nodeIdCounter++}`;
-    nodes.set(id, {
+    const node: GraphNode = {
       id,
       point,
       floorId,
       edges: new Map(),
-    });
+    };
+    nodes.set(id, node);
+    insertIntoIndex(index, node, point);
     return id;
   };
 
@@ -400,12 +454,7 @@ export function buildMultiFloorGraph(
     });
   });
 
-  // Parse portals from all floors
-  const allPortals: Portal[] = [];
-  floorData.forEach(({ floorId, svgContent }) => {
-    const floorPortals = parsePortals(svgContent, floorId);
-    allPortals.push(...floorPortals);
-  });
+  const allPortals = floorData.flatMap(({ portals }) => portals);
 
   console.log(`🚪 Found ${allPortals.length} total portals across all floors`);
 
@@ -442,33 +491,22 @@ export function buildMultiFloorGraph(
         }
 
         // Find closest path nodes to each portal
-        const nodesOnFloor1 = Array.from(nodes.values()).filter(n => n.floorId === portal1.floorId);
-        const nodesOnFloor2 = Array.from(nodes.values()).filter(n => n.floorId === portal2.floorId);
-
-        let closestNode1: GraphNode | null = null;
-        let minDist1 = Infinity;
-        for (const node of nodesOnFloor1) {
-          const dist = distance(node.point, portal1.point);
-          if (dist < minDist1 && dist < PORTAL_CONNECTION_THRESHOLD) {
-            minDist1 = dist;
-            closestNode1 = node;
-          }
-        }
-
-        let closestNode2: GraphNode | null = null;
-        let minDist2 = Infinity;
-        for (const node of nodesOnFloor2) {
-          const dist = distance(node.point, portal2.point);
-          if (dist < minDist2 && dist < PORTAL_CONNECTION_THRESHOLD) {
-            minDist2 = dist;
-            closestNode2 = node;
-          }
-        }
-
-        if (closestNode1 && closestNode2) {
+        const floorIndex1 = floorIndexes.get(portal1.floorId);
+        const floorIndex2 = floorIndexes.get(portal2.floorId);
+        const closest1 = floorIndex1 ? nearestInIndex(floorIndex1, portal1.point, PORTAL_CONNECTION_THRESHOLD) : null;
+        const closest2 = floorIndex2 ? nearestInIndex(floorIndex2, portal2.point, PORTAL_CONNECTION_THRESHOLD) : null;
+
+        if (closest1 && closest2) {
+          const { item: closestNode1, distance: minDist1 } = closest1;
+          const { item: closestNode2, distance: minDist2 } = closest2;
           // Create bidirectional connection between the two floors via this portal
           closestNode1.edges.set(closestNode2.id, FLOOR_CHANGE_COST + minDist1 + minDist2);
           closestNode2.edges.set(closestNode1.id, FLOOR_CHANGE_COST + minDist1 + minDist2);
+          // Stairs are not step-free; elevators are
+          if (/^Stair\./i.test(portalId)) {
+            (closestNode1.inaccessibleEdges ??= new Set()).add(closestNode2.id);
+            (closestNode2.inaccessibleEdges ??= new Set()).add(closestNode1.id);
+          }
           portalConnectionCount++;
           console.log(`🪜 Portal connection #${portalConnectionCount}: ${portalId} - ${portal1.floorId} ↔ ${portal2.floorId}`);
         } else {
@@ -486,17 +524,17 @@ export function buildMultiFloorGraph(
  * Find path between POIs across multiple floors
  */
 export async function findMultiFloorPath(
-  floors: Array<{ floorId: string; svgContent: string }>,
+  floors: FloorGraphData[],
   startPOI: { x: number; y: number; floorId: string },
-  endPOI: { x: number; y: number; floorId: string }
+  endPOI: { x: number; y: number; floorId: string },
+  profile: RoutingProfile = 'default',
+  closures: RouteClosure[] = []
 ): Promise<MultiFloorPathResult | null> {
   console.log(`🗺️  Multi-floor pathfinding: ${startPOI.floorId} → ${endPOI.floorId}`);
 
-  // Parse segments from all floors and prepare data for graph building
   const floorData = floors.map(floor => ({
-    floorId: floor.floorId,
-    segments: parseSvgPathsWithFloor(floor.svgContent, floor.floorId),
-    svgContent: floor.svgContent,
+    ...floor,
+    segments: applyClosuresToSegments(floor.segments, closures, floor.floorId),
   }));
 
   const totalSegments = floorData.reduce((sum, f) => sum + f.segments.length, 0);
@@ -512,29 +550,9 @@ export async function findMultiFloorPath(
     return null;
   }
 
-  // Find start node on start floor
-  const nodesOnStartFloor = Array.from(graph.values()).filter(n => n.floorId === startPOI.floorId);
-  let startNodeId: string | null = null;
-  let minStartDist = Infinity;
-  for (const node of nodesOnStartFloor) {
-    const dist = distance(node.point, startPOI);
-    if (dist < minStartDist) {
-      minStartDist = dist;
-      startNodeId = node.id;
-    }
-  }
-
-  // Find end node on end floor
-  const nodesOnEndFloor = Array.from(graph.values()).filter(n => n.floorId === endPOI.floorId);
-  let endNodeId: string | null = null;
-  let minEndDist = Infinity;
-  for (const node of nodesOnEndFloor) {
-    const dist = distance(node.point, endPOI);
-    if (dist < minEndDist) {
-      minEndDist = dist;
-      endNodeId = node.id;
-    }
-  }
+  // Find start and end nodes on their floors
+  const startNodeId = findClosestNode(startPOI, graph, startPOI.floorId);
+  const endNodeId = findClosestNode(endPOI, graph, endPOI.floorId);
 
   if (!startNodeId || !endNodeId) {
     console.error('Could not find nodes near POIs');
@@ -544,7 +562,7 @@ export async function findMultiFloorPath(
   console.log(`🎯 Finding multi-floor path from ${startNodeId} (${startPOI.floorId}) to ${endNodeId} (${endPOI.floorId})`);
 
   // Run A* on the multi-floor graph
-  const path = findPath(graph, startNodeId, endNodeId);
+  const path = findPath(graph, startNodeId, endNodeId, profile);
 
   if (!path) {
     console.warn('❌ No multi-floor path found between POIs');
@@ -552,14 +570,11 @@ export async function findMultiFloorPath(
   }
 
   // Add floor information to each point in the path
+  const { all } = getGraphIndex(graph);
   const nodesWithFloors = path.nodes.map(point => {
     // Find which node this corresponds to
-    for (const [id, node] of graph.entries()) {
-      if (pointsEqual(node.point, point, 0.1)) {
-        return { ...point, floorId: node.floorId };
-      }
-    }
-    return { ...point, floorId: undefined };
+    const node = nearestInIndex(all, point, 0.1)?.item;
+    return { ...point, floorId: node?.floorId };
   });
 
   console.log(`✅ Found multi-floor path with ${nodesWithFloors.length} nodes, distance: ${path.distance.toFixed(2)}px`);
@@ -0,0 +1,211 @@
+import type { PathGraph, PathNode } from '@/types';
+import { findNearestNode } from './pathfinding';
+import { calculateDistance, gpsToSvg } from './coordinateMapper';
+import { nodesToGps, WALKING_SPEED } from './turnByTurn';
+import { edgeCostForProfile, type RoutingProfile } from './routingProfiles';
+
+/**
+ * Walking isochrones ("what can I reach in N minutes")
+ * A bounded Dijkstra from the nearest graph node finds how far along each
+ * street you can walk in the time budget. The reachable area is drawn as a
+ * star-shaped polygon around the origin: the furthest reachable point in
+ * each direction, padded a little for places set back from the street.
+ */
+
+export const ISOCHRONE_MINUTES = [5, 10, 15] as const;
+
+export const WALKING_SPEEDS = {
+  relaxed: { label: 'Relaxed', metersPerSecond: 1.0 },
+  average: { label: 'Average', metersPerSecond: WALKING_SPEED },
+  brisk: { label: 'Brisk', metersPerSecond: 1.8 },
+} as const;
+
+export type WalkingSpeed = keyof typeof WALKING_SPEEDS;
+
+const SECTORS = 48; // Directions sampled around the origin
+const SAMPLES_PER_EDGE = 4; // Points sampled along partly reachable edges
+const BUFFER_METERS = 40; // Places sit a little back from the street
+const MAX_ORIGIN_DISTANCE = 500; // SVG units from the origin to its nearest node
+
+type Point = { x: number; y: number };
+
+export interface Isochrone {
+  minutes: number;
+  polygon: Point[]; // SVG coordinates
+  reachable: Record<string, number>; // Node ID -> walking distance in meters
+}
+
+/**
+ * Average meters per SVG unit across the graph's straight edges
+ */
+export function metersPerSvgUnit(graph: PathGraph): number {
+  let meters = 0;
+  let units = 0;
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    const from = graph.nodesById[fromId];
+    for (const edge of edges) {
+      const to = graph.nodesById[edge.to];
+      if (!from || !to || edge.points?.length) continue;
+      const [a, b] = nodesToGps([from, to]);
+      meters += calculateDistance(a, b);
+      units += Math.hypot(to.x - from.x, to.y - from.y);
+    }
+  }
+  return units > 0 ? meters / units : 1;
+}
+
+/**
+ * Walking distance in meters from one node to everything within maxMeters
+ */
+export function boundedDistancesFrom(
+  graph: PathGraph,
+  sourceId: string,
+  maxMeters: number,
+  profile: RoutingProfile = 'default',
+  scale: number = metersPerSvgUnit(graph)
+): Record<string, number> {
+  const dist: Record<string, number> = { [sourceId]: 0 };
+  const open = new Set<string>([sourceId]);
+  const done = new Set<string>();
+
+  while (open.size > 0) {
+    let currentId = '';
+    let currentDist = Infinity;
+    for (const id of open) {
+      if (dist[id] < currentDist) {
+        currentId = id;
+        currentDist = dist[id];
+      }
+    }
+    if (!currentId) break;
+
+    open.delete(currentId);
+    done.add(currentId);
+
+    for (const edge of graph.adjacency[currentId] ?? []) {
+      if (done.has(edge.to)) continue;
+      const tentative = currentDist + edgeCostForProfile(edge.distance * scale, edge.accessible, profile);
+      if (tentative <= maxMeters && tentative < (dist[edge.to] ?? Infinity)) {
+        dist[edge.to] = tentative;
+        open.add(edge.to);
+      }
+    }
+  }
+
+  return dist;
+}
+
+function pointAlong(line: Point[], fraction: number): Point {
+  const lengths = line.slice(1).map((p, i) => Math.hypot(p.x - line[i].x, p.y - line[i].y));
+  let remaining = lengths.reduce((a, b) => a + b, 0) * fraction;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] || i === lengths.length - 1) {
+      const t = lengths[i] > 0 ? Math.min(1, remaining / lengths[i]) : 0;
+      return { x: line[i].x + (line[i + 1].x - line[i].x) * t, y: line[i].y + (line[i + 1].y - line[i].y) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return line[line.length - 1];
+}
+
+/**
+ * Star-shaped polygon through the furthest reachable point in each direction
+ */
+function reachPolygon(
+  graph: PathGraph,
+  origin: Point,
+  dist: Record<string, number>,
+  maxMeters: number,
+  profile: RoutingProfile,
+  scale: number
+): Point[] {
+  const samples: Point[] = [origin];
+  for (const [id, d] of Object.entries(dist)) {
+    if (d > maxMeters) continue;
+    const from = graph.nodesById[id];
+    samples.push(from);
+
+    for (const edge of graph.adjacency[id] ?? []) {
+      const to = graph.nodesById[edge.to];
+      const cost = edgeCostForProfile(edge.distance * scale, edge.accessible, profile);
+      if (!to || !Number.isFinite(cost) || cost <= 0) continue;
+      const reach = Math.min(1, (maxMeters - d) / cost);
+      const line = [from, ...(edge.points ?? []), to];
+      for (let k = 1; k <= SAMPLES_PER_EDGE; k++) {
+        samples.push(pointAlong(line, (reach * k) / SAMPLES_PER_EDGE));
+      }
+    }
+  }
+
+  const buffer = BUFFER_METERS / scale;
+  const furthest: Array<{ angle: number; radius: number } | undefined> = new Array(SECTORS);
+  for (const p of samples) {
+    const angle = Math.atan2(p.y - origin.y, p.x - origin.x);
+    const radius = Math.hypot(p.x - origin.x, p.y - origin.y) + buffer;
+    const sector = Math.floor(((angle + Math.PI) / (2 * Math.PI)) * SECTORS) % SECTORS;
+    if (!furthest[sector] || radius > furthest[sector]!.radius) {
+      furthest[sector] = { angle, radius };
+    }
+  }
+
+  return furthest.flatMap((f) =>
+    f ? [{ x: origin.x + Math.cos(f.angle) * f.radius, y: origin.y + Math.sin(f.angle) * f.radius }] : []
+  );
+}
+
+/**
+ * Reachable areas for each time budget, smallest first
+ * Returns an empty list if the origin is too far from the walkable network.
+ */
+export function computeIsochrones(
+  graph: PathGraph,
+  origin: { lat: number; lng: number },
+  minutes: readonly number[] = ISOCHRONE_MINUTES,
+  options: { metersPerSecond?: number; profile?: RoutingProfile } = {}
+): Isochrone[] {
+  const { metersPerSecond = WALKING_SPEED, profile = 'default' } = options;
+  const originSvg = gpsToSvg(origin.lat, origin.lng);
+  const start: PathNode | null = findNearestNode(graph, originSvg, MAX_ORIGIN_DISTANCE);
+  if (!start || minutes.length === 0) return [];
+
+  const scale = metersPerSvgUnit(graph);
+  const budgets = [...minutes].sort((a, b) => a - b);
+  // The walk from the origin to the network comes out of every budget
+  const approach = Math.hypot(originSvg.x - start.x, originSvg.y - start.y) * scale;
+  const fromStart = boundedDistancesFrom(graph, start.id, budgets[budgets.length - 1] * 60 * metersPerSecond - approach, profile, scale);
+  const dist = Object.fromEntries(Object.entries(fromStart).map(([id, d]) => [id, d + approach]));
+
+  return budgets.map((m) => {
+    const maxMeters = m * 60 * metersPerSecond;
+    const reachable = Object.fromEntries(Object.entries(dist).filter(([, d]) => d <= maxMeters));
+    return {
+      minutes: m,
+      polygon: reachPolygon(graph, originSvg, reachable, maxMeters, profile, scale),
+      reachable,
+    };
+  });
+}
+
+/**
+ * Ray-casting point-in-polygon test (SVG coordinates)
+ */
+function pointInPolygon(point: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+        point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a GPS location falls inside an isochrone's reachable area
+ */
+export function isWithinIsochrone(isochrone: Isochrone, lat: number, lng: number): boolean {
+  if (isochrone.polygon.length < 3) return false;
+  return pointInPolygon(gpsToSvg(lat, lng), isochrone.polygon);
+}
@@ -0,0 +1,23 @@
+// @ts-nocheck - Test file without test framework types configured
+import { solveVisitOrder } from './itinerary';
+
+// Stops on a line at 0, 10, 20, 30, 40; visiting them in order is optimal
+const positions = [0, 30, 10, 40, 20];
+const matrix = positions.map((a) => positions.map((b) => Math.abs(a - b)));
+
+test('visits collinear stops in order', () => {
+  expect(solveVisitOrder(matrix)).toEqual([2, 4, 1, 3]);
+});
+
+test('keeps a fixed final destination last', () => {
+  // Index 4 (position 20) is the destination
+  expect(solveVisitOrder(matrix, { fixedEnd: true })).toEqual([2, 1, 3]);
+});
+
+test('2-opt removes crossings left by nearest neighbour', () => {
+  // Unit square with the start in a corner: the loop must go around the edge
+  const square = [[0, 0], [0, 1], [1, 1], [1, 0]];
+  const dist = square.map(([ax, ay]) => square.map(([bx, by]) => Math.hypot(ax - bx, ay - by)));
+  const order = solveVisitOrder(dist, { returnToStart: true });
+  expect([[1, 2, 3], [3, 2, 1]]).toContainEqual(order);
+});
@@ -0,0 +1,201 @@
+import type { Intersection, PathGraph, PathNode } from '@/types';
+import { findMultiStopRoute, findNearestNode, type MultiStopDiagnostics } from './pathfinding';
+import { routeDistanceMeters, walkingMinutes } from './turnByTurn';
+import { edgeCostForProfile, type RoutingProfile } from './routingProfiles';
+
+/**
+ * Itinerary optimisation ("optimise order")
+ * Given a start point and a set of stops, find a short visiting order by
+ * walking distance on the PathGraph. Exact TSP is overkill for the ≤20 stops
+ * we plan for, so we use nearest-neighbour followed by 2-opt improvement.
+ */
+
+export const MAX_ITINERARY_STOPS = 20;
+
+export interface ItineraryStop extends Intersection {
+  placeId?: string;
+}
+
+export interface ItineraryPlan {
+  order: number[];            // Indices into the input stops, in visiting order
+  route: MultiStopDiagnostics; // Stitched route: start → stops (→ end or start)
+  legDistances: number[];     // Meters per leg
+  totalDistanceMeters: number;
+  totalDurationMinutes: number;
+}
+
+/**
+ * Shortest walking distance (SVG units) from one node to every other node (Dijkstra)
+ */
+export function shortestDistancesFrom(
+  graph: PathGraph,
+  sourceId: string,
+  profile: RoutingProfile = 'default'
+): Record<string, number> {
+  const dist: Record<string, number> = {};
+  for (const id of Object.keys(graph.nodesById)) {
+    dist[id] = Infinity;
+  }
+  dist[sourceId] = 0;
+
+  const open = new Set<string>([sourceId]);
+  const done = new Set<string>();
+
+  while (open.size > 0) {
+    // node in open set with the lowest distance
+    let currentId = '';
+    let currentDist = Infinity;
+    for (const id of open) {
+      if (dist[id] < currentDist) {
+        currentId = id;
+        currentDist = dist[id];
+      }
+    }
+    if (!currentId) break;
+
+    open.delete(currentId);
+    done.add(currentId);
+
+    for (const edge of graph.adjacency[currentId] ?? []) {
+      if (done.has(edge.to)) continue;
+      const tentative = currentDist + edgeCostForProfile(edge.distance, edge.accessible, profile);
+      if (tentative < dist[edge.to]) {
+        dist[edge.to] = tentative;
+        open.add(edge.to);
+      }
+    }
+  }
+
+  return dist;
+}
+
+/**
+ * Pairwise walking distances between graph nodes (Infinity where unreachable)
+ */
+export function buildDistanceMatrix(
+  graph: PathGraph,
+  nodes: PathNode[],
+  profile: RoutingProfile = 'default'
+): number[][] {
+  return nodes.map((from) => {
+    const dist = shortestDistancesFrom(graph, from.id, profile);
+    return nodes.map((to) => dist[to.id] ?? Infinity);
+  });
+}
+
+function tourLength(matrix: number[][], tour: number[]): number {
+  let total = 0;
+  for (let i = 1; i < tour.length; i++) {
+    total += matrix[tour[i - 1]][tour[i]];
+  }
+  return total;
+}
+
+/**
+ * Solve the visiting order for a distance matrix where index 0 is the start
+ * Returns the indices of the stops to visit, in order. With returnToStart
+ * the tour is closed back to index 0; with fixedEnd the last index is the
+ * final destination (and is not included in the result); otherwise the walk
+ * ends at whichever stop makes it shortest.
+ */
+export function solveVisitOrder(
+  matrix: number[][],
+  options: { returnToStart?: boolean; fixedEnd?: boolean } = {}
+): number[] {
+  const n = matrix.length;
+  if (n <= 1) return [];
+
+  const fixedLast = options.returnToStart ? 0 : options.fixedEnd ? n - 1 : null;
+
+  // Nearest neighbour from the start
+  const tour = [0];
+  const unvisited = new Set<number>();
+  for (let i = 1; i < n; i++) {
+    if (i !== fixedLast) unvisited.add(i);
+  }
+
+  while (unvisited.size > 0) {
+    const last = tour[tour.length - 1];
+    let next = -1;
+    let nextDist = Infinity;
+    for (const candidate of unvisited) {
+      if (next === -1 || matrix[last][candidate] < nextDist) {
+        next = candidate;
+        nextDist = matrix[last][candidate];
+      }
+    }
+    tour.push(next);
+    unvisited.delete(next);
+  }
+  if (fixedLast !== null) tour.push(fixedLast);
+
+  // 2-opt: reverse segments while doing so shortens the walk.
+  // The start (and any fixed end) stays put; an open tour may also reverse its tail.
+  const lastIndex = fixedLast !== null ? tour.length - 2 : tour.length - 1;
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < lastIndex; i++) {
+      for (let k = i + 1; k <= lastIndex; k++) {
+        const candidate = [...tour.slice(0, i), ...tour.slice(i, k + 1).reverse(), ...tour.slice(k + 1)];
+        if (tourLength(matrix, candidate) < tourLength(matrix, tour) - 1e-9) {
+          tour.splice(0, tour.length, ...candidate);
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return tour.slice(1, fixedLast !== null ? -1 : undefined);
+}
+
+/**
+ * Plan a walking itinerary from a start point through every stop
+ * Pass `end` to finish at a fixed destination, or `returnToStart` for a loop.
+ * `profile` selects a routing profile such as step-free.
+ * Returns null if the start or any stop cannot be reached on the graph.
+ */
+export function planItinerary(
+  graph: PathGraph,
+  start: ItineraryStop,
+  stops: ItineraryStop[],
+  options: { returnToStart?: boolean; end?: ItineraryStop; profile?: RoutingProfile } = {}
+): ItineraryPlan | null {
+  const profile = options.profile ?? 'default';
+  const points = [start, ...stops, ...(options.end ? [options.end] : [])];
+  const nodes = points.map((p) => findNearestNode(graph, { x: p.x, y: p.y }, 2000));
+  if (nodes.some((node) => !node)) {
+    console.error('❌ Itinerary: some stops are outside the walkable area');
+    return null;
+  }
+
+  const matrix = buildDistanceMatrix(graph, nodes as PathNode[], profile);
+  if (matrix[0].some((d) => !Number.isFinite(d))) {
+    console.error('❌ Itinerary: some stops are not reachable from the start');
+    return null;
+  }
+
+  const visit = solveVisitOrder(matrix, {
+    returnToStart: options.returnToStart,
+    fixedEnd: Boolean(options.end),
+  });
+  const ordered = [start, ...visit.map((i) => points[i])];
+  if (options.end) ordered.push(options.end);
+  else if (options.returnToStart) ordered.push(start);
+
+  const route = findMultiStopRoute(graph, ordered, ordered.map((p) => p.placeId), profile);
+  if (route.algorithm === 'failed') return null;
+
+  const legDistances = route.legs.map(routeDistanceMeters);
+  const totalDistanceMeters = legDistances.reduce((a, b) => a + b, 0);
+
+  console.log(`✅ Itinerary planned: ${stops.length} stops, ${Math.round(totalDistanceMeters)}m`);
+
+  return {
+    order: visit.map((i) => i - 1),
+    route,
+    legDistances,
+    totalDistanceMeters,
+    totalDurationMinutes: walkingMinutes(totalDistanceMeters),
+  };
+}
@@ -0,0 +1,37 @@
+// @ts-nocheck - Test file without test framework types configured
+import { readFileSync } from 'fs';
+import { decodeGraph } from './graphBinary';
+import { aStarSearch } from './pathfinding';
+import { checkLandmarkConsistency, computeLandmarks, hasLandmarks, landmarkSearch } from './landmarks';
+import { edgeCostForProfile } from './routingProfiles';
+
+const file = readFileSync(`${process.cwd()}/public/graph/sydney-graph.bin`);
+const graph = decodeGraph(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+const ids = Object.keys(graph.nodesById);
+const allPairs = ids.flatMap((from) => ids.map((to) => [from, to]));
+
+test('stored landmarks match the graph', () => {
+  expect(hasLandmarks(graph)).toBe(true);
+  expect(graph.landmarks).toEqual(computeLandmarks({ nodesById: graph.nodesById, adjacency: graph.adjacency }));
+});
+
+test('finds the same route lengths as plain A*', () => {
+  expect(checkLandmarkConsistency(graph, allPairs, aStarSearch)).toEqual([]);
+});
+
+test('stays exact when a profile makes edges dearer', () => {
+  const stepFree = (_fromId, edge) => edgeCostForProfile(edge.distance, edge.accessible, 'step-free');
+  for (const [from, to] of allPairs.slice(0, 500)) {
+    const start = graph.nodesById[from];
+    const end = graph.nodesById[to];
+    const expected = aStarSearch(graph, start, end, stepFree)?.cost ?? null;
+    const actual = landmarkSearch(graph, start, end, stepFree)?.cost ?? null;
+    if (expected === null) expect(actual).toBeNull();
+    else expect(Math.abs(actual - expected)).toBeLessThan(1e-6);
+  }
+});
+
+test('ignores landmark data for a different graph', () => {
+  const { [ids[0]]: _removed, ...nodesById } = graph.nodesById;
+  expect(hasLandmarks({ ...graph, nodesById })).toBe(false);
+});
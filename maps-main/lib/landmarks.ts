@@ -0,0 +1,307 @@
+import type { LandmarkData, PathGraph, PathNode } from '@/types';
+
+/**
+ * ALT routing (A*, landmarks, triangle inequality)
+ * A few landmark nodes are picked offline and the shortest distance from and
+ * to each of them is stored for every node (see scripts/buildGraph.ts). The
+ * triangle inequality turns those into a lower bound on the remaining
+ * distance that is much tighter than the straight line, so A* settles far
+ * fewer nodes.
+ *
+ * Closures and routing profiles only remove edges or make them dearer, which
+ * keeps every bound valid: routes stay exactly shortest with no
+ * re-preprocessing. A contraction hierarchy would need rebuilding for each
+ * set of closures, which is why this uses landmarks instead.
+ */
+
+export const DEFAULT_LANDMARK_COUNT = 8;
+
+type GraphEdge = PathGraph['adjacency'][string][number];
+type EdgeCost = (fromId: string, edge: GraphEdge) => number;
+
+export interface LandmarkMismatch {
+  from: string;
+  to: string;
+  expected: number | null; // Reference route cost, null if it found none
+  actual: number | null; // Landmark route cost
+}
+
+// Binary min-heap of [priority, nodeId]
+type Heap = Array<[number, string]>;
+
+function heapPush(heap: Heap, entry: [number, string]): void {
+  heap.push(entry);
+  let i = heap.length - 1;
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (heap[parent][0] <= heap[i][0]) break;
+    [heap[parent], heap[i]] = [heap[i], heap[parent]];
+    i = parent;
+  }
+}
+
+function heapPop(heap: Heap): [number, string] | undefined {
+  const top = heap[0];
+  const last = heap.pop();
+  if (heap.length > 0 && last) {
+    heap[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+      if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+      if (smallest === i) break;
+      [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+      i = smallest;
+    }
+  }
+  return top;
+}
+
+/**
+ * Dijkstra from one node to every node it can reach
+ */
+function distancesFrom(adjacency: PathGraph['adjacency'], sourceId: string): Map<string, number> {
+  const dist = new Map<string, number>([[sourceId, 0]]);
+  const done = new Set<string>();
+  const heap: Heap = [[0, sourceId]];
+
+  for (let entry = heapPop(heap); entry; entry = heapPop(heap)) {
+    const [d, id] = entry;
+    if (done.has(id)) continue;
+    done.add(id);
+
+    for (const edge of adjacency[id] ?? []) {
+      const next = d + edge.distance;
+      if (next < (dist.get(edge.to) ?? Infinity)) {
+        dist.set(edge.to, next);
+        heapPush(heap, [next, edge.to]);
+      }
+    }
+  }
+  return dist;
+}
+
+function reverseAdjacency(graph: PathGraph): PathGraph['adjacency'] {
+  const reversed: PathGraph['adjacency'] = {};
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    for (const edge of edges) {
+      (reversed[edge.to] ??= []).push({ to: fromId, distance: edge.distance });
+    }
+  }
+  return reversed;
+}
+
+/**
+ * Pick landmarks and compute their distance tables
+ * Landmarks are chosen farthest-first, so they sit around the edge of the
+ * network (and at least one lands in each disconnected piece).
+ */
+export function computeLandmarks(graph: PathGraph, count: number = DEFAULT_LANDMARK_COUNT): LandmarkData {
+  const nodeIds = Object.keys(graph.nodesById);
+  const reversed = reverseAdjacency(graph);
+  const landmarks: LandmarkData['landmarks'] = [];
+  if (nodeIds.length === 0) return { nodeIds, landmarks };
+
+  const toTable = (dist: Map<string, number>) => nodeIds.map((id) => dist.get(id) ?? null);
+
+  // Distance from each node to its closest landmark so far
+  const closest = new Map<string, number>();
+
+  // Start from the node farthest from an arbitrary one
+  const seed = distancesFrom(graph.adjacency, nodeIds[0]);
+  let nextId = nodeIds[0];
+  for (const [id, d] of seed) {
+    if (d > seed.get(nextId)!) nextId = id;
+  }
+
+  while (landmarks.length < Math.min(count, nodeIds.length)) {
+    const from = distancesFrom(graph.adjacency, nextId);
+    const to = distancesFrom(reversed, nextId);
+    landmarks.push({ id: nextId, from: toTable(from), to: toTable(to) });
+
+    for (const id of nodeIds) {
+      const d = Math.min(from.get(id) ?? Infinity, to.get(id) ?? Infinity);
+      closest.set(id, Math.min(closest.get(id) ?? Infinity, d));
+    }
+
+    // Farthest node from every landmark picked so far
+    let farthest = 0;
+    for (const id of nodeIds) {
+      const d = closest.get(id)!;
+      if (d > farthest) {
+        farthest = d;
+        nextId = id;
+      }
+    }
+    if (farthest === 0) break;
+  }
+
+  return { nodeIds, landmarks };
+}
+
+interface LandmarkTables {
+  indexById: Map<string, number>;
+  from: Float64Array[];
+  to: Float64Array[];
+}
+
+// Tables are unpacked once per graph. Keyed on nodesById so graphs that share
+// nodes (e.g. with closures applied) share them; null if the data is stale.
+const landmarkTables = new WeakMap<PathGraph['nodesById'], LandmarkTables | null>();
+
+function toFloats(table: Array<number | null>): Float64Array {
+  return Float64Array.from(table, (d) => d ?? Infinity);
+}
+
+function getLandmarkTables(graph: PathGraph): LandmarkTables | null {
+  if (!graph.landmarks) return null;
+  if (landmarkTables.has(graph.nodesById)) return landmarkTables.get(graph.nodesById)!;
+
+  const { nodeIds, landmarks } = graph.landmarks;
+  const valid =
+    landmarks.length > 0 &&
+    nodeIds.length === Object.keys(graph.nodesById).length &&
+    nodeIds.every((id) => id in graph.nodesById);
+
+  if (!valid) console.warn('⚠️  Landmark data does not match the graph - falling back to plain A*');
+  const tables = valid
+    ? {
+        indexById: new Map(nodeIds.map((id, i) => [id, i])),
+        from: landmarks.map((l) => toFloats(l.from)),
+        to: landmarks.map((l) => toFloats(l.to)),
+      }
+    : null;
+  landmarkTables.set(graph.nodesById, tables);
+  return tables;
+}
+
+/**
+ * Whether the graph carries landmark data that matches its nodes
+ */
+export function hasLandmarks(graph: PathGraph): boolean {
+  return getLandmarkTables(graph) !== null;
+}
+
+// A few stored edge lengths are slightly shorter than the straight line between
+// their ends, so the straight line is scaled down by the smallest such ratio to
+// stay a true lower bound. Keyed on adjacency, which closures replace.
+const straightLineScales = new WeakMap<PathGraph['adjacency'], number>();
+
+function straightLineScale(graph: PathGraph): number {
+  const cached = straightLineScales.get(graph.adjacency);
+  if (cached !== undefined) return cached;
+
+  let scale = 1;
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    const from = graph.nodesById[fromId];
+    if (!from) continue;
+    for (const edge of edges) {
+      const to = graph.nodesById[edge.to];
+      const straight = to ? Math.hypot(to.x - from.x, to.y - from.y) : 0;
+      if (straight > 0) scale = Math.min(scale, edge.distance / straight);
+    }
+  }
+  straightLineScales.set(graph.adjacency, scale);
+  return scale;
+}
+
+/**
+ * Straight-line lower bound on the distance from v to t, for plain A*
+ */
+export function straightLineBound(graph: PathGraph, v: PathNode, t: PathNode): number {
+  return Math.hypot(v.x - t.x, v.y - t.y) * straightLineScale(graph);
+}
+
+/**
+ * Lower bound on the distance from v to t: the best triangle-inequality bound
+ * over the landmarks (d(L,t) - d(L,v) and d(v,L) - d(t,L)); unreachable pairs
+ * give NaN or -Infinity and are skipped. Without landmarks it is the straight
+ * line (straightLineBound).
+ */
+function lowerBound(graph: PathGraph, tables: LandmarkTables | null, v: PathNode, t: PathNode, targetIndex: number): number {
+  if (!tables) return straightLineBound(graph, v, t);
+
+  const vi = tables.indexById.get(v.id);
+  if (vi === undefined) return 0;
+  let bound = 0;
+  for (let l = 0; l < tables.from.length; l++) {
+    const forward = tables.from[l][targetIndex] - tables.from[l][vi];
+    const backward = tables.to[l][vi] - tables.to[l][targetIndex];
+    if (forward > bound) bound = forward;
+    if (backward > bound) bound = backward;
+  }
+  return bound;
+}
+
+/**
+ * A* with a binary heap and the landmark heuristic
+ * Same contract as aStarSearch in lib/pathfinding.ts: edgeCost must never
+ * return less than the edge distance, and edges costing Infinity are never
+ * taken. Without landmark data it is plain A* with a straight-line heuristic.
+ */
+export function landmarkSearch(
+  graph: PathGraph,
+  startNode: PathNode,
+  endNode: PathNode,
+  edgeCost: EdgeCost = (_fromId, edge) => edge.distance
+): { route: PathNode[]; cost: number } | null {
+  const tables = getLandmarkTables(graph);
+  const targetIndex = tables?.indexById.get(endNode.id) ?? -1;
+  const h = (node: PathNode) => lowerBound(graph, targetIndex >= 0 ? tables : null, node, endNode, targetIndex);
+
+  const gScore = new Map<string, number>([[startNode.id, 0]]);
+  const cameFrom = new Map<string, string>();
+  const closed = new Set<string>();
+  const open: Heap = [[h(startNode), startNode.id]];
+
+  for (let entry = heapPop(open); entry; entry = heapPop(open)) {
+    const currentId = entry[1];
+    if (closed.has(currentId)) continue;
+
+    if (currentId === endNode.id) {
+      const ids = [currentId];
+      for (let id = cameFrom.get(currentId); id; id = cameFrom.get(id)) ids.push(id);
+      return { route: ids.reverse().map((id) => graph.nodesById[id]), cost: gScore.get(currentId)! };
+    }
+    closed.add(currentId);
+
+    const g = gScore.get(currentId)!;
+    for (const edge of graph.adjacency[currentId] ?? []) {
+      if (closed.has(edge.to)) continue;
+      const tentative = g + edgeCost(currentId, edge);
+      if (tentative < (gScore.get(edge.to) ?? Infinity)) {
+        const estimate = h(graph.nodesById[edge.to]);
+        if (estimate === Infinity) continue; // Landmarks show the target can't be reached from here
+        gScore.set(edge.to, tentative);
+        cameFrom.set(edge.to, currentId);
+        heapPush(open, [tentative + estimate, edge.to]);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Compare landmark search against a reference search on the given node pairs
+ * Returns the pairs whose route costs differ (empty if consistent).
+ */
+export function checkLandmarkConsistency(
+  graph: PathGraph,
+  pairs: Array<[string, string]>,
+  reference: (graph: PathGraph, start: PathNode, end: PathNode) => { cost: number } | null
+): LandmarkMismatch[] {
+  const mismatches: LandmarkMismatch[] = [];
+  for (const [fromId, toId] of pairs) {
+    const start = graph.nodesById[fromId];
+    const end = graph.nodesById[toId];
+    const expected = reference(graph, start, end)?.cost ?? null;
+    const actual = landmarkSearch(graph, start, end)?.cost ?? null;
+    const same = expected === null || actual === null ? expected === actual : Math.abs(expected - actual) < 1e-6;
+    if (!same) mismatches.push({ from: fromId, to: toId, expected, actual });
+  }
+  return mismatches;
+}
@@ -0,0 +1,163 @@
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Database-backed login throttling
+ * Attempts are stored in the login_attempts table (like sessions) so limits
+ * hold across serverless instances on Vercel as well as locally.
+ */
+
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000; // failures older than this are forgotten
+const FREE_ATTEMPTS = 3; // failures allowed before backoff kicks in
+const BASE_DELAY_MS = 2 * 1000;
+const MAX_DELAY_MS = 15 * 60 * 1000;
+const LOCKOUT_THRESHOLD = 10; // consecutive failures before the account is locked
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+const ATTEMPT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000; // keep the log for 30 days
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; retryAfterSeconds: number; reason: "backoff" | "locked" };
+
+/**
+ * Delay required after a number of recent failures.
+ * Doubles with every failure beyond the free attempts, capped at MAX_DELAY_MS.
+ */
+export function backoffDelayMs(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_ATTEMPTS), MAX_DELAY_MS);
+}
+
+/**
+ * Count failures since the last success (or the start of the window) and
+ * return when the most recent one happened
+ */
+async function recentFailures(where: { email?: string; ipAddress?: string }) {
+  const windowStart = new Date(Date.now() - ATTEMPT_WINDOW_MS);
+
+  const lastSuccess = await prisma.loginAttempt.findFirst({
+    where: { ...where, success: true, createdAt: { gte: windowStart } },
+    orderBy: { createdAt: "desc" },
+    select: { createdAt: true },
+  });
+
+  const since = lastSuccess?.createdAt ?? windowStart;
+
+  const [count, lastFailure] = await Promise.all([
+    prisma.loginAttempt.count({
+      where: { ...where, success: false, createdAt: { gt: since } },
+    }),
+    prisma.loginAttempt.findFirst({
+      where: { ...where, success: false, createdAt: { gt: since } },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true },
+    }),
+  ]);
+
+  return { count, lastFailureAt: lastFailure?.createdAt ?? null };
+}
+
+/**
+ * Check whether a login attempt may proceed for this email and IP
+ */
+export async function checkLoginAllowed(
+  email: string,
+  ipAddress: string | null
+): Promise<LoginThrottleResult> {
+  const user = await prisma.adminUser.findUnique({
+    where: { email },
+    select: { lockedUntil: true },
+  });
+
+  if (user?.lockedUntil && user.lockedUntil > new Date()) {
+    return {
+      allowed: false,
+      reason: "locked",
+      retryAfterSeconds: Math.ceil((user.lockedUntil.getTime() - Date.now()) / 1000),
+    };
+  }
+
+  const checks = [recentFailures({ email })];
+  if (ipAddress) {
+    checks.push(recentFailures({ ipAddress }));
+  }
+
+  let retryAfterMs = 0;
+  for (const { count, lastFailureAt } of await Promise.all(checks)) {
+    if (!lastFailureAt) continue;
+    const waitUntil = lastFailureAt.getTime() + backoffDelayMs(count);
+    retryAfterMs = Math.max(retryAfterMs, waitUntil - Date.now());
+  }
+
+  if (retryAfterMs > 0) {
+    return {
+      allowed: false,
+      reason: "backoff",
+      retryAfterSeconds: Math.ceil(retryAfterMs / 1000),
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Record the outcome of a login attempt.
+ * Failures count towards the account lockout; a success resets it.
+ */
+export async function recordLoginAttempt(
+  email: string,
+  ipAddress: string | null,
+  userAgent: string | null,
+  success: boolean
+) {
+  await prisma.loginAttempt.create({
+    data: { email, ipAddress, userAgent, success },
+  });
+
+  const user = await prisma.adminUser.findUnique({
+    where: { email },
+    select: { id: true },
+  });
+
+  if (user) {
+    if (success) {
+      await prisma.adminUser.update({
+        where: { id: user.id },
+        data: { failedLoginCount: 0, lockedUntil: null },
+      });
+    } else {
+      // Increment in the database so concurrent failures are all counted
+      const { failedLoginCount } = await prisma.adminUser.update({
+        where: { id: user.id },
+        data: { failedLoginCount: { increment: 1 } },
+        select: { failedLoginCount: true },
+      });
+
+      if (failedLoginCount >= LOCKOUT_THRESHOLD) {
+        await prisma.adminUser.updateMany({
+          where: { id: user.id, failedLoginCount: { gte: LOCKOUT_THRESHOLD } },
+          data: {
+            failedLoginCount: 0,
+            lockedUntil: new Date(Date.now() + LOCKOUT_DURATION_MS),
+          },
+        });
+      }
+    }
+  }
+
+  // Opportunistically trim the attempt log (fire and forget)
+  cleanupOldLoginAttempts().catch(() => {
+    // Ignore errors - cleanup is best effort
+  });
+}
+
+/**
+ * Delete login attempts older than the retention period
+ */
+export async function cleanupOldLoginAttempts() {
+  const result = await prisma.loginAttempt.deleteMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - ATTEMPT_RETENTION_MS) },
+    },
+  });
+  return result.count;
+}
@@ -13,6 +13,11 @@ export interface ControlPoint {
   lng: number;
 }
 
+/**
+ * Outdoor street map served from public/
+ */
+export const OUTDOOR_MAP_SVG = '/maps/20251028SydneyMap-01.svg';
+
 /**
  * SVG ViewBox dimensions
  * Matches the actual SVG file: viewBox="0 0 726.77 1643.6"
@@ -0,0 +1,58 @@
+// @ts-nocheck - Test file without test framework types configured
+import { INITIAL_MATCH_STATE, matchFix, routeIndexOfMatch } from './mapMatching';
+
+// Two parallel streets 30 m apart, joined only at their ends; one SVG unit is one metre
+//   B0 ---- B1 ---- B2   (y = 30)
+//   |               |
+//   A0 ---- A1 ---- A2   (y = 0)
+const LAT = -33.87;
+const node = (id, x, y) => ({ id, x, y, lat: LAT - y / 111320, lng: 151.2 + x / (111320 * Math.cos((LAT * Math.PI) / 180)) });
+const nodes = [node('A0', 0, 0), node('A1', 100, 0), node('A2', 200, 0), node('B0', 0, 30), node('B1', 100, 30), node('B2', 200, 30)];
+const links = [['A0', 'A1'], ['A1', 'A2'], ['B0', 'B1'], ['B1', 'B2'], ['A0', 'B0'], ['A2', 'B2']];
+const graph = {
+  nodesById: Object.fromEntries(nodes.map((n) => [n.id, n])),
+  adjacency: Object.fromEntries(nodes.map((n) => [n.id, []])),
+};
+for (const [a, b] of links) {
+  const d = Math.hypot(graph.nodesById[a].x - graph.nodesById[b].x, graph.nodesById[a].y - graph.nodesById[b].y);
+  graph.adjacency[a].push({ to: b, distance: d });
+  graph.adjacency[b].push({ to: a, distance: d });
+}
+
+const onStreetA = (match) => match && match.from[0] === 'A' && match.to[0] === 'A';
+
+test('matches a fix to the nearest street with its offset', () => {
+  const { match } = matchFix(graph, INITIAL_MATCH_STATE, { x: 50, y: 3, accuracy: 5, time: 0 });
+  expect(onStreetA(match)).toBe(true);
+  expect(match.offset).toBe(50);
+  expect(match.point).toEqual({ x: 50, y: 0 });
+});
+
+test('a reflected fix does not jump to the parallel street', () => {
+  let state = INITIAL_MATCH_STATE;
+  for (let x = 0; x <= 200; x += 10) {
+    // At x = 100 the fix lands closer to street B than to street A
+    const result = matchFix(graph, state, { x, y: x === 100 ? 18 : 2, accuracy: 10, speed: 1.4, heading: 90, time: x * 700 });
+    state = result.state;
+    expect(onStreetA(result.match)).toBe(true);
+  }
+});
+
+test('confidence is low between two equally likely streets', () => {
+  const { match } = matchFix(graph, INITIAL_MATCH_STATE, { x: 100, y: 15, accuracy: 10, time: 0 });
+  expect(match.confidence).toBeLessThan(0.6);
+  expect(matchFix(graph, INITIAL_MATCH_STATE, { x: 100, y: 1, accuracy: 10, time: 0 }).match.confidence).toBeGreaterThan(0.9);
+});
+
+test('no match far from every street', () => {
+  const { state, match } = matchFix(graph, INITIAL_MATCH_STATE, { x: 100, y: 500, accuracy: 5, time: 0 });
+  expect(match).toBeNull();
+  expect(state).toEqual(INITIAL_MATCH_STATE);
+});
+
+test('finds the route segment a match is on, in either direction', () => {
+  const route = [graph.nodesById.A2, graph.nodesById.A1, graph.nodesById.A0];
+  const { match } = matchFix(graph, INITIAL_MATCH_STATE, { x: 50, y: 0, accuracy: 5, time: 0 });
+  expect(routeIndexOfMatch(route, match)).toBe(1);
+  expect(routeIndexOfMatch([graph.nodesById.B0, graph.nodesById.B1], match)).toBe(-1);
+});
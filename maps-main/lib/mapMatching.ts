@@ -0,0 +1,285 @@
+import type { PathGraph } from '@/types';
+import { buildSpatialIndex, itemsWithinRadius, type SpatialIndex } from './spatialIndex';
+import { boundedDistancesFrom, metersPerSvgUnit } from './isochrone';
+
+/**
+ * Map matching of GPS fixes onto the street graph
+ * A hidden Markov model: the hidden state is a position on a street graph
+ * edge near the fix. A state is likelier the closer it is to the fix (relative
+ * to the accuracy the device reports) and, while the user is moving, the
+ * better the street's direction agrees with their heading. A move between
+ * states is likelier the closer its walking distance is to the straight-line
+ * distance between the two fixes. Fixes are matched as they arrive with the
+ * Viterbi recurrence, so a fix reflected onto a parallel street by the CBD's
+ * tall buildings only wins if getting there along the streets makes sense.
+ */
+
+type Point = { x: number; y: number };
+
+export interface MatchFix {
+  x: number; // SVG coordinates
+  y: number;
+  accuracy?: number | null; // metres
+  heading?: number | null; // compass degrees
+  speed?: number | null; // metres per second
+  time: number; // ms
+}
+
+export interface MapMatch {
+  from: string; // Matched edge
+  to: string;
+  offset: number; // Distance along the edge from `from`, in SVG units
+  point: Point; // Matched position, SVG coordinates
+  confidence: number; // 0-1: the matched position's share of the probability across all candidates
+}
+
+export interface MapMatchConfig {
+  minAccuracyMeters: number; // Floor for the reported accuracy; phones are often optimistic
+  searchSigmas: number; // Candidates are edges within this many accuracy-widths of the fix
+  maxCandidates: number;
+  headingSigmaDeg: number;
+  minHeadingSpeed: number; // m/s; below this the heading is noise
+  transitionMeters: number; // Scale of the walking vs straight-line distance mismatch a move may have
+  maxWalkingSpeed: number; // m/s; moves further than this allows are ruled out
+}
+
+// Matches less certain than this are better ignored in favour of the raw fix
+export const MIN_MATCH_CONFIDENCE = 0.6;
+
+export const DEFAULT_MAP_MATCH_CONFIG: MapMatchConfig = {
+  minAccuracyMeters: 8,
+  searchSigmas: 3,
+  maxCandidates: 8,
+  headingSigmaDeg: 45,
+  minHeadingSpeed: 0.5,
+  transitionMeters: 20,
+  maxWalkingSpeed: 3,
+};
+
+interface Candidate {
+  from: string;
+  to: string;
+  offset: number;
+  length: number; // Edge length along its geometry, SVG units
+  point: Point;
+  logProb: number;
+}
+
+export interface MapMatchState {
+  candidates: Candidate[];
+  last: MatchFix | null;
+}
+
+export const INITIAL_MATCH_STATE: MapMatchState = { candidates: [], last: null };
+
+// One straight piece of an edge's geometry
+interface EdgePiece {
+  from: string;
+  to: string;
+  a: Point;
+  b: Point;
+  start: number; // Offset of `a` along the edge
+  edgeLength: number;
+}
+
+interface EdgeGeometry {
+  index: SpatialIndex<EdgePiece>;
+  maxHalfPiece: number; // Pieces are indexed by midpoint; queries widen by this much
+  scale: number; // metres per SVG unit
+}
+
+// Keyed on adjacency: graphs with closures applied share nodes but not edges
+const edgeGeometries = new WeakMap<PathGraph['adjacency'], EdgeGeometry>();
+
+function getEdgeGeometry(graph: PathGraph): EdgeGeometry {
+  let geometry = edgeGeometries.get(graph.adjacency);
+  if (geometry) return geometry;
+
+  const pieces: EdgePiece[] = [];
+  const seen = new Set<string>();
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    const from = graph.nodesById[fromId];
+    for (const edge of edges) {
+      const to = graph.nodesById[edge.to];
+      // Streets are walked both ways; one direction is enough to match onto
+      if (!from || !to || seen.has(`${edge.to}>${fromId}`)) continue;
+      seen.add(`${fromId}>${edge.to}`);
+
+      const line = [from, ...(edge.points ?? []), to];
+      const edgePieces: EdgePiece[] = [];
+      let start = 0;
+      for (let i = 1; i < line.length; i++) {
+        const length = Math.hypot(line[i].x - line[i - 1].x, line[i].y - line[i - 1].y);
+        if (length === 0) continue;
+        edgePieces.push({ from: fromId, to: edge.to, a: line[i - 1], b: line[i], start, edgeLength: 0 });
+        start += length;
+      }
+      edgePieces.forEach((piece) => (piece.edgeLength = start));
+      pieces.push(...edgePieces);
+    }
+  }
+
+  geometry = {
+    index: buildSpatialIndex(pieces, (piece) => ({ x: (piece.a.x + piece.b.x) / 2, y: (piece.a.y + piece.b.y) / 2 })),
+    maxHalfPiece: pieces.reduce((max, p) => Math.max(max, Math.hypot(p.b.x - p.a.x, p.b.y - p.a.y) / 2), 0),
+    scale: metersPerSvgUnit(graph),
+  };
+  edgeGeometries.set(graph.adjacency, geometry);
+  return geometry;
+}
+
+// Smallest angle between two compass bearings, 0-180
+function bearingDifference(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Positions on nearby edges, with their emission log-probabilities
+ */
+function findCandidates(geometry: EdgeGeometry, fix: MatchFix, sigma: number, config: MapMatchConfig) {
+  const radius = (sigma * config.searchSigmas) / geometry.scale;
+  const best = new Map<string, Omit<Candidate, 'logProb'> & { emission: number }>();
+
+  for (const { item: piece } of itemsWithinRadius(geometry.index, fix, radius + geometry.maxHalfPiece)) {
+    const dx = piece.b.x - piece.a.x;
+    const dy = piece.b.y - piece.a.y;
+    const length = Math.hypot(dx, dy);
+    const t = Math.max(0, Math.min(1, ((fix.x - piece.a.x) * dx + (fix.y - piece.a.y) * dy) / (length * length)));
+    const point = { x: piece.a.x + dx * t, y: piece.a.y + dy * t };
+    const meters = Math.hypot(fix.x - point.x, fix.y - point.y) * geometry.scale;
+    if (meters > sigma * config.searchSigmas) continue;
+
+    let emission = -0.5 * (meters / sigma) ** 2;
+
+    // Heading only means something while moving; streets can be walked either way
+    const moving = typeof fix.speed === 'number' && fix.speed >= config.minHeadingSpeed;
+    if (moving && typeof fix.heading === 'number' && !Number.isNaN(fix.heading)) {
+      const bearing = (Math.atan2(dy, dx) * 180) / Math.PI + 90; // SVG angle (0 = east, y down) to compass
+      const off = Math.min(bearingDifference(fix.heading, bearing), bearingDifference(fix.heading, bearing + 180));
+      emission += -0.5 * (off / config.headingSigmaDeg) ** 2;
+    }
+
+    const key = `${piece.from}>${piece.to}`;
+    if ((best.get(key)?.emission ?? -Infinity) < emission) {
+      best.set(key, {
+        from: piece.from,
+        to: piece.to,
+        offset: piece.start + length * t,
+        length: piece.edgeLength,
+        point,
+        emission,
+      });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.emission - a.emission).slice(0, config.maxCandidates);
+}
+
+/**
+ * Walking distance in metres between two positions on the graph, up to maxMeters
+ */
+function walkingDistance(
+  graph: PathGraph,
+  geometry: EdgeGeometry,
+  from: Candidate,
+  to: Omit<Candidate, 'logProb'>,
+  maxMeters: number
+): number {
+  const { scale } = geometry;
+  if (from.from === to.from && from.to === to.to) return Math.abs(to.offset - from.offset) * scale;
+
+  // Leave the first edge by either end and join the second by either end
+  const exits: Array<[string, number]> = [
+    [from.from, from.offset * scale],
+    [from.to, (from.length - from.offset) * scale],
+  ];
+  const entries: Array<[string, number]> = [
+    [to.from, to.offset * scale],
+    [to.to, (to.length - to.offset) * scale],
+  ];
+
+  let best = Infinity;
+  for (const [exitId, exitMeters] of exits) {
+    if (exitMeters > maxMeters) continue;
+    const reach = boundedDistancesFrom(graph, exitId, maxMeters - exitMeters, 'default', scale);
+    for (const [entryId, entryMeters] of entries) {
+      if (reach[entryId] !== undefined) best = Math.min(best, exitMeters + reach[entryId] + entryMeters);
+    }
+  }
+  return best;
+}
+
+/**
+ * Match a GPS fix, given the state left by the previous fixes
+ * Returns no match (and a fresh state) when there is no street near the fix.
+ */
+export function matchFix(
+  graph: PathGraph,
+  state: MapMatchState,
+  fix: MatchFix,
+  config: MapMatchConfig = DEFAULT_MAP_MATCH_CONFIG
+): { state: MapMatchState; match: MapMatch | null } {
+  const geometry = getEdgeGeometry(graph);
+  const sigma = Math.max(config.minAccuracyMeters, fix.accuracy ?? 0);
+  const found = findCandidates(geometry, fix, sigma, config);
+  if (found.length === 0) return { state: INITIAL_MATCH_STATE, match: null };
+
+  let candidates: Candidate[];
+  const last = state.last;
+  if (last && state.candidates.length > 0) {
+    const straight = Math.hypot(fix.x - last.x, fix.y - last.y) * geometry.scale;
+    const elapsed = Math.max(0, fix.time - last.time) / 1000;
+    const maxMeters = Math.max(straight, config.maxWalkingSpeed * elapsed) + 2 * sigma;
+
+    // Viterbi step: each candidate keeps its likeliest predecessor
+    candidates = found.map((candidate) => {
+      let transition = -Infinity;
+      for (const previous of state.candidates) {
+        const walked = walkingDistance(graph, geometry, previous, candidate, maxMeters);
+        if (walked === Infinity) continue;
+        transition = Math.max(transition, previous.logProb - Math.abs(walked - straight) / config.transitionMeters);
+      }
+      return { ...candidate, logProb: transition + candidate.emission };
+    });
+
+    // Nothing reachable from where we were (e.g. after a GPS outage): start over from this fix
+    if (candidates.every((candidate) => candidate.logProb === -Infinity)) {
+      candidates = found.map((candidate) => ({ ...candidate, logProb: candidate.emission }));
+    }
+  } else {
+    candidates = found.map((candidate) => ({ ...candidate, logProb: candidate.emission }));
+  }
+
+  // Normalise so the likeliest state has log-probability 0
+  const top = Math.max(...candidates.map((candidate) => candidate.logProb));
+  candidates = candidates
+    .filter((candidate) => candidate.logProb > -Infinity)
+    .map(({ from, to, offset, length, point, logProb }) => ({ from, to, offset, length, point, logProb: logProb - top }));
+
+  // Confidence counts every candidate at the matched position, e.g. both streets at a junction
+  const best = candidates.find((candidate) => candidate.logProb === 0)!;
+  let total = 0;
+  let atBest = 0;
+  for (const candidate of candidates) {
+    const p = Math.exp(candidate.logProb);
+    total += p;
+    if (Math.hypot(candidate.point.x - best.point.x, candidate.point.y - best.point.y) * geometry.scale <= 1) atBest += p;
+  }
+  return {
+    state: { candidates, last: fix },
+    match: { from: best.from, to: best.to, offset: best.offset, point: best.point, confidence: atBest / total },
+  };
+}
+
+/**
+ * Where a match falls on a route: the index of the route segment it is on, or -1
+ */
+export function routeIndexOfMatch(route: Array<{ id: string }>, match: MapMatch): number {
+  for (let i = 0; i < route.length - 1; i++) {
+    const a = route[i].id;
+    const b = route[i + 1].id;
+    if ((a === match.from && b === match.to) || (a === match.to && b === match.from)) return i;
+  }
+  return -1;
+}
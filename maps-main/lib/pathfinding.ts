@@ -1,11 +1,9 @@
 import type { Intersection, PathGraph, PathNode, PreDefinedRoute } from '@/types';
 import { getDoorNodeForRoom, getAllDoorNodesForRoom } from './graphBuilder';
-
-function heuristic(a: PathNode, b: PathNode): number {
-  const dx = a.x - b.x;
-  const dy = a.y - b.y;
-  return Math.hypot(dx, dy);
-}
+import { routeDistanceMeters, walkingMinutes } from './turnByTurn';
+import { edgeCostForProfile, type RoutingProfile } from './routingProfiles';
+import { getPathGraphIndex, nearestInIndex } from './spatialIndex';
+import { hasLandmarks, landmarkSearch, straightLineBound } from './landmarks';
 
 /**
  * Find door node for a business/room
@@ -83,16 +81,9 @@ export function findNearestNode(
   point: { x: number; y: number },
   maxDistance: number = 500
 ): PathNode | null {
-  let best: PathNode | null = null;
-  let bestDist = Infinity;
-
-  for (const node of Object.values(graph.nodesById)) {
-    const d = Math.hypot(node.x - point.x, node.y - point.y);
-    if (d < bestDist) {
-      best = node;
-      bestDist = d;
-    }
-  }
+  const nearest = nearestInIndex(getPathGraphIndex(graph), point);
+  const best = nearest?.item ?? null;
+  const bestDist = nearest?.distance ?? Infinity;
 
   // Validate distance is within acceptable range
   if (best && bestDist <= maxDistance) {
@@ -116,7 +107,12 @@ export function reconstructPath(cameFrom: Record<string, string | undefined>, cu
   return path.reverse();
 }
 
-export function findRoute(graph: PathGraph, start: Intersection, end: Intersection): PathNode[] {
+export function findRoute(
+  graph: PathGraph,
+  start: Intersection,
+  end: Intersection,
+  profile: RoutingProfile = 'default'
+): PathNode[] {
   console.log(`🗺️  Finding route from (${start.x.toFixed(1)}, ${start.y.toFixed(1)}) to (${end.x.toFixed(1)}, ${end.y.toFixed(1)})`);
 
   const startNode = findNearestNode(graph, { x: start.x, y: start.y });
@@ -130,6 +126,33 @@ export function findRoute(graph: PathGraph, start: Intersection, end: Intersecti
 
   console.log(`🔍 A* search: start=${startNode.id}, end=${endNode.id}`);
 
+  const result = shortestPath(graph, startNode, endNode, (_fromId, edge) =>
+    edgeCostForProfile(edge.distance, edge.accessible, profile)
+  );
+  if (result) {
+    console.log(`✅ A* route found: ${result.route.length} nodes, distance: ${result.cost.toFixed(1)} units`);
+    return result.route;
+  }
+
+  console.warn(`⚠️  A* failed to find route - no path exists between nodes in connected graph`);
+  return [];
+}
+
+type GraphEdge = PathGraph['adjacency'][string][number];
+
+/**
+ * A* between two graph nodes
+ * edgeCost lets callers weight edges (e.g. to penalise edges already used by
+ * another route); it must never return less than the edge distance or the
+ * heuristic stops being admissible. Edges costing Infinity are never taken.
+ * Defaults to the edge distance.
+ */
+export function aStarSearch(
+  graph: PathGraph,
+  startNode: PathNode,
+  endNode: PathNode,
+  edgeCost: (fromId: string, edge: GraphEdge) => number = (_fromId, edge) => edge.distance
+): { route: PathNode[]; cost: number } | null {
   const openSet = new Set<string>([startNode.id]);
   const cameFrom: Record<string, string | undefined> = {};
   const gScore: Record<string, number> = {};
@@ -139,7 +162,7 @@ export function findRoute(graph: PathGraph, start: Intersection, end: Intersecti
     fScore[id] = Infinity;
   }
   gScore[startNode.id] = 0;
-  fScore[startNode.id] = heuristic(startNode, endNode);
+  fScore[startNode.id] = straightLineBound(graph, startNode, endNode);
 
   while (openSet.size > 0) {
     // node in openSet with lowest fScore
@@ -155,28 +178,45 @@ export function findRoute(graph: PathGraph, start: Intersection, end: Intersecti
 
     if (currentId === endNode.id) {
       const ids = reconstructPath(cameFrom, currentId);
-      const route = ids.map((id) => graph.nodesById[id]);
-      console.log(`✅ A* route found: ${route.length} nodes, distance: ${gScore[currentId].toFixed(1)} units`);
-      return route;
+      return { route: ids.map((id) => graph.nodesById[id]), cost: gScore[currentId] };
     }
 
     openSet.delete(currentId);
     for (const edge of graph.adjacency[currentId] ?? []) {
-      const tentative = gScore[currentId] + edge.distance;
+      const tentative = gScore[currentId] + edgeCost(currentId, edge);
       if (tentative < gScore[edge.to]) {
         cameFrom[edge.to] = currentId;
         gScore[edge.to] = tentative;
-        fScore[edge.to] = tentative + heuristic(graph.nodesById[edge.to], endNode);
+        fScore[edge.to] = tentative + straightLineBound(graph, graph.nodesById[edge.to], endNode);
         openSet.add(edge.to);
       }
     }
   }
 
-  console.warn(`⚠️  A* failed to find route - no path exists between nodes in connected graph`);
-  return [];
+  return null;
+}
+
+/**
+ * Shortest path between two graph nodes, using the precomputed landmark
+ * heuristic (lib/landmarks.ts) when the graph has it and plain A* otherwise
+ */
+function shortestPath(
+  graph: PathGraph,
+  startNode: PathNode,
+  endNode: PathNode,
+  edgeCost: (fromId: string, edge: GraphEdge) => number
+): { route: PathNode[]; cost: number } | null {
+  return hasLandmarks(graph)
+    ? landmarkSearch(graph, startNode, endNode, edgeCost)
+    : aStarSearch(graph, startNode, endNode, edgeCost);
 }
 
-export function findAnyRoute(graph: PathGraph, start: Intersection, end: Intersection): PathNode[] {
+export function findAnyRoute(
+  graph: PathGraph,
+  start: Intersection,
+  end: Intersection,
+  profile: RoutingProfile = 'default'
+): PathNode[] {
   const startNode = findNearestNode(graph, { x: start.x, y: start.y });
   const endNode = findNearestNode(graph, { x: end.x, y: end.y });
   if (!startNode || !endNode) return [];
@@ -192,6 +232,8 @@ export function findAnyRoute(graph: PathGraph, start: Intersection, end: Interse
       return ids.map((nid) => graph.nodesById[nid]);
     }
     for (const edge of graph.adjacency[id] ?? []) {
+      // BFS ignores weights, but must still respect edges the profile excludes
+      if (edgeCostForProfile(edge.distance, edge.accessible, profile) === Infinity) continue;
       if (!visited.has(edge.to)) {
         visited.add(edge.to);
         prev[edge.to] = id;
@@ -259,12 +301,14 @@ export function findRouteWithDiagnostics(
   start: Intersection,
   end: Intersection,
   startPlaceId?: string,
-  endPlaceId?: string
+  endPlaceId?: string,
+  profile: RoutingProfile = 'default'
 ): PathfindingDiagnostics {
   console.log(`🗺️  Finding route with diagnostics from (${start.x.toFixed(1)}, ${start.y.toFixed(1)}) to (${end.x.toFixed(1)}, ${end.y.toFixed(1)})`);
 
   // PRIORITY 1: Check for pre-defined demo routes first
-  const predefinedRoute = findPredefinedRoute(graph, startPlaceId, endPlaceId);
+  // (they carry no accessibility data, so only the default profile uses them)
+  const predefinedRoute = profile === 'default' ? findPredefinedRoute(graph, startPlaceId, endPlaceId) : null;
   if (predefinedRoute && predefinedRoute.length >= 2) {
     const startNode = predefinedRoute[0];
     const endNode = predefinedRoute[predefinedRoute.length - 1];
@@ -319,7 +363,7 @@ export function findRouteWithDiagnostics(
 
   // Try A* first
   console.log(`🔍 Attempting A* pathfinding...`);
-  const astarRoute = findRoute(graph, start, end);
+  const astarRoute = findRoute(graph, start, end, profile);
   if (astarRoute.length >= 2) {
     return {
       route: astarRoute,
@@ -333,7 +377,7 @@ export function findRouteWithDiagnostics(
 
   // Fallback to BFS
   console.log(`🔄 A* failed, trying BFS fallback...`);
-  const bfsRoute = findAnyRoute(graph, start, end);
+  const bfsRoute = findAnyRoute(graph, start, end, profile);
   if (bfsRoute.length >= 2) {
     return {
       route: bfsRoute,
@@ -358,3 +402,213 @@ export function findRouteWithDiagnostics(
 }
 
 
+
+/**
+ * Result of routing through an ordered list of stops
+ * `legs` holds the route for each consecutive pair of stops; `route` is the
+ * legs stitched together, and `stopIndices` gives the index in `route` where
+ * each intermediate stop is reached.
+ */
+export interface MultiStopDiagnostics extends PathfindingDiagnostics {
+  legs: PathNode[][];
+  stopIndices: number[];
+}
+
+/**
+ * Find a route that visits every stop in order (start, waypoints..., end)
+ * Each leg goes through findRouteWithDiagnostics, so pre-defined routes and
+ * the BFS fallback still apply. If any leg fails the whole route fails.
+ * @param graph - The navigation graph
+ * @param stops - Ordered stops, including the start and the final destination
+ * @param placeIds - Optional Place ID for each stop, used for pre-defined routes
+ * @param profile - Routing profile (e.g. step-free) applied to every leg
+ */
+export function findMultiStopRoute(
+  graph: PathGraph,
+  stops: Intersection[],
+  placeIds: Array<string | undefined> = [],
+  profile: RoutingProfile = 'default'
+): MultiStopDiagnostics {
+  console.log(`🗺️  Finding multi-stop route through ${stops.length} stops`);
+
+  const legs: PathNode[][] = [];
+  const legDiagnostics: PathfindingDiagnostics[] = [];
+
+  for (let i = 0; i < stops.length - 1; i++) {
+    const leg = findRouteWithDiagnostics(graph, stops[i], stops[i + 1], placeIds[i], placeIds[i + 1], profile);
+    legDiagnostics.push(leg);
+
+    if (leg.algorithm === 'failed') {
+      console.error(`❌ No route for leg ${i + 1} of ${stops.length - 1}`);
+      return {
+        ...leg,
+        startNode: legDiagnostics[0].startNode,
+        startDistance: legDiagnostics[0].startDistance,
+        route: [],
+        legs: [],
+        stopIndices: [],
+      };
+    }
+    legs.push(leg.route);
+  }
+
+  // Stitch legs, dropping the first node of a leg when it repeats the previous leg's last node
+  const route: PathNode[] = [];
+  const stopIndices: number[] = [];
+  legs.forEach((leg, i) => {
+    if (i > 0) {
+      const last = route[route.length - 1];
+      const skipFirst = last.id === leg[0].id;
+      stopIndices.push(skipFirst ? route.length - 1 : route.length);
+      route.push(...(skipFirst ? leg.slice(1) : leg));
+    } else {
+      route.push(...leg);
+    }
+  });
+
+  const first = legDiagnostics[0];
+  const last = legDiagnostics[legDiagnostics.length - 1];
+
+  return {
+    route,
+    startNode: first.startNode,
+    endNode: last.endNode,
+    startDistance: first.startDistance,
+    endDistance: last.endDistance,
+    // Report the weakest algorithm used by any leg
+    algorithm: legDiagnostics.some((d) => d.algorithm === 'bfs') ? 'bfs' : 'astar',
+    legs,
+    stopIndices,
+  };
+}
+
+/**
+ * One candidate route between the same start and destination
+ */
+export interface RouteAlternative {
+  route: PathNode[];
+  distanceMeters: number;
+  durationMinutes: number;
+  streets: string[]; // Main streets used, in the order they are walked
+}
+
+const ALTERNATIVE_PENALTY = 1.6;      // Cost multiplier for edges already used by a found route
+const ALTERNATIVE_MAX_STRETCH = 1.5;  // Alternatives may be at most 50% longer than the best route
+const ALTERNATIVE_MAX_OVERLAP = 0.7;  // ...and share at most 70% of their length with another route
+const MAIN_STREET_MIN_SHARE = 0.15;   // A street counts as "main" if it covers 15% of the route
+
+function edgeKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Length of each edge along a route in SVG units, keyed by undirected edge
+ */
+function routeEdgeLengths(graph: PathGraph, route: PathNode[]): Map<string, number> {
+  const lengths = new Map<string, number>();
+  for (let i = 1; i < route.length; i++) {
+    const from = route[i - 1];
+    const to = route[i];
+    const edge = graph.adjacency[from.id]?.find((e) => e.to === to.id);
+    lengths.set(edgeKey(from.id, to.id), edge?.distance ?? Math.hypot(to.x - from.x, to.y - from.y));
+  }
+  return lengths;
+}
+
+function sumLengths(lengths: Map<string, number>): number {
+  let total = 0;
+  for (const length of lengths.values()) total += length;
+  return total;
+}
+
+/**
+ * Streets covering a meaningful share of a route, in walking order
+ */
+export function mainStreets(graph: PathGraph, route: PathNode[], maxStreets: number = 3): string[] {
+  const lengthByStreet = new Map<string, number>();
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    const from = route[i - 1];
+    const to = route[i];
+    const edge = graph.adjacency[from.id]?.find((e) => e.to === to.id);
+    const length = edge?.distance ?? Math.hypot(to.x - from.x, to.y - from.y);
+    const street = edge?.street ?? to.street;
+    total += length;
+    if (street) lengthByStreet.set(street, (lengthByStreet.get(street) ?? 0) + length);
+  }
+
+  // Map preserves insertion order, i.e. the order streets are first reached
+  const ranked = Array.from(lengthByStreet.entries())
+    .filter(([, length]) => length >= total * MAIN_STREET_MIN_SHARE)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxStreets)
+    .map(([street]) => street);
+  return Array.from(lengthByStreet.keys()).filter((street) => ranked.includes(street));
+}
+
+function toAlternative(graph: PathGraph, route: PathNode[]): RouteAlternative {
+  const distanceMeters = routeDistanceMeters(route);
+  return {
+    route,
+    distanceMeters,
+    durationMinutes: walkingMinutes(distanceMeters),
+    streets: mainStreets(graph, route),
+  };
+}
+
+/**
+ * Find up to `count` meaningfully different routes (penalty method)
+ * The primary route (usually from findRouteWithDiagnostics) always comes
+ * first. Each further A* run penalises the edges of the routes found so far;
+ * a candidate is kept only if it is not much longer than the primary route
+ * and does not mostly overlap a route we already have.
+ */
+export function findAlternativeRoutes(
+  graph: PathGraph,
+  startNode: PathNode,
+  endNode: PathNode,
+  primary: PathNode[],
+  count: number = 3,
+  profile: RoutingProfile = 'default'
+): RouteAlternative[] {
+  const accepted: PathNode[][] = [primary];
+  const acceptedEdges = [routeEdgeLengths(graph, primary)];
+  const maxLength = sumLengths(acceptedEdges[0]) * ALTERNATIVE_MAX_STRETCH;
+
+  const penalties = new Map<string, number>();
+  const penalise = (edges: Map<string, number>) => {
+    for (const key of edges.keys()) {
+      penalties.set(key, (penalties.get(key) ?? 1) * ALTERNATIVE_PENALTY);
+    }
+  };
+  penalise(acceptedEdges[0]);
+
+  const maxAttempts = count * 3;
+  for (let attempt = 0; attempt < maxAttempts && accepted.length < count; attempt++) {
+    const result = shortestPath(graph, startNode, endNode, (fromId, edge) =>
+      edgeCostForProfile(edge.distance, edge.accessible, profile) * (penalties.get(edgeKey(fromId, edge.to)) ?? 1)
+    );
+    if (!result) break;
+
+    const edges = routeEdgeLengths(graph, result.route);
+    penalise(edges);
+
+    const length = sumLengths(edges);
+    if (length > maxLength) continue;
+
+    const tooSimilar = acceptedEdges.some((other) => {
+      let shared = 0;
+      for (const [key, edgeLength] of edges) {
+        if (other.has(key)) shared += edgeLength;
+      }
+      return shared / length > ALTERNATIVE_MAX_OVERLAP;
+    });
+    if (tooSimilar) continue;
+
+    accepted.push(result.route);
+    acceptedEdges.push(edges);
+  }
+
+  console.log(`🔀 Found ${accepted.length} route alternative(s)`);
+  return accepted.map((route) => toAlternative(graph, route));
+}
@@ -0,0 +1,84 @@
+/**
+ * Admin roles and permission matrix
+ *
+ * Roles are stored as plain strings on AdminUser.role. This module has no
+ * server-only imports so both API routes and client components can use it.
+ */
+
+export const ADMIN_ROLES = ["owner", "editor", "content-only", "viewer"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export type Permission =
+  | "places:write"
+  | "deals:write"
+  | "events:write"
+  | "indoorPois:write"
+  | "uploads:write" // images for places, deals and events
+  | "buildings:write" // buildings, floors, entrances, connection points, SVG uploads
+  | "closures:write" // street closures and temporary obstacles
+  | "feedback:write"
+  | "settings:write"
+  | "users:manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  owner: [
+    "places:write",
+    "deals:write",
+    "events:write",
+    "indoorPois:write",
+    "uploads:write",
+    "buildings:write",
+    "closures:write",
+    "feedback:write",
+    "settings:write",
+    "users:manage",
+  ],
+  editor: [
+    "places:write",
+    "deals:write",
+    "events:write",
+    "indoorPois:write",
+    "uploads:write",
+    "closures:write",
+    "feedback:write",
+  ],
+  "content-only": ["deals:write", "events:write", "uploads:write"],
+  viewer: [],
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  "content-only": "Content only",
+  viewer: "Viewer",
+};
+
+/**
+ * Map a stored role string to a known role.
+ * Accounts created before roles existed have the legacy "admin" role and keep
+ * full access. Unknown values fall back to read-only.
+ */
+export function normalizeRole(role: string | null | undefined): AdminRole {
+  if (role === "admin") return "owner";
+  if (role && (ADMIN_ROLES as readonly string[]).includes(role)) {
+    return role as AdminRole;
+  }
+  return "viewer";
+}
+
+/**
+ * Check whether a role grants a permission
+ */
+export function can(role: string | null | undefined, permission: Permission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[normalizeRole(role)].includes(permission);
+}
+
+/**
+ * List all permissions granted to a role
+ */
+export function permissionsFor(role: string | null | undefined): Permission[] {
+  if (!role) return [];
+  return [...ROLE_PERMISSIONS[normalizeRole(role)]];
+}
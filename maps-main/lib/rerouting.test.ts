@@ -0,0 +1,45 @@
+// @ts-nocheck - Test file without test framework types configured
+import { INITIAL_REROUTE_STATE, rerouteStarted, updateRerouteState } from './rerouting';
+
+// Feed fixes one second apart, walking east (90°) along a route heading north (0°) unless given
+function walk(distances, { heading = 90, start = 0, state = INITIAL_REROUTE_STATE } = {}) {
+  const decisions = [];
+  distances.forEach((distanceFromRoute, i) => {
+    const result = updateRerouteState(state, { distanceFromRoute, heading, routeBearing: 0, time: start + i * 1000 });
+    state = result.state;
+    decisions.push(result.reroute);
+  });
+  return { state, decisions };
+}
+
+test('a single stray fix does not count', () => {
+  const { state, decisions } = walk([5, 80, 5, 5]);
+  expect(state.offRoute).toBe(false);
+  expect(decisions).not.toContain(true);
+});
+
+test('reroutes once the user has stayed off route', () => {
+  const { state, decisions } = walk([50, 55, 60, 65, 70, 75, 80]);
+  expect(state.offRoute).toBe(true);
+  expect(decisions.indexOf(true)).toBe(6);
+});
+
+test('stays off route until well back on it', () => {
+  const off = walk([50, 50, 50, 50, 50, 50, 50]).state;
+  expect(walk([30], { state: off, start: 7000 }).state.offRoute).toBe(true);
+  expect(walk([10], { state: off, start: 7000 }).state.offRoute).toBe(false);
+});
+
+test('drift beside the route while walking along it is ignored', () => {
+  const { state } = walk([50, 55, 60, 55, 50, 55, 60, 55], { heading: 10 });
+  expect(state.offRoute).toBe(false);
+  // ...unless it is far enough that it can't be drift
+  expect(walk([100, 100, 100, 100, 100, 100, 100], { heading: 10 }).state.offRoute).toBe(true);
+});
+
+test('rate limits reroutes', () => {
+  const state = rerouteStarted(0);
+  const { decisions } = walk(new Array(20).fill(60), { state, start: 1000 });
+  // Off route again after 6 s, but no second reroute until 15 s after the first
+  expect(decisions.indexOf(true)).toBe(14);
+});
@@ -0,0 +1,93 @@
+/**
+ * Off-route detection and rerouting decisions
+ * A single GPS fix far from the route is usually noise, so the user only
+ * counts as off route after staying beyond `offRouteMeters` for `offRouteMs`,
+ * and counts as back on route only once within the smaller
+ * `backOnRouteMeters`. While walking in the route's direction (GPS drift
+ * beside the route rather than a wrong turn), moderate distances don't count
+ * at all. Reroutes are rate limited so a user walking along the edge of the
+ * threshold doesn't get a new route every few seconds.
+ */
+
+export interface RerouteConfig {
+  offRouteMeters: number;
+  backOnRouteMeters: number;
+  offRouteMs: number;
+  headingToleranceDeg: number; // Heading within this of the route's bearing counts as following it
+  minRerouteIntervalMs: number;
+}
+
+export const DEFAULT_REROUTE_CONFIG: RerouteConfig = {
+  offRouteMeters: 40,
+  backOnRouteMeters: 20,
+  offRouteMs: 6000,
+  headingToleranceDeg: 60,
+  minRerouteIntervalMs: 15000,
+};
+
+export interface RerouteState {
+  offRoute: boolean;
+  offRouteSince: number | null; // Time of the first fix in the current run of off-route fixes
+  lastRerouteAt: number | null;
+}
+
+export interface RerouteSample {
+  distanceFromRoute: number; // metres
+  heading?: number | null; // Compass degrees the user is moving in, if known
+  routeBearing: number; // Compass degrees of the route where the user is nearest to it
+  time: number; // ms
+}
+
+export const INITIAL_REROUTE_STATE: RerouteState = { offRoute: false, offRouteSince: null, lastRerouteAt: null };
+
+// Smallest angle between two compass bearings, 0-180
+function bearingDifference(a: number, b: number): number {
+  const diff = Math.abs((((a - b) % 360) + 360) % 360);
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Fold a GPS fix into the off-route state
+ * `reroute` is true when a new route should be requested now; replace the
+ * state with rerouteStarted() when requesting it.
+ */
+export function updateRerouteState(
+  state: RerouteState,
+  sample: RerouteSample,
+  config: RerouteConfig = DEFAULT_REROUTE_CONFIG
+): { state: RerouteState; reroute: boolean } {
+  const { distanceFromRoute, heading, routeBearing, time } = sample;
+
+  if (distanceFromRoute <= config.backOnRouteMeters) {
+    return { state: { ...state, offRoute: false, offRouteSince: null }, reroute: false };
+  }
+
+  // Between the two thresholds: keep the current verdict
+  if (distanceFromRoute <= config.offRouteMeters) {
+    return { state, reroute: false };
+  }
+
+  const followingRoute =
+    typeof heading === 'number' &&
+    !Number.isNaN(heading) &&
+    bearingDifference(heading, routeBearing) <= config.headingToleranceDeg &&
+    distanceFromRoute <= config.offRouteMeters * 2;
+  if (followingRoute && !state.offRoute) {
+    return { state: { ...state, offRouteSince: null }, reroute: false };
+  }
+
+  const offRouteSince = state.offRouteSince ?? time;
+  const offRoute = state.offRoute || time - offRouteSince >= config.offRouteMs;
+  const next = { ...state, offRoute, offRouteSince };
+  const rateLimited = state.lastRerouteAt !== null && time - state.lastRerouteAt < config.minRerouteIntervalMs;
+  return { state: next, reroute: offRoute && !rateLimited };
+}
+
+/**
+ * State once a reroute has been requested at `time`
+ * The new route starts with a clean slate; the request counts towards the
+ * rate limit even if no route is found.
+ */
+export function rerouteStarted(time: number): RerouteState {
+  return { offRoute: false, offRouteSince: null, lastRerouteAt: time };
+}
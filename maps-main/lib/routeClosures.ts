@@ -0,0 +1,220 @@
+import type { PathGraph } from '@/types';
+
+/**
+ * Street closures and temporary obstacles
+ * Closures are drawn by admins as a polyline (or a single point for an
+ * obstacle) in the SVG coordinates of the map they were drawn on: the outdoor
+ * street map, or a floor plan when floorId is set. Every edge that passes
+ * within `radius` of the line is removed ("closed") or made more expensive
+ * ("restricted") while the closure is active.
+ */
+
+export type ClosureKind = 'closed' | 'restricted';
+
+export interface RouteClosure {
+  id: string;
+  reason: string;
+  description: string | null;
+  kind: ClosureKind;
+  floorId: string | null;
+  points: Array<{ x: number; y: number }>;
+  radius: number; // map units around the line that count as affected
+  startsAt: string | Date;
+  endsAt: string | Date;
+}
+
+export const CLOSURE_KIND_LABELS: Record<ClosureKind, string> = {
+  closed: 'Closed',
+  restricted: 'Restricted',
+};
+
+const RESTRICTED_PENALTY = 5;     // Cost multiplier for edges through a restricted area
+const DETOUR_NOTICE_MARGIN = 40;  // Routes within this many map units of a closure get a detour notice
+
+type Point = { x: number; y: number };
+
+export function isClosureActive(closure: RouteClosure, at: Date = new Date()): boolean {
+  return new Date(closure.startsAt) <= at && at <= new Date(closure.endsAt);
+}
+
+function pointToSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const cross = (o: Point, p: Point, q: Point) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+function segmentDistance(a: Point, b: Point, c: Point, d: Point): number {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    pointToSegmentDistance(a, c, d),
+    pointToSegmentDistance(b, c, d),
+    pointToSegmentDistance(c, a, b),
+    pointToSegmentDistance(d, a, b)
+  );
+}
+
+/**
+ * Shortest distance between two polylines (either may be a single point)
+ */
+function polylineDistance(line: Point[], other: Point[]): number {
+  if (line.length === 0 || other.length === 0) return Infinity;
+  const segmentsOf = (points: Point[]) =>
+    points.length === 1 ? [[points[0], points[0]]] : points.slice(1).map((p, i) => [points[i], p]);
+
+  let min = Infinity;
+  for (const [a, b] of segmentsOf(line)) {
+    for (const [c, d] of segmentsOf(other)) {
+      min = Math.min(min, segmentDistance(a, b, c, d));
+    }
+  }
+  return min;
+}
+
+/**
+ * Closures active now on a map (floorId null for the outdoor map)
+ */
+export function activeClosuresFor(
+  closures: RouteClosure[],
+  floorId: string | null = null,
+  at: Date = new Date()
+): RouteClosure[] {
+  return closures.filter((c) => (c.floorId ?? null) === floorId && isClosureActive(c, at));
+}
+
+/**
+ * The first closure a line passes through, if any
+ */
+export function closureOnLine(line: Point[], closures: RouteClosure[]): RouteClosure | null {
+  return closures.find((c) => polylineDistance(line, c.points) <= c.radius) ?? null;
+}
+
+/**
+ * Outdoor graph with active closures applied
+ * Closed edges are dropped and restricted edges cost RESTRICTED_PENALTY times
+ * their length. Run the graph through this before routing; the original
+ * graph is returned untouched when no closure is active.
+ */
+export function applyClosures(graph: PathGraph, closures: RouteClosure[], at: Date = new Date()): PathGraph {
+  const active = activeClosuresFor(closures, null, at);
+  if (active.length === 0) return graph;
+
+  const adjacency: PathGraph['adjacency'] = {};
+  let closedEdges = 0;
+  let restrictedEdges = 0;
+
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    const from = graph.nodesById[fromId];
+    adjacency[fromId] = [];
+    for (const edge of edges) {
+      const to = graph.nodesById[edge.to];
+      const closure = from && to ? closureOnLine([from, ...(edge.points ?? []), to], active) : null;
+      if (!closure) {
+        adjacency[fromId].push(edge);
+      } else if (closure.kind === 'restricted') {
+        adjacency[fromId].push({ ...edge, distance: edge.distance * RESTRICTED_PENALTY });
+        restrictedEdges++;
+      } else {
+        closedEdges++;
+      }
+    }
+  }
+
+  console.log(`🚧 Applied ${active.length} closure(s): ${closedEdges} edges closed, ${restrictedEdges} restricted`);
+  return { ...graph, adjacency };
+}
+
+/**
+ * Indoor path segments with the active closures for one floor applied
+ */
+export function applyClosuresToSegments<T extends { start: Point; end: Point; length: number }>(
+  segments: T[],
+  closures: RouteClosure[],
+  floorId: string,
+  at: Date = new Date()
+): T[] {
+  const active = activeClosuresFor(closures, floorId, at);
+  if (active.length === 0) return segments;
+
+  return segments.flatMap((segment) => {
+    const closure = closureOnLine([segment.start, segment.end], active);
+    if (!closure) return [segment];
+    return closure.kind === 'restricted' ? [{ ...segment, length: segment.length * RESTRICTED_PENALTY }] : [];
+  });
+}
+
+/**
+ * Active closures a route passes close to, for the detour notice
+ * Route points carry a floorId when they are indoors.
+ */
+export function closuresNearRoute(
+  route: Array<Point & { floorId?: string }>,
+  closures: RouteClosure[],
+  at: Date = new Date()
+): RouteClosure[] {
+  if (route.length === 0) return [];
+
+  return closures.filter((closure) => {
+    if (!isClosureActive(closure, at)) return false;
+    const onMap = route.filter((p) => (p.floorId ?? null) === (closure.floorId ?? null));
+    return polylineDistance(onMap, closure.points) <= closure.radius + DETOUR_NOTICE_MARGIN;
+  });
+}
+
+/**
+ * Validate a closure submitted from the admin form
+ * Returns the fields to save, or an error message for a 400 response.
+ */
+export function parseClosureInput(body: any):
+  | { data: Omit<RouteClosure, 'id' | 'startsAt' | 'endsAt'> & { startsAt: Date; endsAt: Date; isLive: boolean } }
+  | { error: string } {
+  if (typeof body?.reason !== 'string' || !body.reason.trim()) {
+    return { error: 'A reason is required' };
+  }
+  if (body.kind !== 'closed' && body.kind !== 'restricted') {
+    return { error: 'Kind must be "closed" or "restricted"' };
+  }
+
+  const points = Array.isArray(body.points) ? body.points : [];
+  if (points.length === 0 || !points.every((p: any) => Number.isFinite(p?.x) && Number.isFinite(p?.y))) {
+    return { error: 'Draw the closure on the map (at least one point)' };
+  }
+
+  const radius = Number(body.radius);
+  if (!Number.isFinite(radius) || radius <= 0) {
+    return { error: 'Radius must be a positive number' };
+  }
+
+  const startsAt = new Date(body.startsAt);
+  const endsAt = new Date(body.endsAt);
+  if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+    return { error: 'Start and end times are required' };
+  }
+  if (endsAt <= startsAt) {
+    return { error: 'The closure must end after it starts' };
+  }
+
+  return {
+    data: {
+      reason: body.reason.trim(),
+      description: body.description || null,
+      kind: body.kind,
+      floorId: body.floorId || null,
+      points: points.map((p: any) => ({ x: Number(p.x), y: Number(p.y) })),
+      radius,
+      startsAt,
+      endsAt,
+      isLive: body.isLive ?? true,
+    },
+  };
+}
@@ -0,0 +1,218 @@
+import type { PathGraph, PathNode, RouteStop } from '@/types';
+import type { HybridRoute } from './hybridPathfinding';
+import type { DirectionsLocale } from './directionsLocale';
+import {
+  getAllDirections,
+  getHybridDirections,
+  nodesToGps,
+  outdoorSegmentNodes,
+  type DirectionStep,
+  type GpsPoint,
+} from './turnByTurn';
+
+/**
+ * Route export (GeoJSON, GPX 1.1 and KML)
+ * Lets tour guides load a computed walk into their own watch or GPS apps.
+ * Coordinates are WGS84; every format carries the route line plus one
+ * point per turn-by-turn step.
+ */
+
+export type RouteExportFormat = 'geojson' | 'gpx' | 'kml';
+
+export const ROUTE_EXPORT_FORMATS: Record<RouteExportFormat, { label: string; mimeType: string; extension: string }> = {
+  gpx: { label: 'GPX', mimeType: 'application/gpx+xml', extension: 'gpx' },
+  geojson: { label: 'GeoJSON', mimeType: 'application/geo+json', extension: 'geojson' },
+  kml: { label: 'KML', mimeType: 'application/vnd.google-earth.kml+xml', extension: 'kml' },
+};
+
+export function isRouteExportFormat(value: unknown): value is RouteExportFormat {
+  return typeof value === 'string' && Object.hasOwn(ROUTE_EXPORT_FORMATS, value);
+}
+
+export interface ExportableRoute {
+  name: string;
+  coordinates: GpsPoint[];
+  steps: DirectionStep[];
+}
+
+const CREATOR = 'Engage Sydney';
+
+/**
+ * Exportable route for a PathNode[] route on the street graph
+ */
+export function pathRouteForExport(
+  name: string,
+  route: PathNode[],
+  graph?: PathGraph,
+  stops: RouteStop[] = [],
+  locale?: DirectionsLocale
+): ExportableRoute {
+  return {
+    name,
+    coordinates: nodesToGps(route),
+    steps: getAllDirections(route, graph, stops, locale),
+  };
+}
+
+/**
+ * Exportable route for a hybrid route
+ * Floor plans have no GPS, so only the outdoor part and the entrances appear
+ * on the line; indoor steps are placed at the entrance.
+ */
+export function hybridRouteForExport(
+  name: string,
+  route: HybridRoute,
+  graph?: PathGraph,
+  labels: Parameters<typeof getHybridDirections>[2] = {},
+  locale?: DirectionsLocale
+): ExportableRoute {
+  const coordinates = route.segments.flatMap((segment) =>
+    segment.type === 'outdoor'
+      ? nodesToGps(outdoorSegmentNodes(segment, graph))
+      : segment.nodes.flatMap((n) => (n.gps ? [n.gps] : []))
+  );
+
+  return {
+    name,
+    coordinates,
+    steps: getHybridDirections(route, graph, labels, locale),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e7) / 1e7;
+}
+
+function locatedSteps(route: ExportableRoute) {
+  return route.steps.filter((step): step is DirectionStep & { location: GpsPoint } => Boolean(step.location));
+}
+
+/**
+ * GeoJSON FeatureCollection: the route as a LineString and each step as a Point
+ */
+export function routeToGeoJson(route: ExportableRoute) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: [
+      {
+        type: 'Feature' as const,
+        properties: { name: route.name, kind: 'route' },
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: route.coordinates.map((p) => [round(p.lng), round(p.lat)]),
+        },
+      },
+      ...route.steps.flatMap((step, index) =>
+        step.location
+          ? [{
+              type: 'Feature' as const,
+              properties: {
+                kind: 'step',
+                index,
+                instruction: step.instruction,
+                distance: Math.round(step.distance),
+                turnType: step.turnType,
+                streetName: step.streetName ?? null,
+              },
+              geometry: {
+                type: 'Point' as const,
+                coordinates: [round(step.location.lng), round(step.location.lat)],
+              },
+            }]
+          : []
+      ),
+    ],
+  };
+}
+
+/**
+ * GPX 1.1: steps as a route (<rte>) for turn cues and the full line as a track (<trk>)
+ */
+export function routeToGpx(route: ExportableRoute): string {
+  const name = escapeXml(route.name);
+  const rtepts = locatedSteps(route).map((step) =>
+    `    <rtept lat="${round(step.location.lat)}" lon="${round(step.location.lng)}">\n` +
+    `      <name>${escapeXml(step.instruction)}</name>\n` +
+    `      <type>${step.turnType}</type>\n` +
+    `    </rtept>`
+  );
+  const trkpts = route.coordinates.map((p) => `      <trkpt lat="${round(p.lat)}" lon="${round(p.lng)}" />`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    '  <metadata>',
+    `    <name>${name}</name>`,
+    '  </metadata>',
+    '  <rte>',
+    `    <name>${name}</name>`,
+    ...rtepts,
+    '  </rte>',
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...trkpts,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * KML 2.2: the route line plus a Directions folder with one placemark per step
+ */
+export function routeToKml(route: ExportableRoute): string {
+  const name = escapeXml(route.name);
+  const line = route.coordinates.map((p) => `${round(p.lng)},${round(p.lat)},0`).join(' ');
+  const placemarks = locatedSteps(route).map((step) =>
+    '      <Placemark>\n' +
+    `        <name>${escapeXml(step.instruction)}</name>\n` +
+    `        <Point><coordinates>${round(step.location.lng)},${round(step.location.lat)},0</coordinates></Point>\n` +
+    '      </Placemark>'
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${name}</name>`,
+    '    <Placemark>',
+    `      <name>${name}</name>`,
+    `      <LineString><tessellate>1</tessellate><coordinates>${line}</coordinates></LineString>`,
+    '    </Placemark>',
+    '    <Folder>',
+    '      <name>Directions</name>',
+    ...placemarks,
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Serialise a route in the given format, with a file name and MIME type for downloads
+ */
+export function exportRoute(
+  route: ExportableRoute,
+  format: RouteExportFormat
+): { content: string; mimeType: string; filename: string } {
+  const { mimeType, extension } = ROUTE_EXPORT_FORMATS[format];
+  const content =
+    format === 'gpx' ? routeToGpx(route)
+    : format === 'kml' ? routeToKml(route)
+    : JSON.stringify(routeToGeoJson(route), null, 2);
+
+  const slug = route.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'route';
+  return { content, mimeType, filename: `${slug}.${extension}` };
+}
@@ -0,0 +1,155 @@
+import { buildPathNetwork } from './graphLoader';
+import { findAlternativeRoutes, findMultiStopRoute } from './pathfinding';
+import { buildHybridGraph, findHybridRoute, outdoorGraphToMap } from './hybridPathfinding';
+import { buildMultiFloorGraph, findMultiFloorPath, findPathBetweenPOIs, type FloorGraphData } from './indoorPathfinding';
+import { applyClosures, applyClosuresToSegments } from './routeClosures';
+import type {
+  RoutingRequest,
+  RoutingRequestType,
+  RoutingResults,
+  RoutingWorkerInbound,
+  RoutingWorkerOutbound,
+} from './routingWorkerProtocol';
+
+/**
+ * Routing worker
+ * Graph loading, indoor and hybrid graph building and every route query run
+ * here, off the main thread, so the map keeps animating while a route is
+ * computed. The page talks to it through lib/routingWorkerClient.ts.
+ */
+
+const running = new Set<number>();
+const cancelled = new Set<number>();
+const CANCELLED = Symbol('cancelled');
+
+// Built by 'buildHybridGraph' and kept here; the page only learns its size
+let hybridGraph: Map<string, any> | null = null;
+
+interface RequestContext {
+  progress: (stage: string, completed: number, total: number) => void;
+  // Let queued messages (e.g. a cancel) through, then stop if cancelled
+  checkpoint: () => Promise<void>;
+}
+
+function post(message: RoutingWorkerOutbound) {
+  self.postMessage(message);
+}
+
+async function buildHybrid(
+  { entrances, floors, closures }: Extract<RoutingRequest, { type: 'buildHybridGraph' }>,
+  ctx: RequestContext
+): Promise<RoutingResults['buildHybridGraph']> {
+  const outdoorGraphMap = outdoorGraphToMap(applyClosures(await buildPathNetwork(), closures));
+  const floorsById = new Map(floors.map((floor) => [floor.floorId, floor]));
+
+  // Each building gets the floors its entrances are on
+  const buildingFloors = new Map<string, FloorGraphData[]>();
+  for (const buildingId of new Set(entrances.map((e) => e.buildingId))) {
+    const floorIds = new Set(entrances.filter((e) => e.buildingId === buildingId).map((e) => e.floorId));
+    const buildingFloorGraphs = [...floorIds].flatMap((floorId) => floorsById.get(floorId) ?? []);
+    if (buildingFloorGraphs.length > 0) buildingFloors.set(buildingId, buildingFloorGraphs);
+  }
+
+  let buildingsDone = 0;
+  const indoorGraphs = new Map();
+
+  for (const [buildingId, buildingFloorGraphs] of buildingFloors) {
+    ctx.progress('Building indoor graphs', buildingsDone, buildingFloors.size);
+    await ctx.checkpoint();
+    try {
+      const floorData = buildingFloorGraphs.map((floor) => ({
+        ...floor,
+        segments: applyClosuresToSegments(floor.segments, closures, floor.floorId),
+      }));
+      indoorGraphs.set(buildingId, buildMultiFloorGraph(floorData));
+    } catch (error) {
+      console.error(`✗ Failed to build indoor graph for building ${buildingId}:`, error);
+    }
+    buildingsDone++;
+  }
+
+  ctx.progress('Connecting building entrances', buildingsDone, buildingFloors.size);
+  await ctx.checkpoint();
+  const hybrid = await buildHybridGraph(outdoorGraphMap, entrances, indoorGraphs);
+
+  // A cancelled build must not replace the graph in use
+  await ctx.checkpoint();
+  hybridGraph = hybrid;
+  return { nodeCount: hybrid.size };
+}
+
+async function handle(request: RoutingRequest, ctx: RequestContext): Promise<RoutingResults[RoutingRequestType]> {
+  switch (request.type) {
+    case 'loadGraph':
+      return buildPathNetwork();
+
+    case 'route': {
+      const graph = applyClosures(await buildPathNetwork(), request.closures);
+      const diagnostics = findMultiStopRoute(graph, request.stops, request.placeIds, request.profile);
+      const { route, startNode, endNode } = diagnostics;
+
+      // Alternatives are only offered for single-leg journeys; the first is always the route above
+      const alternatives =
+        request.alternatives > 0 && request.stops.length === 2 && route.length >= 2 && startNode && endNode
+          ? findAlternativeRoutes(graph, startNode, endNode, route, request.alternatives, request.profile)
+          : [];
+      return { diagnostics, alternatives };
+    }
+
+    case 'indoorRoute': {
+      const { floors, start, end, profile, closures } = request;
+      if (start.floorId !== end.floorId) {
+        return findMultiFloorPath(floors, start, end, profile, closures);
+      }
+
+      const floor = floors.find((f) => f.floorId === start.floorId);
+      if (!floor) throw new Error(`Floor plan not loaded for ${start.floorId}`);
+      const result = findPathBetweenPOIs(floor.segments, start, { x: end.x, y: end.y }, closures);
+      return result
+        ? { nodes: result.nodes.map((node) => ({ ...node, floorId: start.floorId })), distance: result.distance }
+        : null;
+    }
+
+    case 'buildHybridGraph':
+      return buildHybrid(request, ctx);
+
+    case 'hybridRoute':
+      if (!hybridGraph) throw new Error('Hybrid graph has not been built yet');
+      return findHybridRoute(hybridGraph, request.start, request.end, request.profile);
+  }
+}
+
+async function run(id: number, request: RoutingRequest) {
+  running.add(id);
+  const ctx: RequestContext = {
+    progress: (stage, completed, total) => post({ id, kind: 'progress', progress: { stage, completed, total } }),
+    checkpoint: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (cancelled.has(id)) throw CANCELLED;
+    },
+  };
+
+  try {
+    const result = await handle(request, ctx);
+    post(cancelled.has(id) ? { id, kind: 'cancelled' } : { id, kind: 'result', result });
+  } catch (error) {
+    if (error === CANCELLED) {
+      post({ id, kind: 'cancelled' });
+    } else {
+      console.error(`Routing worker failed on ${request.type}:`, error);
+      post({ id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  } finally {
+    running.delete(id);
+    cancelled.delete(id);
+  }
+}
+
+self.onmessage = (event: MessageEvent<RoutingWorkerInbound>) => {
+  const message = event.data;
+  if (message.kind === 'cancel') {
+    if (running.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+  run(message.id, message.request);
+};
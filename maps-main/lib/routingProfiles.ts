@@ -0,0 +1,46 @@
+/**
+ * Routing profiles
+ * Edges that involve steps (red "non-accessible" paths in the street SVG,
+ * non-accessible building entrances and indoor stair portals) are flagged
+ * with `accessible: false`. Each profile decides what those edges cost.
+ */
+
+export type RoutingProfile = 'default' | 'step-free' | 'pram';
+
+export const ROUTING_PROFILES: Record<RoutingProfile, { label: string; description: string; stepPenalty: number }> = {
+  default: {
+    label: 'Default',
+    description: 'Shortest walking route',
+    stepPenalty: 1,
+  },
+  'step-free': {
+    label: 'Step-free',
+    description: 'Never uses stairs or steps (wheelchairs, mobility aids)',
+    stepPenalty: Infinity,
+  },
+  pram: {
+    label: 'Pram-friendly',
+    description: 'Avoids steps unless there is no reasonable way around',
+    stepPenalty: 4,
+  },
+};
+
+export function isRoutingProfile(value: unknown): value is RoutingProfile {
+  return typeof value === 'string' && Object.hasOwn(ROUTING_PROFILES, value);
+}
+
+/**
+ * Cost of walking an edge under a profile
+ * Returns Infinity for edges the profile excludes, so A* never expands them.
+ * `accessible` is undefined for edges with no accessibility data, which are
+ * treated as step-free.
+ */
+export function edgeCostForProfile(
+  distance: number,
+  accessible: boolean | undefined,
+  profile: RoutingProfile
+): number {
+  if (accessible !== false) return distance;
+  const penalty = ROUTING_PROFILES[profile].stepPenalty;
+  return penalty === Infinity ? Infinity : distance * penalty;
+}
@@ -0,0 +1,331 @@
+import type { PathGraph } from '@/types';
+import { prisma } from './prisma';
+import { buildPathNetwork } from './serverGraphLoader';
+import { getRouteClosures } from './dataService';
+import { gpsToSvg } from './coordinateMapper';
+import { findRouteWithDiagnostics } from './pathfinding';
+import { buildHybridGraph, findHybridRoute, outdoorGraphToMap, type HybridRoute } from './hybridPathfinding';
+import { buildMultiFloorGraph } from './indoorPathfinding';
+import { getFloorGraphs } from './floorGraphs';
+import { applyClosures, applyClosuresToSegments, closuresNearRoute, type RouteClosure } from './routeClosures';
+import {
+  calculateETA,
+  getAllDirections,
+  getHybridDirections,
+  nodesToGps,
+  outdoorSegmentNodes,
+  routeDistanceMeters,
+  walkingMinutes,
+  type DirectionStep,
+} from './turnByTurn';
+import type { RoutingProfile } from './routingProfiles';
+import { DEFAULT_DIRECTIONS_LOCALE, type DirectionsLocale } from './directionsLocale';
+
+/**
+ * Server-side routing for /api/route
+ * Resolves endpoints (coordinates, places or indoor POIs), runs the same
+ * pathfinding as the map and returns a JSON-friendly route summary.
+ */
+
+export type RouteEndpointInput =
+  | { lat: number; lng: number }
+  | { placeId: string }
+  | { indoorPoiId: string }
+  | { floorId: string; x: number; y: number };
+
+type ResolvedEndpoint =
+  | { kind: 'outdoor'; name: string; lat: number; lng: number; placeId?: string }
+  | { kind: 'indoor'; name: string; buildingId: string; floorId: string; x: number; y: number };
+
+export interface RouteResult {
+  mode: 'outdoor' | 'hybrid';
+  from: ResolvedEndpoint;
+  to: ResolvedEndpoint;
+  distanceMeters: number;
+  durationMinutes: number;
+  eta: string;
+  geometry: { type: 'LineString'; coordinates: [number, number][] }; // GeoJSON [lng, lat]
+  segments?: Array<{
+    type: HybridRoute['segments'][number]['type'];
+    buildingId?: string;
+    floorId?: string;
+    distanceMeters: number;
+    coordinates?: [number, number][]; // outdoor segments
+    points?: Array<{ x: number; y: number }>; // indoor segments, floor plan coordinates
+  }>;
+  steps: DirectionStep[];
+  closures: Array<{ id: string; reason: string; kind: RouteClosure['kind'] }>;
+  algorithm?: 'astar' | 'bfs';
+}
+
+/**
+ * Validate an endpoint from a request body
+ */
+export function parseRouteEndpoint(value: any): RouteEndpointInput | null {
+  if (typeof value?.placeId === 'string' && value.placeId) {
+    return { placeId: value.placeId };
+  }
+  if (typeof value?.indoorPoiId === 'string' && value.indoorPoiId) {
+    return { indoorPoiId: value.indoorPoiId };
+  }
+  if (typeof value?.floorId === 'string' && Number.isFinite(value?.x) && Number.isFinite(value?.y)) {
+    return { floorId: value.floorId, x: value.x, y: value.y };
+  }
+  if (Number.isFinite(value?.lat) && Number.isFinite(value?.lng)) {
+    return { lat: value.lat, lng: value.lng };
+  }
+  return null;
+}
+
+/**
+ * Read an endpoint from query parameters, e.g. fromLat/fromLng, fromPlaceId,
+ * fromPoiId or fromFloorId/fromX/fromY
+ */
+export function routeEndpointFromQuery(params: URLSearchParams, prefix: 'from' | 'to'): RouteEndpointInput | null {
+  const get = (key: string) => params.get(`${prefix}${key}`);
+  const num = (key: string) => (get(key) === null || get(key) === '' ? NaN : Number(get(key)));
+
+  return parseRouteEndpoint({
+    placeId: get('PlaceId'),
+    indoorPoiId: get('PoiId'),
+    floorId: get('FloorId'),
+    x: num('X'),
+    y: num('Y'),
+    lat: num('Lat'),
+    lng: num('Lng'),
+  });
+}
+
+/**
+ * Look up places and indoor POIs; returns null if the endpoint does not exist
+ */
+async function resolveEndpoint(input: RouteEndpointInput): Promise<ResolvedEndpoint | null> {
+  if ('placeId' in input) {
+    const place = await prisma.place.findFirst({
+      where: { id: input.placeId, isLive: true, deletedAt: null },
+      select: { id: true, name: true, lat: true, lng: true },
+    });
+    return place ? { kind: 'outdoor', name: place.name, lat: place.lat, lng: place.lng, placeId: place.id } : null;
+  }
+
+  if ('indoorPoiId' in input) {
+    const poi = await prisma.indoorPOI.findFirst({
+      where: {
+        id: input.indoorPoiId,
+        isLive: true,
+        deletedAt: null,
+        Floor: { Building: { Place: { deletedAt: null } } },
+      },
+      select: { name: true, x: true, y: true, floorId: true, Floor: { select: { buildingId: true } } },
+    });
+    return poi
+      ? { kind: 'indoor', name: poi.name, buildingId: poi.Floor.buildingId, floorId: poi.floorId, x: poi.x, y: poi.y }
+      : null;
+  }
+
+  if ('floorId' in input) {
+    const floor = await prisma.floor.findFirst({
+      where: { id: input.floorId, Building: { Place: { deletedAt: null } } },
+      select: { id: true, name: true, buildingId: true },
+    });
+    return floor
+      ? { kind: 'indoor', name: floor.name, buildingId: floor.buildingId, floorId: floor.id, x: input.x, y: input.y }
+      : null;
+  }
+
+  return { kind: 'outdoor', name: 'Dropped pin', lat: input.lat, lng: input.lng };
+}
+
+function toGeoJsonCoordinates(points: Array<{ lat: number; lng: number }>): [number, number][] {
+  return points.map((p) => [p.lng, p.lat]);
+}
+
+function summarizeClosures(closures: RouteClosure[]): RouteResult['closures'] {
+  return closures.map((c) => ({ id: c.id, reason: c.reason, kind: c.kind }));
+}
+
+/**
+ * Outdoor-only route on the street graph
+ */
+function outdoorRoute(
+  graph: PathGraph,
+  from: Extract<ResolvedEndpoint, { kind: 'outdoor' }>,
+  to: Extract<ResolvedEndpoint, { kind: 'outdoor' }>,
+  closures: RouteClosure[],
+  profile: RoutingProfile,
+  locale: DirectionsLocale
+): RouteResult | null {
+  const start = { id: 'start', name: from.name, ...gpsToSvg(from.lat, from.lng), lat: from.lat, lng: from.lng };
+  const end = { id: 'end', name: to.name, ...gpsToSvg(to.lat, to.lng), lat: to.lat, lng: to.lng };
+
+  const result = findRouteWithDiagnostics(graph, start, end, from.placeId, to.placeId, profile);
+  if (result.algorithm === 'failed' || result.route.length < 2) return null;
+
+  const distanceMeters = routeDistanceMeters(result.route);
+  return {
+    mode: 'outdoor',
+    from,
+    to,
+    distanceMeters: Math.round(distanceMeters),
+    durationMinutes: walkingMinutes(distanceMeters),
+    eta: calculateETA(distanceMeters),
+    geometry: { type: 'LineString', coordinates: toGeoJsonCoordinates(nodesToGps(result.route)) },
+    steps: getAllDirections(result.route, graph, [], locale),
+    closures: summarizeClosures(closuresNearRoute(result.route, closures)),
+    algorithm: result.algorithm,
+  };
+}
+
+/**
+ * Indoor graphs for the given buildings, built from their precompiled floor graphs
+ */
+async function loadIndoorGraphs(buildingIds: string[], closures: RouteClosure[]) {
+  const floors = await prisma.floor.findMany({
+    where: { buildingId: { in: buildingIds } },
+    select: { id: true, buildingId: true, svgPath: true },
+  });
+  const floorGraphs = await getFloorGraphs(floors);
+
+  const indoorGraphs = new Map<string, Map<string, any>>();
+  for (const buildingId of buildingIds) {
+    const floorIds = new Set(floors.filter((f) => f.buildingId === buildingId).map((f) => f.id));
+    const floorData = floorGraphs
+      .filter((graph) => floorIds.has(graph.floorId))
+      .map((graph) => ({ ...graph, segments: applyClosuresToSegments(graph.segments, closures, graph.floorId) }));
+    if (floorData.length > 0) {
+      indoorGraphs.set(buildingId, buildMultiFloorGraph(floorData));
+    }
+  }
+  return indoorGraphs;
+}
+
+/**
+ * Route with an indoor start and/or destination, through building entrances
+ * Indoor distances are floor plan units, which the floor plans draw at roughly one per metre.
+ */
+async function hybridRoute(
+  graph: PathGraph,
+  from: ResolvedEndpoint,
+  to: ResolvedEndpoint,
+  closures: RouteClosure[],
+  profile: RoutingProfile,
+  locale: DirectionsLocale
+): Promise<RouteResult | null> {
+  const buildingIds = Array.from(new Set(
+    [from, to].flatMap((endpoint) => (endpoint.kind === 'indoor' ? [endpoint.buildingId] : []))
+  ));
+
+  const [entrances, floors, indoorGraphs] = await Promise.all([
+    prisma.buildingEntrance.findMany({
+      where: { buildingId: { in: buildingIds }, isOpen: true },
+      select: {
+        id: true,
+        buildingId: true,
+        floorId: true,
+        name: true,
+        type: true,
+        lat: true,
+        lng: true,
+        indoorX: true,
+        indoorY: true,
+        isAccessible: true,
+      },
+    }),
+    prisma.floor.findMany({
+      where: { buildingId: { in: buildingIds } },
+      select: { id: true, name: true, buildingId: true, Building: { select: { name: true } } },
+    }),
+    loadIndoorGraphs(buildingIds, closures),
+  ]);
+
+  const hybridGraph = await buildHybridGraph(outdoorGraphToMap(graph), entrances, indoorGraphs);
+  const toHybridPoint = (endpoint: ResolvedEndpoint) =>
+    endpoint.kind === 'indoor'
+      ? { buildingId: endpoint.buildingId, floorId: endpoint.floorId, x: endpoint.x, y: endpoint.y }
+      : { lat: endpoint.lat, lng: endpoint.lng };
+
+  const route = await findHybridRoute(hybridGraph, toHybridPoint(from), toHybridPoint(to), profile);
+  if (!route) return null;
+
+  const segments: NonNullable<RouteResult['segments']> = [];
+  const routePoints: Array<{ x: number; y: number; floorId?: string }> = [];
+  const gpsPoints: Array<{ lat: number; lng: number }> = [];
+
+  route.segments.forEach((segment) => {
+    if (segment.type === 'outdoor') {
+      const nodes = outdoorSegmentNodes(segment, graph);
+      segments.push({
+        type: segment.type,
+        distanceMeters: routeDistanceMeters(nodes),
+        coordinates: toGeoJsonCoordinates(nodesToGps(nodes)),
+      });
+      routePoints.push(...nodes);
+      gpsPoints.push(...nodesToGps(nodes));
+      return;
+    }
+
+    if (segment.type === 'building-entrance') {
+      segments.push({ type: segment.type, buildingId: segment.buildingId, floorId: segment.floorId, distanceMeters: 0 });
+      gpsPoints.push(...segment.nodes.flatMap((n) => (n.gps ? [n.gps] : [])));
+      return;
+    }
+
+    const points = segment.nodes.flatMap((n) => (n.svg ? [n.svg] : []));
+    segments.push({
+      type: segment.type,
+      buildingId: segment.buildingId,
+      floorId: segment.floorId,
+      distanceMeters: segment.distance,
+      points,
+    });
+    routePoints.push(...points.map((p) => ({ ...p, floorId: segment.floorId })));
+  });
+
+  const labels = {
+    floors: Object.fromEntries(floors.map((f) => [f.id, f.name])),
+    buildings: Object.fromEntries(floors.map((f) => [f.buildingId, f.Building.name])),
+    destination: to.name,
+  };
+  const steps = getHybridDirections(route, graph, labels, locale);
+
+  const distanceMeters = segments.reduce((sum, s) => sum + s.distanceMeters, 0);
+  return {
+    mode: 'hybrid',
+    from,
+    to,
+    distanceMeters: Math.round(distanceMeters),
+    durationMinutes: walkingMinutes(distanceMeters),
+    eta: calculateETA(distanceMeters),
+    geometry: { type: 'LineString', coordinates: toGeoJsonCoordinates(gpsPoints) },
+    segments: segments.map((s) => ({ ...s, distanceMeters: Math.round(s.distanceMeters) })),
+    steps,
+    closures: summarizeClosures(closuresNearRoute(routePoints, closures)),
+  };
+}
+
+/**
+ * Plan a walking route between two endpoints
+ * Returns { error, status } for unknown endpoints (404) or when no route exists (422).
+ */
+export async function planRoute(
+  fromInput: RouteEndpointInput,
+  toInput: RouteEndpointInput,
+  profile: RoutingProfile = 'default',
+  locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE
+): Promise<{ route: RouteResult } | { error: string; status: number }> {
+  const [from, to] = await Promise.all([resolveEndpoint(fromInput), resolveEndpoint(toInput)]);
+  if (!from) return { error: 'Start location not found', status: 404 };
+  if (!to) return { error: 'Destination not found', status: 404 };
+
+  const closures = await getRouteClosures();
+  const graph = applyClosures(await buildPathNetwork(), closures);
+
+  const route = from.kind === 'outdoor' && to.kind === 'outdoor'
+    ? outdoorRoute(graph, from, to, closures, profile, locale)
+    : await hybridRoute(graph, from, to, closures, profile, locale);
+
+  if (!route) {
+    return { error: 'Unable to find a walking route between these locations', status: 422 };
+  }
+  return { route };
+}
@@ -0,0 +1,92 @@
+import type {
+  RoutingProgress,
+  RoutingRequest,
+  RoutingRequestType,
+  RoutingResults,
+  RoutingWorkerInbound,
+  RoutingWorkerOutbound,
+} from './routingWorkerProtocol';
+
+/**
+ * Client for the routing worker (lib/routing.worker.ts)
+ * One worker is started lazily and shared by the whole page. Each request
+ * returns a promise for its typed result; aborting the signal rejects it
+ * with an AbortError straight away and tells the worker to stop.
+ */
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: RoutingProgress) => void;
+}
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, PendingRequest>();
+
+function send(message: RoutingWorkerInbound) {
+  getWorker().postMessage(message);
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('./routing.worker.ts', import.meta.url));
+
+  worker.onmessage = (event: MessageEvent<RoutingWorkerOutbound>) => {
+    const message = event.data;
+    const request = pending.get(message.id);
+    if (!request) return; // Already settled, e.g. aborted
+
+    if (message.kind === 'progress') {
+      request.onProgress?.(message.progress);
+      return;
+    }
+
+    pending.delete(message.id);
+    if (message.kind === 'result') request.resolve(message.result);
+    else if (message.kind === 'error') request.reject(new Error(message.message));
+    else request.reject(new DOMException('Routing request cancelled', 'AbortError'));
+  };
+
+  // A crashed worker fails everything in flight; the next request starts a fresh one
+  worker.onerror = (event) => {
+    console.error('Routing worker crashed:', event.message);
+    for (const request of pending.values()) request.reject(new Error('Routing worker crashed'));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+
+  return worker;
+}
+
+/**
+ * Send a request to the routing worker
+ */
+export function requestRouting<T extends RoutingRequestType>(
+  request: Extract<RoutingRequest, { type: T }>,
+  options: { signal?: AbortSignal; onProgress?: (progress: RoutingProgress) => void } = {}
+): Promise<RoutingResults[T]> {
+  const { signal, onProgress } = options;
+  if (signal?.aborted) {
+    return Promise.reject(new DOMException('Routing request cancelled', 'AbortError'));
+  }
+
+  const id = nextId++;
+  return new Promise<RoutingResults[T]>((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress });
+
+    signal?.addEventListener(
+      'abort',
+      () => {
+        if (!pending.delete(id)) return;
+        send({ id, kind: 'cancel' });
+        reject(new DOMException('Routing request cancelled', 'AbortError'));
+      },
+      { once: true }
+    );
+
+    send({ id, kind: 'request', request });
+  });
+}
@@ -0,0 +1,77 @@
+import type { Intersection, PathGraph } from '@/types';
+import type { MultiStopDiagnostics, RouteAlternative } from './pathfinding';
+import type { BuildingEntrance, HybridRoute } from './hybridPathfinding';
+import type { FloorGraphData } from './indoorPathfinding';
+import type { RoutingProfile } from './routingProfiles';
+import type { RouteClosure } from './routeClosures';
+
+/**
+ * Message protocol between the page and the routing worker
+ * (lib/routing.worker.ts). Every request carries an ID; the worker answers
+ * with exactly one result, error or cancelled message for it, and may send
+ * progress messages first. Coordinates are sent already projected to SVG
+ * space, so the worker never needs the map calibration, and floors arrive
+ * precompiled, so it never parses floor plan SVGs.
+ */
+
+type IndoorPoint = { x: number; y: number; floorId: string };
+type HybridEndpoint = { lat: number; lng: number } | { buildingId: string; floorId: string; x: number; y: number };
+
+export type RoutingRequest =
+  | { type: 'loadGraph' }
+  | {
+      type: 'route';
+      stops: Intersection[]; // Start, waypoints and destination, in order
+      placeIds: Array<string | undefined>;
+      profile: RoutingProfile;
+      closures: RouteClosure[];
+      alternatives: number; // Only for single-leg routes; 0 for none
+    }
+  | {
+      type: 'indoorRoute';
+      floors: FloorGraphData[]; // Precompiled, from /api/indoor-nav/[placeId]
+      start: IndoorPoint;
+      end: IndoorPoint;
+      profile: RoutingProfile;
+      closures: RouteClosure[];
+    }
+  | {
+      type: 'buildHybridGraph';
+      entrances: BuildingEntrance[];
+      floors: FloorGraphData[]; // Precompiled, from /api/indoor-nav/[placeId]
+      closures: RouteClosure[];
+    }
+  | {
+      type: 'hybridRoute';
+      start: HybridEndpoint;
+      end: HybridEndpoint;
+      profile: RoutingProfile;
+    };
+
+export type RoutingRequestType = RoutingRequest['type'];
+
+export interface RoutingResults {
+  loadGraph: PathGraph;
+  route: { diagnostics: MultiStopDiagnostics; alternatives: RouteAlternative[] };
+  indoorRoute: { nodes: Array<{ x: number; y: number; floorId?: string }>; distance: number } | null;
+  buildHybridGraph: { nodeCount: number };
+  hybridRoute: HybridRoute | null;
+}
+
+export interface RoutingProgress {
+  stage: string;
+  completed: number;
+  total: number;
+}
+
+// Page → worker
+export type RoutingWorkerInbound =
+  | { id: number; kind: 'request'; request: RoutingRequest }
+  | { id: number; kind: 'cancel' };
+
+// Worker → page
+export type RoutingWorkerOutbound =
+  | { id: number; kind: 'progress'; progress: RoutingProgress }
+  | { id: number; kind: 'result'; result: RoutingResults[RoutingRequestType] }
+  | { id: number; kind: 'error'; message: string }
+  | { id: number; kind: 'cancelled' };
@@ -0,0 +1,12 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createGraphLoader, GRAPH_DIR } from './graphLoader';
+
+/**
+ * Server-side graph loader for API routes
+ * Reads the same files the browser fetches straight from public/graph/.
+ */
+export const buildPathNetwork = createGraphLoader(async (file) => {
+  const data = await fs.readFile(path.join(process.cwd(), 'public', GRAPH_DIR, file));
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+});
@@ -0,0 +1,213 @@
+import type { PathGraph, PathNode } from '@/types';
+
+/**
+ * Spatial index for nearest-node lookups
+ * A uniform grid: items are bucketed into square cells, and a nearest query
+ * searches rings of cells outward from the query point until no closer item
+ * can exist. Works on planar coordinates; GPS points are projected to local
+ * meters first (see gpsToPlanar), which is accurate to well under a metre
+ * across the CBD.
+ */
+
+type Point = { x: number; y: number };
+
+interface IndexedItem<T> {
+  item: T;
+  x: number;
+  y: number;
+}
+
+export interface SpatialIndex<T> {
+  cellSize: number;
+  cells: Map<number, IndexedItem<T>[]>;
+  size: number;
+  // Bounds of occupied cells, so ring searches know when to stop
+  minCol: number;
+  maxCol: number;
+  minRow: number;
+  maxRow: number;
+}
+
+export const DEFAULT_CELL_SIZE = 50; // SVG units, for indexes filled one item at a time
+export const GPS_CELL_SIZE = 100; // meters
+
+const METERS_PER_DEGREE_LAT = 110_540;
+const METERS_PER_DEGREE_LNG_AT_EQUATOR = 111_320;
+const REFERENCE_LAT = -33.87; // Sydney CBD
+
+/**
+ * Project GPS coordinates to planar meters (equirectangular, around the CBD)
+ */
+export function gpsToPlanar(lat: number, lng: number): Point {
+  return {
+    x: lng * METERS_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((REFERENCE_LAT * Math.PI) / 180),
+    y: lat * METERS_PER_DEGREE_LAT,
+  };
+}
+
+// Numeric keys are much cheaper to hash than "col,row" strings. Rows stay
+// well inside ±2^21 for SVG units and for GPS meters.
+function cellKey(col: number, row: number): number {
+  return col * 4_194_304 + row;
+}
+
+export function createSpatialIndex<T>(cellSize: number = DEFAULT_CELL_SIZE): SpatialIndex<T> {
+  return {
+    cellSize,
+    cells: new Map(),
+    size: 0,
+    minCol: Infinity,
+    maxCol: -Infinity,
+    minRow: Infinity,
+    maxRow: -Infinity,
+  };
+}
+
+export function insertIntoIndex<T>(index: SpatialIndex<T>, item: T, point: Point): void {
+  const col = Math.floor(point.x / index.cellSize);
+  const row = Math.floor(point.y / index.cellSize);
+  const key = cellKey(col, row);
+
+  const cell = index.cells.get(key);
+  if (cell) cell.push({ item, x: point.x, y: point.y });
+  else index.cells.set(key, [{ item, x: point.x, y: point.y }]);
+
+  index.size++;
+  index.minCol = Math.min(index.minCol, col);
+  index.maxCol = Math.max(index.maxCol, col);
+  index.minRow = Math.min(index.minRow, row);
+  index.maxRow = Math.max(index.maxRow, row);
+}
+
+/**
+ * Index a batch of items. Without a cell size, one is picked from the items'
+ * bounds so that each cell holds about one item on average.
+ */
+export function buildSpatialIndex<T>(
+  items: Iterable<T>,
+  getPoint: (item: T) => Point | null | undefined,
+  cellSize?: number
+): SpatialIndex<T> {
+  const entries: Array<[T, Point]> = [];
+  for (const item of items) {
+    const point = getPoint(item);
+    if (point) entries.push([item, point]);
+  }
+
+  const index = createSpatialIndex<T>(cellSize ?? autoCellSize(entries.map(([, point]) => point)));
+  for (const [item, point] of entries) insertIntoIndex(index, item, point);
+  return index;
+}
+
+function autoCellSize(points: Point[]): number {
+  if (points.length < 2) return DEFAULT_CELL_SIZE;
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x);
+    maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y);
+    maxY = Math.max(maxY, p.y);
+  }
+  const side = Math.sqrt(((maxX - minX) * (maxY - minY)) / points.length);
+  return side > 0 ? side : DEFAULT_CELL_SIZE;
+}
+
+// Visit the cells on the perimeter of the square ring `ring` cells out from (col, row)
+function forEachRingCell(col: number, row: number, ring: number, visit: (c: number, r: number) => void): void {
+  if (ring === 0) {
+    visit(col, row);
+    return;
+  }
+  for (let c = col - ring; c <= col + ring; c++) {
+    visit(c, row - ring);
+    visit(c, row + ring);
+  }
+  for (let r = row - ring + 1; r <= row + ring - 1; r++) {
+    visit(col - ring, r);
+    visit(col + ring, r);
+  }
+}
+
+/**
+ * Nearest item to a point, optionally within maxDistance and matching a filter
+ */
+export function nearestInIndex<T>(
+  index: SpatialIndex<T>,
+  point: Point,
+  maxDistance: number = Infinity,
+  filter?: (item: T) => boolean
+): { item: T; distance: number } | null {
+  if (index.size === 0) return null;
+
+  const col = Math.floor(point.x / index.cellSize);
+  const row = Math.floor(point.y / index.cellSize);
+
+  // Rings closer than the occupied bounds are empty; rings past them hold nothing new
+  const firstRing = Math.max(0, index.minCol - col, col - index.maxCol, index.minRow - row, row - index.maxRow);
+  const lastRing = Math.max(col - index.minCol, index.maxCol - col, row - index.minRow, index.maxRow - row);
+
+  // Assigned inside the cell visitor, which control-flow narrowing can't see
+  let best = null as { item: T; distance: number } | null;
+
+  for (let ring = firstRing; ring <= lastRing; ring++) {
+    // Everything in this ring is at least (ring - 1) cells away
+    const ringMinDistance = Math.max(0, ring - 1) * index.cellSize;
+    if (ringMinDistance > maxDistance) break;
+    if (best && best.distance <= ringMinDistance) break;
+
+    forEachRingCell(col, row, ring, (c, r) => {
+      const cell = index.cells.get(cellKey(c, r));
+      if (!cell) return;
+
+      for (const entry of cell) {
+        const d = Math.hypot(entry.x - point.x, entry.y - point.y);
+        if (d > maxDistance || (best && d >= best.distance)) continue;
+        if (filter && !filter(entry.item)) continue;
+        best = { item: entry.item, distance: d };
+      }
+    });
+  }
+
+  return best;
+}
+
+/**
+ * All items within a radius of a point, nearest first
+ */
+export function itemsWithinRadius<T>(
+  index: SpatialIndex<T>,
+  point: Point,
+  radius: number
+): Array<{ item: T; distance: number }> {
+  const minCol = Math.floor((point.x - radius) / index.cellSize);
+  const maxCol = Math.floor((point.x + radius) / index.cellSize);
+  const minRow = Math.floor((point.y - radius) / index.cellSize);
+  const maxRow = Math.floor((point.y + radius) / index.cellSize);
+
+  const found: Array<{ item: T; distance: number }> = [];
+  for (let c = Math.max(minCol, index.minCol); c <= Math.min(maxCol, index.maxCol); c++) {
+    for (let r = Math.max(minRow, index.minRow); r <= Math.min(maxRow, index.maxRow); r++) {
+      for (const entry of index.cells.get(cellKey(c, r)) ?? []) {
+        const d = Math.hypot(entry.x - point.x, entry.y - point.y);
+        if (d <= radius) found.push({ item: entry.item, distance: d });
+      }
+    }
+  }
+  return found.sort((a, b) => a.distance - b.distance);
+}
+
+// Graph indexes are built on first lookup and reused. Keyed on nodesById so
+// graphs that share nodes (e.g. with closures applied) share an index.
+const pathGraphIndexes = new WeakMap<PathGraph['nodesById'], SpatialIndex<PathNode>>();
+
+/**
+ * Spatial index over a PathGraph's nodes (SVG coordinates)
+ */
+export function getPathGraphIndex(graph: PathGraph): SpatialIndex<PathNode> {
+  let index = pathGraphIndexes.get(graph.nodesById);
+  if (!index) {
+    index = buildSpatialIndex(Object.values(graph.nodesById), (node) => node);
+    pathGraphIndexes.set(graph.nodesById, index);
+  }
+  return index;
+}
@@ -0,0 +1,20 @@
+// @ts-nocheck - Test file without test framework types configured
+import { base32Encode, generateTotp, verifyTotp } from './totp';
+
+// RFC 6238 Appendix B test secret ("12345678901234567890"), 6-digit variants
+const SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+test('matches RFC 6238 SHA-1 test vectors', () => {
+  expect(generateTotp(SECRET, 59 * 1000)).toBe('287082');
+  expect(generateTotp(SECRET, 1111111109 * 1000)).toBe('081804');
+  expect(generateTotp(SECRET, 1234567890 * 1000)).toBe('005924');
+  expect(generateTotp(SECRET, 2000000000 * 1000)).toBe('279037');
+});
+
+test('accepts codes from adjacent steps only', () => {
+  const now = 1234567890 * 1000;
+  const previous = generateTotp(SECRET, now - 30 * 1000);
+  expect(verifyTotp(SECRET, previous, now)).not.toBeNull();
+  expect(verifyTotp(SECRET, generateTotp(SECRET, now - 90 * 1000), now)).toBeNull();
+  expect(verifyTotp(SECRET, 'abcdef', now)).toBeNull();
+});
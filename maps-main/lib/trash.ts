@@ -0,0 +1,173 @@
+import { prisma } from "@/lib/prisma";
+import type { Permission } from "@/lib/permissions";
+
+/**
+ * Soft delete ("Trash") for places, deals, events and indoor POIs
+ * Admin DELETE handlers only set deletedAt, so related deals, events,
+ * buildings and feedback survive. Public readers (lib/dataService.ts and the
+ * public API routes) filter on deletedAt: null. Items can be restored at any
+ * time and purged for good once the retention period has passed.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_TYPES = {
+  place: { label: "Place", permission: "places:write" },
+  deal: { label: "Deal", permission: "deals:write" },
+  event: { label: "Event", permission: "events:write" },
+  indoorPoi: { label: "Indoor POI", permission: "indoorPois:write" },
+} as const satisfies Record<string, { label: string; permission: Permission }>;
+
+export type TrashType = keyof typeof TRASH_TYPES;
+
+export type TrashItem = {
+  type: TrashType;
+  id: string;
+  name: string;
+  context: string | null;
+  deletedAt: Date;
+  purgeableAt: Date;
+};
+
+export function isTrashType(value: string): value is TrashType {
+  return Object.hasOwn(TRASH_TYPES, value);
+}
+
+/**
+ * When a deleted item may be purged permanently
+ */
+export function purgeableAt(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * All soft-deleted items, most recently deleted first
+ */
+export async function listTrash(): Promise<TrashItem[]> {
+  const deleted = { deletedAt: { not: null } };
+
+  const [places, deals, events, indoorPois] = await Promise.all([
+    prisma.place.findMany({
+      where: deleted,
+      select: { id: true, name: true, category: true, deletedAt: true },
+    }),
+    prisma.deal.findMany({
+      where: deleted,
+      select: { id: true, title: true, deletedAt: true, Place: { select: { name: true } } },
+    }),
+    prisma.event.findMany({
+      where: deleted,
+      select: { id: true, title: true, deletedAt: true, Place: { select: { name: true } } },
+    }),
+    prisma.indoorPOI.findMany({
+      where: deleted,
+      select: {
+        id: true,
+        name: true,
+        deletedAt: true,
+        Floor: { select: { name: true, Building: { select: { name: true } } } },
+      },
+    }),
+  ]);
+
+  const item = (
+    type: TrashType,
+    id: string,
+    name: string,
+    context: string | null,
+    deletedAt: Date | null
+  ): TrashItem => ({
+    type,
+    id,
+    name,
+    context,
+    deletedAt: deletedAt!,
+    purgeableAt: purgeableAt(deletedAt!),
+  });
+
+  return [
+    ...places.map((p) => item("place", p.id, p.name, p.category, p.deletedAt)),
+    ...deals.map((d) => item("deal", d.id, d.title, d.Place.name, d.deletedAt)),
+    ...events.map((e) => item("event", e.id, e.title, e.Place?.name ?? null, e.deletedAt)),
+    ...indoorPois.map((poi) =>
+      item(
+        "indoorPoi",
+        poi.id,
+        poi.name,
+        `${poi.Floor.Building.name} · ${poi.Floor.name}`,
+        poi.deletedAt
+      )
+    ),
+  ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+/**
+ * Find a soft-deleted item, or null if it does not exist or is not in the trash
+ */
+export async function findTrashed(type: TrashType, id: string) {
+  const where = { id, deletedAt: { not: null } };
+
+  switch (type) {
+    case "place":
+      return prisma.place.findFirst({ where });
+    case "deal":
+      return prisma.deal.findFirst({ where });
+    case "event":
+      return prisma.event.findFirst({ where });
+    case "indoorPoi":
+      return prisma.indoorPOI.findFirst({ where });
+  }
+}
+
+/**
+ * Bring an item back out of the trash
+ */
+export async function restoreItem(type: TrashType, id: string) {
+  const data = { deletedAt: null };
+
+  switch (type) {
+    case "place":
+      return prisma.place.update({ where: { id }, data });
+    case "deal":
+      return prisma.deal.update({ where: { id }, data });
+    case "event":
+      return prisma.event.update({ where: { id }, data });
+    case "indoorPoi":
+      return prisma.indoorPOI.update({ where: { id }, data });
+  }
+}
+
+export type PurgedRecord = {
+  type: TrashType;
+  id: string;
+  record: unknown;
+};
+
+/**
+ * Permanently delete an item.
+ * Purging a place also removes its deals and detaches its events; its
+ * building, floors and feedback go with it through the database cascades.
+ * Returns every record removed, the item first, so each can be audited.
+ */
+export async function purgeItem(type: TrashType, id: string): Promise<PurgedRecord[]> {
+  switch (type) {
+    case "place": {
+      const [deals, , , place] = await prisma.$transaction([
+        prisma.deal.findMany({ where: { placeId: id } }),
+        prisma.deal.deleteMany({ where: { placeId: id } }),
+        prisma.event.updateMany({ where: { placeId: id }, data: { placeId: null } }),
+        prisma.place.delete({ where: { id } }),
+      ]);
+      return [
+        { type, id, record: place },
+        ...deals.map((deal) => ({ type: "deal" as const, id: deal.id, record: deal })),
+      ];
+    }
+    case "deal":
+      return [{ type, id, record: await prisma.deal.delete({ where: { id } }) }];
+    case "event":
+      return [{ type, id, record: await prisma.event.delete({ where: { id } }) }];
+    case "indoorPoi":
+      return [{ type, id, record: await prisma.indoorPOI.delete({ where: { id } }) }];
+  }
+}
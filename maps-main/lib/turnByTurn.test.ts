@@ -0,0 +1,71 @@
+// @ts-nocheck - Test file without test framework types configured
+import { getAllDirections } from './turnByTurn';
+
+// Nodes on a small grid around a junction J; x east and y north, in units of 0.0001°
+const node = (id, x, y) => ({ id, x: 0, y: 0, lat: -33.87 + y * 1e-4, lng: 151.2 + x * 1e-4 });
+
+// Walking north up George Street into J, then on to `exit`; other ways leave J too
+function directionsVia(exit, others = []) {
+  const nodes = [node('a', 0, -1), node('j', 0, 0), exit.node, ...others.map((o) => o.node)];
+  const graph = { nodesById: Object.fromEntries(nodes.map((n) => [n.id, n])), adjacency: {} };
+  const link = (from, to, street) => {
+    (graph.adjacency[from] ??= []).push({ to, distance: 1, street });
+    (graph.adjacency[to] ??= []).push({ to: from, distance: 1, street });
+  };
+  link('a', 'j', 'George Street');
+  link('j', exit.node.id, exit.street);
+  others.forEach((o) => link('j', o.node.id, o.street));
+  const steps = getAllDirections([nodes[0], nodes[1], exit.node], graph);
+  return steps.slice(1, -1); // Between setting off and arriving
+}
+
+// A node one unit from J, `deg` degrees left (negative) or right (positive) of straight on
+const towards = (id, deg) => node(id, Math.sin((deg * Math.PI) / 180), Math.cos((deg * Math.PI) / 180));
+
+test('classifies turns by how sharply the route bends', () => {
+  const turnAt = (deg) => directionsVia({ node: towards('x', deg), street: 'King Street' })[0];
+  expect(turnAt(-40).turnType).toBe('slight-left');
+  expect(turnAt(-40).instruction).toBe('Slight left onto King Street');
+  expect(turnAt(90).turnType).toBe('right');
+  expect(turnAt(-140).turnType).toBe('sharp-left');
+  expect(turnAt(140).instruction).toBe('Sharp right onto King Street');
+  expect(turnAt(170).turnType).toBe('uturn');
+  expect(turnAt(170).instruction).toBe('Make a U-turn onto King Street');
+});
+
+test('keeps left or right at a fork', () => {
+  const [step] = directionsVia({ node: towards('l', -20), street: 'Pitt Street' }, [
+    { node: towards('r', 20), street: 'George Street' },
+  ]);
+  expect(step.turnType).toBe('keep-left');
+  expect(step.instruction).toBe('Keep left onto Pitt Street');
+});
+
+test('mentions a named street crossed without turning', () => {
+  const steps = directionsVia({ node: towards('b', 0), street: 'George Street' }, [
+    { node: towards('w', -90), street: 'King Street' },
+    { node: towards('e', 90), street: 'King Street' },
+  ]);
+  expect(steps.map((s) => s.turnType)).toEqual(['cross']);
+  expect(steps[0].instruction).toBe('Cross King Street');
+});
+
+test('a street joining from one side only is not crossed', () => {
+  const steps = directionsVia({ node: towards('b', 0), street: 'George Street' }, [
+    { node: towards('e', 90), street: 'King Street' },
+  ]);
+  expect(steps).toEqual([]);
+});
+
+test('announces each of several stops at the same node', () => {
+  const route = [node('a', 0, -1), node('j', 0, 0), node('b', 0, 1)];
+  const stops = [{ routeIndex: 1, label: 'Cafe' }, { routeIndex: 1, label: 'Bakery' }];
+  const steps = getAllDirections(route, undefined, stops);
+  expect(steps.map((s) => s.instruction)).toEqual([
+    'Head north',
+    'Arrive at stop 1: Cafe',
+    'Arrive at stop 2: Bakery',
+    'Continue to destination, heading north',
+    'Arrive at destination',
+  ]);
+});
@@ -1,5 +1,7 @@
-import type { PathNode } from '@/types';
-import { svgToGps, calculateDistance } from '@/lib/coordinateMapper';
+import type { PathGraph, PathNode, RouteStop } from '@/types';
+import type { HybridRoute } from '@/lib/hybridPathfinding';
+import { svgToGps, gpsToSvg, calculateDistance } from './coordinateMapper';
+import { DEFAULT_DIRECTIONS_LOCALE, describeManeuver, formatLocalizedDistance, type DirectionsLocale } from './directionsLocale';
 
 export interface GpsPoint { lat: number; lng: number }
 
@@ -24,39 +26,156 @@ function bearingDegrees(a: GpsPoint, b: GpsPoint): number {
   return brng;
 }
 
-function cardinalFromBearing(deg: number): string {
-  const dirs = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+export type CardinalDirection =
+  | 'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest';
+
+function cardinalFromBearing(deg: number): CardinalDirection {
+  const dirs: CardinalDirection[] = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
   const idx = Math.round(deg / 45) % 8;
   return dirs[idx];
 }
 
-function turnDirection(a: GpsPoint, b: GpsPoint, c: GpsPoint): 'left' | 'right' | 'straight' {
+// Signed angle in degrees between heading a→b and heading b→c: negative turns left, positive right
+function turnAngle(a: GpsPoint, b: GpsPoint, c: GpsPoint): number {
   // Use planar cross product for orientation
   const v1x = b.lng - a.lng; const v1y = b.lat - a.lat;
   const v2x = c.lng - b.lng; const v2y = c.lat - b.lat;
+  if (Math.hypot(v1x, v1y) === 0 || Math.hypot(v2x, v2y) === 0) return 0;
   const cross = v1x * v2y - v1y * v2x;
-  // Angle between segments
   const dot = v1x * v2x + v1y * v2y;
-  const mag1 = Math.hypot(v1x, v1y); const mag2 = Math.hypot(v2x, v2y);
-  if (mag1 === 0 || mag2 === 0) return 'straight';
-  const cos = Math.min(1, Math.max(-1, dot / (mag1 * mag2)));
-  const angle = Math.acos(cos) * 180 / Math.PI; // 0..180
-  if (angle < 25) return 'straight';
-  return cross > 0 ? 'left' : 'right';
+  return -Math.atan2(cross, dot) * 180 / Math.PI;
+}
+
+export type TurnClass =
+  | 'straight'
+  | 'slight-left' | 'left' | 'sharp-left'
+  | 'slight-right' | 'right' | 'sharp-right'
+  | 'uturn';
+
+// Turn classes by how far the route bends, in degrees
+const STRAIGHT_MAX_DEG = 25;
+const SLIGHT_MAX_DEG = 60;
+const NORMAL_MAX_DEG = 120;
+const SHARP_MAX_DEG = 160; // Anything tighter doubles back
+const FORK_MIN_SPLIT_DEG = 20; // Ways closer than this to the route's are the same way drawn twice
+
+function classifyTurn(angle: number): TurnClass {
+  const bend = Math.abs(angle);
+  if (bend < STRAIGHT_MAX_DEG) return 'straight';
+  if (bend >= SHARP_MAX_DEG) return 'uturn';
+  const side = angle < 0 ? 'left' : 'right';
+  if (bend < SLIGHT_MAX_DEG) return `slight-${side}`;
+  if (bend < NORMAL_MAX_DEG) return side;
+  return `sharp-${side}`;
+}
+
+const TURN_MANEUVERS: Record<Exclude<TurnClass, 'straight'>, Pick<Maneuver, 'type' | 'direction'>> = {
+  'slight-left': { type: 'slight-turn', direction: 'left' },
+  left: { type: 'turn', direction: 'left' },
+  'sharp-left': { type: 'sharp-turn', direction: 'left' },
+  'slight-right': { type: 'slight-turn', direction: 'right' },
+  right: { type: 'turn', direction: 'right' },
+  'sharp-right': { type: 'sharp-turn', direction: 'right' },
+  uturn: { type: 'uturn' },
+};
+
+function gpsOf(node: PathNode): GpsPoint {
+  return nodesToGps([node])[0];
 }
 
 /**
- * Format distance in meters to human-readable string
- * Examples: "50m", "850m", "1.2km", "5.0km"
+ * Which way to keep at a fork
+ * A fork is a junction where the route bears off no more than slightly and
+ * another way does too; the route keeps to whichever side of it it takes.
  */
-export function formatDistance(meters: number): string {
-  if (meters < 1000) {
-    return `${Math.round(meters)}m`;
+function forkSide(graph: PathGraph, route: PathNode[], i: number, angle: number): 'left' | 'right' | null {
+  if (Math.abs(angle) >= SLIGHT_MAX_DEG) return null;
+  const [prev, here, next] = [route[i - 1], route[i], route[i + 1]];
+
+  const others = (graph.adjacency[here.id] ?? [])
+    .filter((edge) => ![prev.id, here.id, next.id].includes(edge.to) && graph.nodesById[edge.to])
+    .map((edge) => turnAngle(gpsOf(prev), gpsOf(here), gpsOf(graph.nodesById[edge.to])))
+    .filter((other) => Math.abs(other) < SLIGHT_MAX_DEG && Math.abs(other - angle) >= FORK_MIN_SPLIT_DEG);
+  if (others.length === 0) return null;
+
+  if (others.every((other) => other > angle)) return 'left';
+  if (others.every((other) => other < angle)) return 'right';
+  return null; // Between other ways: no single side to keep to
+}
+
+/**
+ * Named street the route crosses straight over at a junction
+ * That is a street other than the ones being walked, with edges leaving the
+ * junction on both sides of the route.
+ */
+function crossedStreet(graph: PathGraph, route: PathNode[], i: number, walked: Array<string | undefined>): string | undefined {
+  const [prev, here, next] = [route[i - 1], route[i], route[i + 1]];
+  const sides = new Map<string, Set<'left' | 'right'>>();
+
+  for (const edge of graph.adjacency[here.id] ?? []) {
+    const node = graph.nodesById[edge.to];
+    if (!node || !edge.street || walked.includes(edge.street) || [prev.id, here.id, next.id].includes(edge.to)) continue;
+    const angle = turnAngle(gpsOf(prev), gpsOf(here), gpsOf(node));
+    if (Math.abs(angle) < STRAIGHT_MAX_DEG || Math.abs(angle) >= SHARP_MAX_DEG) continue; // Ahead or behind, not across
+    const street = sides.get(edge.street) ?? new Set();
+    street.add(angle < 0 ? 'left' : 'right');
+    sides.set(edge.street, street);
   }
 
-  // For kilometers, show 1 decimal place
-  const km = meters / 1000;
-  return `${km.toFixed(1)}km`;
+  for (const [street, streetSides] of sides) {
+    if (streetSides.size === 2) return street;
+  }
+  return undefined;
+}
+
+/**
+ * The manoeuvre at route node i (not the first or last), if there is one to mention
+ */
+function junctionManeuver(
+  route: PathNode[],
+  i: number,
+  graph: PathGraph | undefined,
+  prevStreet: string | undefined,
+  nextStreet: string | undefined
+): { maneuver: Maneuver; turnType: DirectionStep['turnType'] } | null {
+  const angle = turnAngle(gpsOf(route[i - 1]), gpsOf(route[i]), gpsOf(route[i + 1]));
+  const turn = classifyTurn(angle);
+
+  const fork = graph ? forkSide(graph, route, i, angle) : null;
+  if (fork) {
+    return { maneuver: { type: 'keep', direction: fork, street: nextStreet }, turnType: `keep-${fork}` };
+  }
+
+  if (turn !== 'straight') {
+    return { maneuver: { ...TURN_MANEUVERS[turn], street: nextStreet }, turnType: turn };
+  }
+
+  // Straight on: worth a mention if the street changes name or a street is crossed
+  if (nextStreet && prevStreet !== nextStreet) {
+    return { maneuver: { type: 'continue', street: nextStreet }, turnType: 'straight' };
+  }
+  const crossed = graph ? crossedStreet(graph, route, i, [prevStreet, nextStreet]) : undefined;
+  if (crossed) {
+    return { maneuver: { type: 'cross', street: crossed }, turnType: 'cross' };
+  }
+  return null;
+}
+
+/**
+ * Format distance in meters to human-readable string
+ * Examples: "50m", "850m", "1.2km", "5.0km" (in English)
+ */
+export function formatDistance(meters: number, locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE): string {
+  return formatLocalizedDistance(meters, locale);
+}
+
+export const WALKING_SPEED = 1.4; // meters per second (5 km/h)
+
+/**
+ * Walking time in whole minutes for a distance in meters
+ */
+export function walkingMinutes(distanceMeters: number): number {
+  return Math.round(distanceMeters / WALKING_SPEED / 60);
 }
 
 /**
@@ -65,9 +184,7 @@ export function formatDistance(meters: number): string {
  * Returns formatted string: "Just now", "5 min", "12 min", "1h 5m", "2h 30m"
  */
 export function calculateETA(distanceMeters: number): string {
-  const WALKING_SPEED = 1.4; // meters per second (5 km/h)
-  const timeSeconds = distanceMeters / WALKING_SPEED;
-  const timeMinutes = Math.round(timeSeconds / 60);
+  const timeMinutes = walkingMinutes(distanceMeters);
 
   // Less than 1 minute
   if (timeMinutes < 1) {
@@ -90,6 +207,18 @@ export function calculateETA(distanceMeters: number): string {
   return `${hours}h ${minutes}m`;
 }
 
+/**
+ * Walking distance along a route in meters
+ */
+export function routeDistanceMeters(route: PathNode[]): number {
+  const gps = nodesToGps(route);
+  let total = 0;
+  for (let i = 1; i < gps.length; i++) {
+    total += calculateDistance(gps[i - 1], gps[i]);
+  }
+  return total;
+}
+
 /**
  * Check if a node is a door node (entrance to a building)
  */
@@ -119,22 +248,68 @@ function getLandmarkName(node: PathNode): string | undefined {
   return name;
 }
 
+export type ManeuverType =
+  | 'depart' // Head off, possibly out of a landmark
+  | 'turn'
+  | 'slight-turn'
+  | 'sharp-turn'
+  | 'uturn'
+  | 'keep' // Keep left or right at a fork
+  | 'cross' // Straight over a street
+  | 'continue' // Straight on into a differently named street
+  | 'straight' // Straight on along the same street
+  | 'waypoint' // Arrive at an intermediate stop
+  | 'resume' // Set off again from an intermediate stop
+  | 'approach'
+  | 'arrive'
+  | 'arrived'
+  | 'enter'
+  | 'exit'
+  | 'change-floor'
+  | 'follow-floor';
+
+/**
+ * A direction before it is put into words (lib/directionsLocale.ts)
+ */
+export interface Maneuver {
+  type: ManeuverType;
+  direction?: CardinalDirection | 'left' | 'right';
+  street?: string;
+  landmark?: string; // Building, stop, floor or destination name
+  distance?: number; // meters
+  stop?: number; // Stop number on multi-stop routes
+}
+
 export interface DirectionStep {
-  instruction: string;
+  instruction: string; // `maneuver` in the requested language
+  maneuver: Maneuver;
   distance: number; // meters
-  turnType: 'start' | 'left' | 'right' | 'straight' | 'arrive';
+  turnType: 'start' | Exclude<TurnClass, 'straight'> | 'straight' | 'keep-left' | 'keep-right' | 'cross' | 'waypoint' | 'arrive';
   streetName?: string;
+  location?: GpsPoint; // Where the step begins, if known
+  routeIndex?: number; // Index of the route node where the step begins, if on the route
 }
 
 /**
  * Generate all turn-by-turn directions for the entire route
+ * For multi-stop routes, pass the intermediate stops to get
+ * "Arrive at stop N" / "Continue to stop N+1" steps at each one.
  */
-export function getAllDirections(route: PathNode[], graph?: import('@/types').PathGraph): DirectionStep[] {
+export function getAllDirections(
+  route: PathNode[],
+  graph?: import('@/types').PathGraph,
+  stops: RouteStop[] = [],
+  locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE
+): DirectionStep[] {
   if (!route || route.length < 2) return [];
 
   const gps = nodesToGps(route);
   const steps: DirectionStep[] = [];
 
+  const addStep = (maneuver: Maneuver, step: Omit<DirectionStep, 'instruction' | 'maneuver'>) => {
+    steps.push({ instruction: describeManeuver(maneuver, locale), maneuver, ...step });
+  };
+
   // Helper to get street name from edge
   const getStreetName = (fromNode: PathNode, toNode: PathNode): string | undefined => {
     if (!graph) return undefined;
@@ -143,90 +318,101 @@ export function getAllDirections(route: PathNode[], graph?: import('@/types').Pa
     return edge?.street;
   };
 
-  // First step - starting direction
+  // First step - starting direction, out of the starting landmark if there is one
   const startDir = cardinalFromBearing(bearingDegrees(gps[0], gps[1]));
   const startLandmark = getLandmarkName(route[0]);
   const firstStreet = getStreetName(route[0], route[1]);
   const firstDist = calculateDistance(gps[0], gps[1]);
 
-  if (startLandmark) {
-    steps.push({
-      instruction: firstStreet
-        ? `Exit ${startLandmark} and head ${startDir} on ${firstStreet}`
-        : `Exit ${startLandmark} and head ${startDir}`,
-      distance: firstDist,
-      turnType: 'start',
-      streetName: firstStreet,
-    });
-  } else {
-    steps.push({
-      instruction: firstStreet
-        ? `Head ${startDir} on ${firstStreet}`
-        : `Head ${startDir}`,
-      distance: firstDist,
-      turnType: 'start',
-      streetName: firstStreet,
-    });
-  }
+  addStep(
+    { type: 'depart', direction: startDir, street: firstStreet, landmark: startLandmark },
+    { distance: firstDist, turnType: 'start', streetName: firstStreet, location: gps[0], routeIndex: 0 }
+  );
 
   // Process each turn point
-  let accumulatedDistance = firstDist;
   let currentStreet = firstStreet;
 
+  // Intermediate stops by route index; consecutive stops can share a node
+  const stopsByIndex = new Map<number, Array<{ stop: RouteStop; number: number }>>();
+  stops.forEach((stop, idx) => {
+    const here = stopsByIndex.get(stop.routeIndex) ?? [];
+    here.push({ stop, number: idx + 1 });
+    stopsByIndex.set(stop.routeIndex, here);
+  });
+
   for (let i = 1; i < gps.length - 1; i++) {
     const prevStreet = currentStreet;
     const nextStreet = getStreetName(route[i], route[i + 1]);
     const segmentDist = calculateDistance(gps[i], gps[i + 1]);
 
-    const turn = turnDirection(gps[i - 1], gps[i], gps[i + 1]);
-
-    // Check if there's a meaningful turn or street change
-    const streetChanged = nextStreet && prevStreet !== nextStreet;
-
-    if (turn !== 'straight' || streetChanged) {
-      if (turn === 'straight' && streetChanged) {
-        steps.push({
-          instruction: `Continue onto ${nextStreet}`,
-          distance: segmentDist,
-          turnType: 'straight',
-          streetName: nextStreet,
-        });
-      } else if (turn !== 'straight') {
-        steps.push({
-          instruction: nextStreet
-            ? `Turn ${turn} onto ${nextStreet}`
-            : `Turn ${turn}`,
-          distance: segmentDist,
-          turnType: turn,
-          streetName: nextStreet,
-        });
+    const stopsHere = stopsByIndex.get(i);
+    if (stopsHere) {
+      for (const { stop, number } of stopsHere) {
+        addStep(
+          { type: 'waypoint', stop: number, landmark: stop.label ?? getLandmarkName(route[i]) },
+          { distance: 0, turnType: 'waypoint', location: gps[i], routeIndex: i }
+        );
       }
-      accumulatedDistance = segmentDist;
-    } else {
-      accumulatedDistance += segmentDist;
+
+      // On to the next stop, or the destination after the last one
+      const lastHere = stopsHere[stopsHere.length - 1].number;
+      addStep(
+        {
+          type: 'resume',
+          direction: cardinalFromBearing(bearingDegrees(gps[i], gps[i + 1])),
+          street: nextStreet,
+          stop: lastHere < stops.length ? lastHere + 1 : undefined,
+        },
+        { distance: segmentDist, turnType: 'start', streetName: nextStreet, location: gps[i], routeIndex: i }
+      );
+
+      currentStreet = nextStreet;
+      continue;
+    }
+
+    // Check if there's a meaningful turn, fork, street change or crossing
+    const junction = junctionManeuver(route, i, graph, prevStreet, nextStreet);
+    if (junction) {
+      addStep(junction.maneuver, {
+        distance: segmentDist,
+        turnType: junction.turnType,
+        streetName: nextStreet,
+        location: gps[i],
+        routeIndex: i,
+      });
     }
 
     currentStreet = nextStreet;
   }
 
   // Final step - arrival
-  const destNode = route[route.length - 1];
-  const destLandmark = getLandmarkName(destNode);
-
-  steps.push({
-    instruction: destLandmark
-      ? `Arrive at ${destLandmark}`
-      : 'Arrive at destination',
-    distance: 0,
-    turnType: 'arrive',
-  });
+  addStep(
+    { type: 'arrive', landmark: getLandmarkName(route[route.length - 1]) },
+    { distance: 0, turnType: 'arrive', location: gps[gps.length - 1], routeIndex: gps.length - 1 }
+  );
 
   return steps;
 }
 
-export function getNextInstruction(route: PathNode[], user?: GpsPoint, graph?: import('@/types').PathGraph): { text: string; reachedDestination: boolean } {
+/**
+ * Instruction for the user's position along a route
+ * `routeIndex` is the route segment the user is known to be on (e.g. from
+ * map matching, lib/mapMatching.ts); without it the user is placed at the
+ * nearest route vertex.
+ */
+export function getNextInstruction(
+  route: PathNode[],
+  user?: GpsPoint,
+  graph?: import('@/types').PathGraph,
+  { routeIndex, locale = DEFAULT_DIRECTIONS_LOCALE }: { routeIndex?: number; locale?: DirectionsLocale } = {}
+): { text: string; reachedDestination: boolean } {
   if (!route || route.length < 2) return { text: '', reachedDestination: false };
 
+  const instruction = (maneuver: Maneuver, reachedDestination = false) => ({
+    text: describeManeuver(maneuver, locale),
+    reachedDestination,
+  });
+
   // Helper function to get street name from edge between two nodes
   const getStreetName = (fromNode: PathNode, toNode: PathNode): string | undefined => {
     if (!graph) {
@@ -243,51 +429,35 @@ export function getNextInstruction(route: PathNode[], user?: GpsPoint, graph?: i
     return edge?.street;
   };
 
-  if (!user) {
-    const gps = nodesToGps(route);
-    const dir = cardinalFromBearing(bearingDegrees(gps[0], gps[1]));
-
-    // Check if starting from a landmark
-    const startLandmark = getLandmarkName(route[0]);
-    if (startLandmark) {
-      const street = getStreetName(route[0], route[1]);
-      if (street) {
-        return { text: `Exit ${startLandmark} and head ${dir} on ${street}`, reachedDestination: false };
-      }
-      return { text: `Exit ${startLandmark} and head ${dir}`, reachedDestination: false };
-    }
+  const gps = nodesToGps(route);
 
-    const street = getStreetName(route[0], route[1]);
-    if (street) {
-      return { text: `Head ${dir} on ${street}`, reachedDestination: false };
-    }
-    return { text: `Head ${dir}`, reachedDestination: false };
+  if (!user) {
+    return instruction({
+      type: 'depart',
+      direction: cardinalFromBearing(bearingDegrees(gps[0], gps[1])),
+      street: getStreetName(route[0], route[1]),
+      landmark: getLandmarkName(route[0]), // Starting from a landmark
+    });
   }
 
-  const gps = nodesToGps(route);
-
-  // Find closest point index along route
-  let bestIdx = 0; let bestD = Infinity;
-  for (let i = 0; i < gps.length; i++) {
+  // Find closest point index along route, unless we already know where the user is on it
+  let bestIdx = routeIndex ?? 0; let bestD = Infinity;
+  for (let i = 0; routeIndex === undefined && i < gps.length; i++) {
     const d = calculateDistance(user, gps[i]);
     if (d < bestD) { bestD = d; bestIdx = i; }
   }
 
   // Destination check
   const distToEnd = calculateDistance(user, gps[gps.length - 1]);
-  const destNode = route[route.length - 1];
-  const destLandmark = getLandmarkName(destNode);
+  const destLandmark = getLandmarkName(route[route.length - 1]);
 
   if (distToEnd < 20) {
-    if (destLandmark) {
-      return { text: `You have arrived at ${destLandmark}`, reachedDestination: true };
-    }
-    return { text: 'You have arrived', reachedDestination: true };
+    return instruction({ type: 'arrived', landmark: destLandmark }, true);
   }
 
   // Check if approaching destination landmark
   if (distToEnd < 50 && destLandmark) {
-    return { text: `Approaching ${destLandmark}`, reachedDestination: false };
+    return instruction({ type: 'approach', landmark: destLandmark });
   }
 
   const idx = Math.min(bestIdx, gps.length - 2);
@@ -296,35 +466,93 @@ export function getNextInstruction(route: PathNode[], user?: GpsPoint, graph?: i
 
   const currentStreet = getStreetName(route[idx], route[idx + 1]);
 
-  if (idx + 2 < gps.length) {
+  if (idx + 2 < gps.length && distToNext < 18) {
+    // Close to turn
     const nextStreet = getStreetName(route[idx + 1], route[idx + 2]);
-    const turn = turnDirection(gps[idx], gps[idx + 1], gps[idx + 2]);
-
-    if (distToNext < 18) {
-      // Close to turn
-      if (turn === 'straight') {
-        if (currentStreet && nextStreet && currentStreet !== nextStreet) {
-          return { text: `Continue onto ${nextStreet}`, reachedDestination: false };
-        }
-        return { text: currentStreet ? `Continue on ${currentStreet}` : 'Continue straight', reachedDestination: false };
-      }
-      // Turn instruction
-      if (nextStreet) {
-        return { text: `Turn ${turn} onto ${nextStreet}`, reachedDestination: false };
-      }
-      return { text: `Turn ${turn} ahead`, reachedDestination: false };
-    }
+    const junction = junctionManeuver(route, idx + 1, graph, currentStreet, nextStreet);
+    return instruction(junction?.maneuver ?? { type: 'straight', street: currentStreet });
   }
 
   // General navigation instruction
-  const dir = cardinalFromBearing(bearingDegrees(gps[idx], next));
-  const meters = Math.max(5, Math.round(distToNext));
+  return instruction({
+    type: 'depart',
+    direction: cardinalFromBearing(bearingDegrees(gps[idx], next)),
+    street: currentStreet,
+    distance: Math.max(5, Math.round(distToNext)),
+  });
+}
 
-  if (currentStreet) {
-    return { text: `Head ${dir} on ${currentStreet} for ${meters}m`, reachedDestination: false };
-  }
-  return { text: `Head ${dir} for ${meters}m`, reachedDestination: false };
+
+
+
+/**
+ * Street-graph nodes for an outdoor segment of a hybrid route
+ * Nodes are matched back to the graph by GPS so directions can name streets.
+ */
+export function outdoorSegmentNodes(segment: HybridRoute['segments'][number], graph?: PathGraph): PathNode[] {
+  const nodesByGps = new Map<string, PathNode>();
+  Object.values(graph?.nodesById ?? {}).forEach((node) => {
+    if (node.lat !== undefined && node.lng !== undefined) nodesByGps.set(`${node.lat},${node.lng}`, node);
+  });
+
+  return segment.nodes.flatMap((n, i) => {
+    if (!n.gps) return [];
+    const gps = n.gps;
+    return [nodesByGps.get(`${gps.lat},${gps.lng}`) ?? { id: `hybrid_${i}`, ...gpsToSvg(gps.lat, gps.lng), ...gps }];
+  });
 }
 
+/**
+ * Directions for a hybrid (outdoor ↔ indoor) route
+ * Outdoor segments get full turn-by-turn steps; indoor segments are summarised
+ * per floor, located at the last outdoor position since floor plans have no GPS.
+ */
+export function getHybridDirections(
+  route: HybridRoute,
+  graph?: PathGraph,
+  labels: { floors?: Record<string, string>; buildings?: Record<string, string>; destination?: string } = {},
+  locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE
+): DirectionStep[] {
+  const steps: DirectionStep[] = [];
+  let lastLocation: GpsPoint | undefined;
+
+  const addStep = (maneuver: Maneuver, step: Omit<DirectionStep, 'instruction' | 'maneuver'>) => {
+    steps.push({ instruction: describeManeuver(maneuver, locale), maneuver, ...step });
+  };
+
+  route.segments.forEach((segment, i) => {
+    const isLast = i === route.segments.length - 1;
+
+    if (segment.type === 'outdoor') {
+      const nodes = outdoorSegmentNodes(segment, graph);
+      // Route indexes count within this segment, not along the whole route
+      const outdoorSteps = getAllDirections(nodes, graph, [], locale).map((step) => ({ ...step, routeIndex: undefined }));
+      steps.push(...(isLast ? outdoorSteps : outdoorSteps.filter((s) => s.turnType !== 'arrive')));
+      lastLocation = nodesToGps(nodes).pop() ?? lastLocation;
+      return;
+    }
+
+    if (segment.type === 'building-entrance') {
+      const entering = i === 0 || route.segments[i - 1].type === 'outdoor';
+      lastLocation = segment.nodes.find((n) => n.gps)?.gps ?? lastLocation;
+      addStep(
+        { type: entering ? 'enter' : 'exit', landmark: segment.buildingId ? labels.buildings?.[segment.buildingId] : undefined },
+        { distance: 0, turnType: 'waypoint', location: lastLocation }
+      );
+      return;
+    }
 
+    const floor = segment.floorId ? labels.floors?.[segment.floorId] : undefined;
+    const previous = route.segments[i - 1];
+    if (previous?.type === 'indoor' && previous.floorId !== segment.floorId) {
+      addStep({ type: 'change-floor', landmark: floor }, { distance: 0, turnType: 'waypoint', location: lastLocation });
+    }
+    addStep({ type: 'follow-floor', landmark: floor }, { distance: segment.distance, turnType: 'straight', location: lastLocation });
+  });
+
+  if (route.segments.length > 0 && route.segments[route.segments.length - 1].type !== 'outdoor') {
+    addStep({ type: 'arrive', landmark: labels.destination }, { distance: 0, turnType: 'arrive', location: lastLocation });
+  }
 
+  return steps;
+}
@@ -0,0 +1,273 @@
+import { createHash, randomBytes } from "crypto";
+import QRCode from "qrcode";
+import { prisma } from "@/lib/prisma";
+import { generateToken } from "@/lib/auth";
+import {
+  buildOtpauthUrl,
+  generateTotpSecret,
+  verifyTotp,
+} from "@/lib/totp";
+
+/**
+ * Two-factor authentication for admin users
+ * TOTP secrets and recovery codes live on AdminUser; a LoginChallenge bridges
+ * the password step and the code step of sign-in. Everything runs locally -
+ * no SMS or email provider is involved.
+ */
+
+const TOTP_ISSUER = "Engage Admin";
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_MS = 5 * 60 * 1000; // 5 minutes to enter a code
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export type TwoFactorProvisioning = {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+};
+
+/**
+ * Hash a recovery code for storage. Codes are random, so a fast hash is enough.
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+/**
+ * Generate a fresh set of recovery codes (xxxxx-xxxxx)
+ */
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+/**
+ * Whether owners have made 2FA mandatory for every admin
+ */
+export async function isTwoFactorRequired(): Promise<boolean> {
+  const settings = await prisma.adminSecuritySettings.findFirst({
+    where: { id: 1 },
+  });
+  return settings?.requireTwoFactor ?? false;
+}
+
+/**
+ * Turn the "require 2FA for all admins" policy on or off
+ */
+export async function setTwoFactorRequired(requireTwoFactor: boolean) {
+  await prisma.adminSecuritySettings.upsert({
+    where: { id: 1 },
+    update: { requireTwoFactor },
+    create: { id: 1, requireTwoFactor },
+  });
+}
+
+/**
+ * Start (or restart) enrolment by storing a new pending secret.
+ * Returns null if 2FA is already enabled for the user.
+ */
+export async function startTwoFactorEnrolment(
+  userId: string
+): Promise<TwoFactorProvisioning | null> {
+  const user = await prisma.adminUser.findUnique({
+    where: { id: userId },
+    select: { email: true, totpEnabledAt: true },
+  });
+
+  if (!user || user.totpEnabledAt) {
+    return null;
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.adminUser.update({
+    where: { id: userId },
+    data: { totpSecret: secret },
+  });
+
+  const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+  const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 200 });
+
+  return { secret, otpauthUrl, qrCodeDataUrl };
+}
+
+/**
+ * Confirm enrolment with a code from the authenticator app.
+ * Returns the plaintext recovery codes (shown once), or null if the code is wrong.
+ */
+export async function confirmTwoFactorEnrolment(
+  userId: string,
+  code: string
+): Promise<string[] | null> {
+  const user = await prisma.adminUser.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+
+  if (!user?.totpSecret || user.totpEnabledAt) {
+    return null;
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.adminUser.update({
+    where: { id: userId },
+    data: {
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      recoveryCodes: recoveryCodes.map(hashRecoveryCode),
+    },
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled.
+ * Accepted TOTP steps and recovery codes cannot be used again.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const user = await prisma.adminUser.findUnique({
+    where: { id: userId },
+    select: {
+      totpSecret: true,
+      totpEnabledAt: true,
+      totpLastStep: true,
+      recoveryCodes: true,
+    },
+  });
+
+  if (!user?.totpSecret || !user.totpEnabledAt) {
+    return false;
+  }
+
+  const step = verifyTotp(user.totpSecret, code);
+  if (step !== null) {
+    // Only one request can move the last step forward; a concurrent replay updates nothing
+    const { count } = await prisma.adminUser.updateMany({
+      where: {
+        id: userId,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    });
+    return count === 1;
+  }
+
+  const hash = hashRecoveryCode(code);
+  if (user.recoveryCodes.includes(hash)) {
+    // Only write over the codes that were read, so a code can't be spent twice concurrently
+    const { count } = await prisma.adminUser.updateMany({
+      where: { id: userId, recoveryCodes: { equals: user.recoveryCodes } },
+      data: { recoveryCodes: user.recoveryCodes.filter((c) => c !== hash) },
+    });
+    return count === 1;
+  }
+
+  return false;
+}
+
+/**
+ * Replace a user's recovery codes, invalidating the old ones
+ */
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes();
+  await prisma.adminUser.update({
+    where: { id: userId },
+    data: { recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+  });
+  return recoveryCodes;
+}
+
+/**
+ * Remove 2FA from a user (self-service disable or owner reset)
+ */
+export async function disableTwoFactor(userId: string) {
+  await prisma.adminUser.update({
+    where: { id: userId },
+    data: {
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      recoveryCodes: [],
+    },
+  });
+}
+
+/**
+ * Create a short-lived challenge after a correct password
+ */
+export async function createLoginChallenge(userId: string): Promise<string> {
+  const token = generateToken();
+
+  // Only one pending sign-in per user
+  await prisma.loginChallenge.deleteMany({
+    where: {
+      OR: [{ userId }, { expiresAt: { lt: new Date() } }],
+    },
+  });
+
+  await prisma.loginChallenge.create({
+    data: {
+      userId,
+      token,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MS),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Look up a pending challenge, dropping it if it has expired
+ */
+export async function getLoginChallenge(token: string) {
+  const challenge = await prisma.loginChallenge.findUnique({
+    where: { token },
+    include: {
+      user: {
+        select: { id: true, email: true, isActive: true, totpEnabledAt: true },
+      },
+    },
+  });
+
+  if (!challenge) {
+    return null;
+  }
+
+  if (challenge.expiresAt < new Date() || !challenge.user.isActive) {
+    await prisma.loginChallenge.delete({ where: { id: challenge.id } });
+    return null;
+  }
+
+  return challenge;
+}
+
+/**
+ * Count a wrong code against a challenge; too many and it is discarded
+ */
+export async function recordFailedChallenge(challengeId: string) {
+  const challenge = await prisma.loginChallenge.update({
+    where: { id: challengeId },
+    data: { attempts: { increment: 1 } },
+  });
+
+  if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    await prisma.loginChallenge.delete({ where: { id: challengeId } });
+  }
+}
+
+/**
+ * Finish a challenge once the second factor has been accepted
+ */
+export async function deleteLoginChallenge(challengeId: string) {
+  await prisma.loginChallenge.deleteMany({
+    where: { id: challengeId },
+  });
+}
@@ -0,0 +1,67 @@
+// @ts-nocheck - Test file without test framework types configured
+import { dueAnnouncements, INITIAL_VOICE_STATE, planVoiceGuidance } from './voiceGuidance';
+
+// North 100 m up George Street, left 30 m along King Street, then right for 100 m to the destination
+const DEG_PER_100M = 100 / 111195;
+const route = [
+  { id: 'a', x: 0, y: 0, lat: -33.87, lng: 151.2 },
+  { id: 'b', x: 0, y: 0, lat: -33.87 + DEG_PER_100M, lng: 151.2 },
+  { id: 'c', x: 0, y: 0, lat: -33.87 + DEG_PER_100M, lng: 151.2 - DEG_PER_100M * 0.3 / Math.cos((33.87 * Math.PI) / 180) },
+  { id: 'd', x: 0, y: 0, lat: -33.87 + DEG_PER_100M * 2, lng: 151.2 - DEG_PER_100M * 0.3 / Math.cos((33.87 * Math.PI) / 180) },
+];
+const steps = [
+  { instruction: 'Head north on George Street', maneuver: { type: 'depart', direction: 'north', street: 'George Street' }, distance: 100, turnType: 'start', routeIndex: 0 },
+  { instruction: 'Turn left onto King Street', maneuver: { type: 'turn', direction: 'left', street: 'King Street' }, distance: 30, turnType: 'left', routeIndex: 1 },
+  { instruction: 'Turn right onto York Street', maneuver: { type: 'turn', direction: 'right', street: 'York Street' }, distance: 100, turnType: 'right', routeIndex: 2 },
+  { instruction: 'Arrive at destination', maneuver: { type: 'arrive' }, distance: 0, turnType: 'arrive', routeIndex: 3 },
+];
+const plan = planVoiceGuidance(route, steps);
+
+// Walk through positions, collecting what would be spoken at each
+function walk(positions, state = INITIAL_VOICE_STATE) {
+  const spoken = [];
+  for (const [routeIndex, fraction] of positions) {
+    const result = dueAnnouncements(plan, state, { routeIndex, fraction });
+    state = result.state;
+    spoken.push(result.announcements);
+  }
+  return { state, spoken };
+}
+
+test('announces each step ahead of it and again on reaching it', () => {
+  const { spoken } = walk([[0, 0], [0, 0.3], [0, 0.5], [0, 0.7], [0, 0.9]]);
+  expect(spoken).toEqual([
+    ['Head north on George Street'],
+    [],
+    ['In 50 metres, turn left onto King Street'],
+    [],
+    ['Turn left now', 'In 40 metres, turn right onto York Street'],
+  ]);
+});
+
+test('never repeats an announcement', () => {
+  const { spoken } = walk([[0, 0], [0, 0], [0, 0.5], [0, 0.5], [0, 0.52], [1, 0], [1, 0]]);
+  expect(spoken.flat()).toEqual([
+    'Head north on George Street',
+    'In 50 metres, turn left onto King Street',
+    'Turn left now',
+    'In 30 metres, turn right onto York Street',
+  ]);
+});
+
+test('only prepares for the next step, not the one after it', () => {
+  // 20 m before the left turn, 50 m before the right turn
+  const { spoken } = walk([[0, 0.8]]);
+  expect(spoken).toEqual([['In 20 metres, turn left onto King Street']]);
+});
+
+test('steps passed without being announced are skipped', () => {
+  const { spoken } = walk([[0, 0], [2, 0.3], [2, 0.95]]);
+  expect(spoken).toEqual([['Head north on George Street'], [], ['Arrive at destination']]);
+});
+
+test('speaks in the plan\'s language', () => {
+  const spanish = planVoiceGuidance(route, steps, 'es');
+  const { announcements } = dueAnnouncements(spanish, INITIAL_VOICE_STATE, { routeIndex: 0, fraction: 0.5 });
+  expect(announcements).toEqual(['En 50 metros, gire a la izquierda hacia King Street']);
+});
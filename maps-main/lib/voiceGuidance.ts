@@ -0,0 +1,142 @@
+import type { PathNode } from '@/types';
+import { calculateDistance } from '@/lib/coordinateMapper';
+import { nodesToGps, type DirectionStep } from '@/lib/turnByTurn';
+import {
+  DEFAULT_DIRECTIONS_LOCALE,
+  describeNow,
+  describeUpcoming,
+  DIRECTIONS_LOCALES,
+  type DirectionsLocale,
+} from '@/lib/directionsLocale';
+
+/**
+ * Spoken turn-by-turn guidance
+ * Each step of a route's directions (getAllDirections) is announced as the
+ * user approaches it: once `prepareMeters` ahead ("In 50 metres, turn left
+ * onto King Street") and again on reaching it ("Turn left now"). Announcements
+ * are scheduled by distance along the route rather than by time, and each is
+ * spoken at most once, however often GPS fixes arrive. Speech goes through the
+ * browser's Web Speech API.
+ */
+
+export interface VoiceGuidanceConfig {
+  prepareMeters: number; // Distance ahead of a step at which it is first announced
+  nowMeters: number; // Within this of a step (either side), it is announced as happening now
+}
+
+export const DEFAULT_VOICE_CONFIG: VoiceGuidanceConfig = {
+  prepareMeters: 50,
+  nowMeters: 12,
+};
+
+export interface VoiceCue {
+  step: DirectionStep;
+  atMeters: number; // Distance along the route at which the step begins
+}
+
+export interface VoicePlan {
+  offsets: number[]; // Distance along the route of each route node, metres
+  cues: VoiceCue[]; // In route order
+  locale: DirectionsLocale;
+}
+
+export interface VoiceGuidanceState {
+  announced: string[]; // `${cue index}:prepare` / `${cue index}:now`
+}
+
+export const INITIAL_VOICE_STATE: VoiceGuidanceState = { announced: [] };
+
+/**
+ * Place a route's direction steps along it, to be spoken in `locale`
+ * Steps without a route index (e.g. indoor summaries) are left out.
+ */
+export function planVoiceGuidance(
+  route: PathNode[],
+  steps: DirectionStep[],
+  locale: DirectionsLocale = DEFAULT_DIRECTIONS_LOCALE
+): VoicePlan {
+  const gps = nodesToGps(route);
+  const offsets = [0];
+  for (let i = 1; i < gps.length; i++) {
+    offsets.push(offsets[i - 1] + calculateDistance(gps[i - 1], gps[i]));
+  }
+
+  const cues = steps
+    .filter((step) => step.routeIndex !== undefined && step.routeIndex < offsets.length)
+    .map((step) => ({ step, atMeters: offsets[step.routeIndex!] }));
+  return { offsets, cues, locale };
+}
+
+// Distances are spoken to the nearest 10 metres
+function spokenMeters(meters: number): number {
+  return Math.max(10, Math.round(meters / 10) * 10);
+}
+
+/**
+ * Announcements due at the user's position on the route
+ * `routeIndex` is the route segment the user is on and `fraction` how far
+ * along it (0-1). Steps passed without being announced (e.g. after a GPS
+ * gap) are skipped rather than read out late.
+ */
+export function dueAnnouncements(
+  plan: VoicePlan,
+  state: VoiceGuidanceState,
+  position: { routeIndex: number; fraction: number },
+  config: VoiceGuidanceConfig = DEFAULT_VOICE_CONFIG
+): { state: VoiceGuidanceState; announcements: string[] } {
+  const { offsets } = plan;
+  const i = Math.max(0, Math.min(position.routeIndex, offsets.length - 1));
+  const segment = (offsets[i + 1] ?? offsets[i]) - offsets[i];
+  const progress = offsets[i] + Math.max(0, Math.min(1, position.fraction)) * segment;
+
+  const announced = new Set(state.announced);
+  const announcements: string[] = [];
+
+  for (const [index, { step, atMeters }] of plan.cues.entries()) {
+    const remaining = atMeters - progress;
+    if (remaining < -config.nowMeters) continue;
+    if (remaining > config.prepareMeters) break;
+
+    if (remaining <= config.nowMeters) {
+      if (!announced.has(`${index}:now`)) {
+        announced.add(`${index}:now`);
+        announced.add(`${index}:prepare`);
+        announcements.push(describeNow(step.maneuver, plan.locale));
+      }
+      continue;
+    }
+
+    // Steps starting a leg ("Continue to stop 2") follow straight on from the previous one; no warning needed
+    if (step.turnType !== 'start' && !announced.has(`${index}:prepare`)) {
+      announced.add(`${index}:prepare`);
+      announcements.push(describeUpcoming(step.maneuver, spokenMeters(remaining), plan.locale));
+    }
+    // Only the next step is prepared for, not the ones after it
+    break;
+  }
+
+  if (announcements.length === 0) return { state, announcements };
+  return { state: { announced: [...announced] }, announcements };
+}
+
+export function isSpeechAvailable(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Speak an announcement after any still being spoken
+ */
+export function speak(
+  text: string,
+  { volume, locale = DEFAULT_DIRECTIONS_LOCALE }: { volume: number; locale?: DirectionsLocale }
+): void {
+  if (!isSpeechAvailable()) return;
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = DIRECTIONS_LOCALES[locale].speechLang;
+  utterance.volume = Math.max(0, Math.min(1, volume));
+  window.speechSynthesis.speak(utterance);
+}
+
+export function stopSpeaking(): void {
+  if (isSpeechAvailable()) window.speechSynthesis.cancel();
+}
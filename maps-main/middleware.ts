@@ -5,20 +5,42 @@ import type { NextRequest } from "next/server";
  * Simple MVP Auth Middleware
  * WARNING: This is a basic implementation for development only!
  * For production, use a proper authentication solution like NextAuth.js
+ *
+ * Middleware runs on the edge and cannot query the database, so it only
+ * checks that a session cookie is present. Admin API handlers validate the
+ * session itself with requireAdmin() from lib/auth.ts.
  */
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Allow login page
-  if (pathname === "/admin/login") {
+  // Allow login and invite acceptance, plus the login/logout endpoints
+  if (
+    pathname === "/admin/login" ||
+    pathname.startsWith("/admin/invite/") ||
+    pathname === "/api/admin/login" ||
+    pathname === "/api/admin/logout" ||
+    pathname.startsWith("/api/admin/invite/")
+  ) {
+    return NextResponse.next();
+  }
+
+  const sessionCookie = request.cookies.get("admin_session");
+
+  // Reject unauthenticated admin API calls with JSON instead of a redirect
+  if (pathname.startsWith("/api/admin")) {
+    if (!sessionCookie) {
+      return NextResponse.json(
+        { error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     return NextResponse.next();
   }
 
   // Protect all /admin/* routes
   if (pathname.startsWith("/admin")) {
-    const sessionCookie = request.cookies.get("admin_session");
-
     if (!sessionCookie) {
       // Redirect to login
       const loginUrl = new URL("/admin/login", request.url);
@@ -34,5 +56,5 @@ export function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ["/admin/:path*"],
+  matcher: ["/admin/:path*", "/api/admin/:path*"],
 };
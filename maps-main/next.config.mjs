@@ -16,6 +16,16 @@ const nextConfig = {
   // Security headers
   async headers() {
     return [
+      // Navigation graph: the manifest is always revalidated; the binary is
+      // requested with its version hash (?v=) so it can be cached forever
+      {
+        source: '/graph/manifest.json',
+        headers: [{ key: 'Cache-Control', value: 'no-cache' }],
+      },
+      {
+        source: '/graph/:file*.bin',
+        headers: [{ key: 'Cache-Control', value: 'public, max-age=31536000, immutable' }],
+      },
       {
         source: '/(.*)',
         headers: [
@@ -0,0 +1,5 @@
+-- Existing accounts had the legacy "admin" role with full access
+UPDATE "AdminUser" SET "role" = 'owner' WHERE "role" = 'admin';
+
+-- AlterTable
+ALTER TABLE "AdminUser" ALTER COLUMN "role" SET DEFAULT 'viewer';
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "invite_token" TEXT,
+ADD COLUMN     "invite_expires_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN     "user_agent" TEXT,
+ADD COLUMN     "ip_address" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AdminUser_invite_token_key" ON "AdminUser"("invite_token");
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "failed_login_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "locked_until" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "login_attempts" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "success" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_attempts_email_created_at_idx" ON "login_attempts"("email", "created_at");
+
+-- CreateIndex
+CREATE INDEX "login_attempts_ip_address_created_at_idx" ON "login_attempts"("ip_address", "created_at");
+
+-- CreateIndex
+CREATE INDEX "login_attempts_created_at_idx" ON "login_attempts"("created_at");
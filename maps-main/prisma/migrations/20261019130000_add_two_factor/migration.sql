@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN     "totp_secret" TEXT,
+ADD COLUMN     "totp_enabled_at" TIMESTAMP(3),
+ADD COLUMN     "totp_last_step" INTEGER,
+ADD COLUMN     "recovery_codes" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "login_challenges" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "admin_security_settings" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "require_two_factor" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "admin_security_settings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "login_challenges_token_key" ON "login_challenges"("token");
+
+-- CreateIndex
+CREATE INDEX "login_challenges_user_id_idx" ON "login_challenges"("user_id");
+
+-- CreateIndex
+CREATE INDEX "login_challenges_expires_at_idx" ON "login_challenges"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "login_challenges" ADD CONSTRAINT "login_challenges_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "AdminUser"("id") ON DELETE CASCADE ON UPDATE CASCADE;
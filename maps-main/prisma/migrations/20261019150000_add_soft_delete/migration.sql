@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Deal" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Place" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "indoor_pois" ADD COLUMN     "deleted_at" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Deal_deleted_at_idx" ON "Deal"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "Event_deleted_at_idx" ON "Event"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "Place_deleted_at_idx" ON "Place"("deleted_at");
+
+-- CreateIndex
+CREATE INDEX "indoor_pois_deleted_at_idx" ON "indoor_pois"("deleted_at");
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "route_closures" (
+    "id" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "description" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'closed',
+    "floor_id" TEXT,
+    "points" JSONB NOT NULL,
+    "radius" DOUBLE PRECISION NOT NULL DEFAULT 10,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "is_live" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "route_closures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "route_closures_floor_id_idx" ON "route_closures"("floor_id");
+
+-- CreateIndex
+CREATE INDEX "route_closures_starts_at_ends_at_idx" ON "route_closures"("starts_at", "ends_at");
+
+-- AddForeignKey
+ALTER TABLE "route_closures" ADD CONSTRAINT "route_closures_floor_id_fkey" FOREIGN KEY ("floor_id") REFERENCES "floors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "floor_graphs" (
+    "id" TEXT NOT NULL,
+    "floor_id" TEXT NOT NULL,
+    "svg_path" TEXT NOT NULL,
+    "segments" JSONB NOT NULL,
+    "portals" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "floor_graphs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "floor_graphs_floor_id_key" ON "floor_graphs"("floor_id");
+
+-- AddForeignKey
+ALTER TABLE "floor_graphs" ADD CONSTRAINT "floor_graphs_floor_id_fkey" FOREIGN KEY ("floor_id") REFERENCES "floors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -216,7 +216,7 @@ async function main() {
     create: {
       email: "admin@example.com",
       passwordHash,
-      role: "admin",
+      role: "owner",
     },
   });
 
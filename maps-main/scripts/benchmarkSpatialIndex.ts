@@ -0,0 +1,161 @@
+/**
+ * Benchmark the spatial index against linear scans on the street graph
+ * Compares graph-build time (node deduplication) and nearest-node lookups.
+ * Run with: npm run bench:spatial
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import { buildNavigationGraph } from '../lib/indoorPathfinding';
+import { buildSpatialIndex, nearestInIndex } from '../lib/spatialIndex';
+
+type Point = { x: number; y: number };
+
+interface PathGraph {
+  nodesById: Record<string, { id: string; x: number; y: number }>;
+  adjacency: Record<string, Array<{ to: string; distance: number; points?: Point[] }>>;
+}
+
+interface Segment {
+  id: string;
+  start: Point;
+  end: Point;
+  length: number;
+}
+
+const GRAPH_PATH = path.join(__dirname, '../data/sydney-graph-full.json');
+const LOOKUPS = 20_000;
+const WARMUP_LOOKUPS = 2_000;
+const DENSIFY_STEP = 5; // SVG units between nodes in the densified run
+const SNAP_DISTANCE = 2;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = performance.now();
+  const result = fn();
+  return { result, ms: performance.now() - start };
+}
+
+// Every edge polyline as straight segments, optionally split into short pieces
+function graphToSegments(graph: PathGraph, step?: number): Segment[] {
+  const segments: Segment[] = [];
+  for (const [fromId, edges] of Object.entries(graph.adjacency)) {
+    for (const edge of edges) {
+      const line = [graph.nodesById[fromId], ...(edge.points ?? []), graph.nodesById[edge.to]];
+      for (let i = 1; i < line.length; i++) {
+        const a = line[i - 1];
+        const b = line[i];
+        const pieces = step ? Math.max(1, Math.ceil(distance(a, b) / step)) : 1;
+        for (let k = 0; k < pieces; k++) {
+          const start = { x: a.x + ((b.x - a.x) * k) / pieces, y: a.y + ((b.y - a.y) * k) / pieces };
+          const end = { x: a.x + ((b.x - a.x) * (k + 1)) / pieces, y: a.y + ((b.y - a.y) * (k + 1)) / pieces };
+          segments.push({ id: `seg-${segments.length}`, start, end, length: distance(start, end) });
+        }
+      }
+    }
+  }
+  return segments;
+}
+
+// The previous implementation: scan every node for one within the snap distance
+function buildGraphLinear(segments: Segment[]): Map<string, { point: Point; edges: Map<string, number> }> {
+  const nodes = new Map<string, { point: Point; edges: Map<string, number> }>();
+  const getOrCreateNode = (point: Point): string => {
+    for (const [id, node] of nodes.entries()) {
+      if (distance(node.point, point) < SNAP_DISTANCE) return id;
+    }
+    const id = `node-${nodes.size}`;
+    nodes.set(id, { point, edges: new Map() });
+    return id;
+  };
+  for (const segment of segments) {
+    const startId = getOrCreateNode(segment.start);
+    const endId = getOrCreateNode(segment.end);
+    nodes.get(startId)!.edges.set(endId, segment.length);
+    nodes.get(endId)!.edges.set(startId, segment.length);
+  }
+  return nodes;
+}
+
+function nearestLinear(points: Point[], query: Point): Point | null {
+  let best: Point | null = null;
+  let bestDist = Infinity;
+  for (const p of points) {
+    const d = distance(p, query);
+    if (d < bestDist) {
+      bestDist = d;
+      best = p;
+    }
+  }
+  return best;
+}
+
+function benchmarkBuild(label: string, segments: Segment[]) {
+  const log = console.log;
+  console.log = () => {}; // buildNavigationGraph logs its node count
+  const indexed = time(() => buildNavigationGraph(segments));
+  console.log = log;
+  const linear = time(() => buildGraphLinear(segments));
+
+  console.log(`\n🏗️  Graph build (${label}): ${segments.length} segments`);
+  console.log(`   linear scan:   ${linear.ms.toFixed(1)} ms → ${linear.result.size} nodes`);
+  console.log(`   spatial index: ${indexed.ms.toFixed(1)} ms → ${indexed.result.size} nodes`);
+  return Array.from(indexed.result.values(), (node) => node.point);
+}
+
+function benchmarkLookups(label: string, points: Point[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+
+  // Deterministic pseudo-random queries across the graph's bounds
+  let seed = 42;
+  const random = () => ((seed = (seed * 16807) % 2147483647) / 2147483647);
+  const queries = Array.from({ length: LOOKUPS }, () => ({ x: minX + random() * width, y: minY + random() * height }));
+
+  const build = time(() => buildSpatialIndex(points, (p) => p));
+
+  // Warm up both code paths so the JIT doesn't favour whichever runs second
+  for (const q of queries.slice(0, WARMUP_LOOKUPS)) {
+    nearestInIndex(build.result, q);
+    nearestLinear(points, q);
+  }
+
+  const indexed = time(() => queries.map((q) => nearestInIndex(build.result, q)?.item ?? null));
+  const linear = time(() => queries.map((q) => nearestLinear(points, q)));
+
+  const mismatches = queries.filter((q, i) => {
+    const a = indexed.result[i];
+    const b = linear.result[i];
+    return !a || !b || Math.abs(distance(a, q) - distance(b, q)) > 1e-9;
+  }).length;
+
+  console.log(`\n🔍 Nearest lookups (${label}): ${LOOKUPS} queries over ${points.length} nodes`);
+  console.log(`   linear scan:   ${linear.ms.toFixed(1)} ms`);
+  console.log(`   spatial index: ${indexed.ms.toFixed(1)} ms (+ ${build.ms.toFixed(1)} ms to build the index)`);
+  console.log(mismatches === 0 ? '   ✅ Results match' : `   ❌ ${mismatches} results differ`);
+  return mismatches;
+}
+
+function main() {
+  const graph: PathGraph = JSON.parse(fs.readFileSync(GRAPH_PATH, 'utf-8'));
+  console.log(`📂 Loaded ${path.basename(GRAPH_PATH)}: ${Object.keys(graph.nodesById).length} nodes`);
+
+  const graphNodes = Object.values(graph.nodesById);
+  let mismatches = benchmarkLookups('street graph', graphNodes);
+
+  benchmarkBuild('street graph', graphToSegments(graph));
+  const densified = benchmarkBuild(`densified every ${DENSIFY_STEP} units`, graphToSegments(graph, DENSIFY_STEP));
+  mismatches += benchmarkLookups('densified graph', densified);
+
+  if (mismatches > 0) process.exit(1);
+}
+
+main();
@@ -8,6 +8,7 @@ import * as path from 'path';
 import { parseSVGMap } from '../lib/svgParser';
 import { buildGraphFromSVG } from '../lib/graphBuilder';
 import { GPS_CORNERS, VIEWBOX, CONTROL_POINTS } from '../lib/mapConfig';
+import { emitClientGraph } from './encodeGraph';
 
 interface PathNode {
   id: string;
@@ -27,7 +28,7 @@ interface PreDefinedRoute {
 
 interface PathGraph {
   nodesById: Record<string, PathNode>;
-  adjacency: Record<string, Array<{ to: string; distance: number; points?: Array<{ x: number; y: number }>; street?: string }>>;
+  adjacency: Record<string, Array<{ to: string; distance: number; points?: Array<{ x: number; y: number }>; street?: string; accessible?: boolean }>>;
   predefinedRoutes?: PreDefinedRoute[];
 }
 
@@ -371,6 +372,12 @@ async function buildGraph(): Promise<PathGraph> {
   console.log(`✓ Created ${Object.keys(graph.nodesById).length} nodes`);
   const totalEdges = Object.values(graph.adjacency).reduce((sum, edges) => sum + edges.length, 0);
   console.log(`✓ Created ${totalEdges} edges`);
+  // Step edges are carried into the graph so routing profiles can avoid them
+  const stepEdges = Object.values(graph.adjacency).reduce((sum, edges) => sum + edges.filter(e => e.accessible === false).length, 0);
+  console.log(`  - Edges with steps (avoided by step-free routing): ${stepEdges}`);
+  if (nonAccessiblePaths > 0 && stepEdges === 0) {
+    throw new Error(`${nonAccessiblePaths} non-accessible paths were parsed but no edge is marked with steps`);
+  }
 
   // Add GPS coordinates to nodes
   console.log('\nAdding GPS coordinates...');
@@ -428,11 +435,15 @@ async function main() {
     console.log('\nWriting graph to file...');
     fs.writeFileSync(outputPath, JSON.stringify(graph, null, 2));
 
+    // Compact binary graph, landmarks and version manifest for the client
+    const { binaryPath } = emitClientGraph(graph);
+
     const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
     console.log(`\n✅ Graph built successfully in ${elapsed}s!`);
     console.log(`   Nodes: ${Object.keys(graph.nodesById).length}`);
     console.log(`   Edges: ${Object.values(graph.adjacency).reduce((s, e) => s + e.length, 0)}`);
-    console.log(`   Output: ${outputPath}\n`);
+    console.log(`   Output: ${outputPath}`);
+    console.log(`   Client graph: ${binaryPath}\n`);
   } catch (error) {
     console.error('\n❌ Error building graph:', error);
     process.exit(1);
@@ -0,0 +1,94 @@
+/**
+ * Encode the street graph for the client
+ * Drops long straight edges, precomputes routing landmarks (checked against
+ * plain A*), and writes the compact binary graph plus a manifest carrying its
+ * version hash to public/graph/. Runs at the end of buildGraph.ts; run it on
+ * its own to re-encode data/sydney-graph-full.json: npm run encode:graph
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PathGraph } from '../types';
+import { encodeGraph, GRAPH_FORMAT_VERSION } from '../lib/graphBinary';
+import { checkLandmarkConsistency, computeLandmarks } from '../lib/landmarks';
+import { aStarSearch } from '../lib/pathfinding';
+
+const MAX_STRAIGHT_EDGE_DISTANCE = 120; // px in viewBox space; increased to preserve path connectivity
+const LANDMARK_CHECK_SOURCES = 20; // Start nodes whose routes to every node are checked against plain A*
+
+const GRAPH_JSON_PATH = path.join(__dirname, '../data/sydney-graph-full.json');
+const OUTPUT_DIR = path.join(__dirname, '../public/graph');
+const BINARY_FILE = 'sydney-graph.bin';
+
+// Straight edges longer than this cut through buildings; curved edges follow real SVG paths
+function withoutLongStraightEdges(graph: PathGraph): PathGraph {
+  const adjacency: PathGraph['adjacency'] = {};
+  for (const [nodeId, edges] of Object.entries(graph.adjacency)) {
+    adjacency[nodeId] = edges.filter(
+      (edge) => (edge.points && edge.points.length >= 2) || edge.distance <= MAX_STRAIGHT_EDGE_DISTANCE
+    );
+  }
+  return { nodesById: graph.nodesById, adjacency };
+}
+
+// Graphs built before accessibility was carried through have no step edges; every profile routes alike on them
+function warnIfNoStepEdges(graph: PathGraph): void {
+  const stepEdges = Object.values(graph.adjacency).reduce(
+    (sum, edges) => sum + edges.filter((edge) => edge.accessible === false).length,
+    0
+  );
+  if (stepEdges === 0) {
+    console.warn('⚠️  No edges with steps (accessible: false) - step-free routing will match the default profile');
+  }
+}
+
+export function emitClientGraph(fullGraph: PathGraph): { binaryPath: string; version: string } {
+  const graph = withoutLongStraightEdges(fullGraph);
+  warnIfNoStepEdges(graph);
+
+  // Precompute ALT landmarks and check them against plain A*
+  console.log('\nPrecomputing routing landmarks...');
+  const landmarks = computeLandmarks(graph);
+  const ids = landmarks.nodeIds;
+  const sources = ids.filter((_, i) => i % Math.max(1, Math.floor(ids.length / LANDMARK_CHECK_SOURCES)) === 0);
+  const pairs = sources.flatMap((from) => ids.map((to) => [from, to] as [string, string]));
+  const mismatches = checkLandmarkConsistency({ ...graph, landmarks }, pairs, aStarSearch);
+  if (mismatches.length > 0) {
+    mismatches.slice(0, 5).forEach((m) => console.error(`   ${m.from} → ${m.to}: A* ${m.expected}, ALT ${m.actual}`));
+    throw new Error(`Landmark routing disagrees with A* on ${mismatches.length} of ${pairs.length} routes`);
+  }
+  console.log(`✅ ${landmarks.landmarks.length} landmarks, consistent with A* on ${pairs.length} routes`);
+
+  // Binary graph, named in the manifest by content hash so clients refetch only when it changes
+  const binary = Buffer.from(encodeGraph(graph, landmarks));
+  const version = crypto.createHash('sha256').update(binary).digest('hex').slice(0, 16);
+  const manifest = {
+    version,
+    format: GRAPH_FORMAT_VERSION,
+    file: BINARY_FILE,
+    bytes: binary.byteLength,
+    nodes: ids.length,
+    edges: Object.values(graph.adjacency).reduce((sum, edges) => sum + edges.length, 0),
+  };
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  const binaryPath = path.join(OUTPUT_DIR, BINARY_FILE);
+  fs.writeFileSync(binaryPath, binary);
+  fs.writeFileSync(path.join(OUTPUT_DIR, 'manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+
+  const jsonBytes = Buffer.byteLength(JSON.stringify(fullGraph));
+  console.log(`✅ Binary graph: ${(binary.byteLength / 1024).toFixed(1)} KB (JSON ${(jsonBytes / 1024).toFixed(1)} KB), version ${version}`);
+  return { binaryPath, version };
+}
+
+if (require.main === module) {
+  try {
+    const graph: PathGraph = JSON.parse(fs.readFileSync(GRAPH_JSON_PATH, 'utf-8'));
+    const { binaryPath } = emitClientGraph(graph);
+    console.log(`   Output: ${binaryPath}\n`);
+  } catch (error) {
+    console.error('\n❌ Error encoding graph:', error);
+    process.exit(1);
+  }
+}
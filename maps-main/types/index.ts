@@ -67,6 +67,7 @@ export interface PathEdge {
   distance: number; // in SVG units
   points?: Array<{ x: number; y: number }>; // Intermediate points for curved segments
   street?: string; // Street name for this edge
+  accessible?: boolean; // false if the edge involves steps (see lib/routingProfiles.ts)
 }
 
 export interface PreDefinedRoute {
@@ -76,10 +77,33 @@ export interface PreDefinedRoute {
   streets: string[];
 }
 
+/**
+ * Precomputed landmark distances for ALT routing (see lib/landmarks.ts)
+ * Distances are in SVG units, indexed like nodeIds; null means unreachable.
+ */
+export interface LandmarkData {
+  nodeIds: string[];
+  landmarks: Array<{
+    id: string;
+    from: Array<number | null>; // Landmark -> node
+    to: Array<number | null>; // Node -> landmark
+  }>;
+}
+
 export interface PathGraph {
   nodesById: Record<string, PathNode>;
-  adjacency: Record<string, Array<{ to: string; distance: number; points?: Array<{ x: number; y: number }>; street?: string }>>;
+  adjacency: Record<string, Array<{ to: string; distance: number; points?: Array<{ x: number; y: number }>; street?: string; accessible?: boolean }>>;
   predefinedRoutes?: PreDefinedRoute[];
+  landmarks?: LandmarkData;
+}
+
+/**
+ * An intermediate stop on a multi-stop route
+ * routeIndex is the index of the node in the stitched route where the stop is reached.
+ */
+export interface RouteStop {
+  routeIndex: number;
+  label?: string;
 }
 
 export interface RouteSummary {